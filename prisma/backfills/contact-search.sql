@@ -0,0 +1,36 @@
+-- CONTACT SEARCH VECTOR
+-- =====================
+-- Installs the trigger that maintains contacts.search_vector and fills it
+-- for existing rows. Run after `npm run prisma:push` has created the column
+-- and its GIN index:
+--
+--   npm run prisma:backfill:search
+--
+-- Safe to re-run. The vector covers name, email, job title and the
+-- LinkedIn headline in custom_fields, using the 'simple' configuration so
+-- names and emails are not stemmed.
+
+BEGIN;
+
+CREATE OR REPLACE FUNCTION crm.contacts_search_vector() RETURNS trigger AS $$
+BEGIN
+  NEW.search_vector :=
+    setweight(to_tsvector('simple', coalesce(NEW.first_name, '') || ' ' || coalesce(NEW.last_name, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(NEW.email, '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce(NEW.job_title, '')), 'B') ||
+    setweight(to_tsvector('simple', coalesce(NEW.custom_fields->>'linkedinHeadline', '')), 'C');
+  RETURN NEW;
+END
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS contacts_search_vector ON crm.contacts;
+
+CREATE TRIGGER contacts_search_vector
+  BEFORE INSERT OR UPDATE OF first_name, last_name, email, job_title, custom_fields
+  ON crm.contacts
+  FOR EACH ROW EXECUTE FUNCTION crm.contacts_search_vector();
+
+-- Fire the trigger for existing rows
+UPDATE crm.contacts SET first_name = first_name WHERE search_vector IS NULL;
+
+COMMIT;
@@ -0,0 +1,33 @@
+-- ONE DEFAULT PIPELINE PER SCOPE
+-- ==============================
+-- Installs the partial unique index that allows at most one default
+-- pipeline per (organization, workspace) scope, organization-wide
+-- pipelines being the scope without a workspace. Run after
+-- `npm run prisma:push`:
+--
+--   npm run prisma:backfill:pipelines
+--
+-- Safe to re-run. Where a scope already has several defaults, the oldest
+-- one stays the default.
+
+BEGIN;
+
+UPDATE crm.pipelines p
+SET is_default = false
+WHERE p.is_default
+  AND EXISTS (
+    SELECT 1 FROM crm.pipelines older
+    WHERE older.is_default
+      AND older.organization_id = p.organization_id
+      AND older.workspace_id IS NOT DISTINCT FROM p.workspace_id
+      AND (older.created_at, older.id) < (p.created_at, p.id)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS pipelines_one_default_per_scope
+  ON crm.pipelines (
+    organization_id,
+    COALESCE(workspace_id, '00000000-0000-0000-0000-000000000000'::uuid)
+  )
+  WHERE is_default;
+
+COMMIT;
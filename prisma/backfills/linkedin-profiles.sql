@@ -0,0 +1,106 @@
+-- LINKEDIN PROFILE BACKFILL
+-- =========================
+-- Copies the LinkedIn keys in contacts.custom_fields into linkedin_profiles,
+-- linkedin_experiences and linkedin_educations. Run once after
+-- `npm run prisma:push` has created the tables:
+--
+--   npm run prisma:backfill:linkedin
+--
+-- Safe to re-run: contacts that already have a profile are skipped. When two
+-- contacts in an organization share a URN, the oldest one gets the profile.
+-- The key mapping mirrors LinkedInProfileService.
+
+BEGIN;
+
+-- First string or number value among `keys`, ignoring blanks
+CREATE FUNCTION pg_temp.li_text(entry jsonb, keys text[]) RETURNS text AS $$
+  SELECT entry->>k
+  FROM unnest(keys) WITH ORDINALITY AS t(k, i)
+  WHERE jsonb_typeof(entry->k) IN ('string', 'number') AND btrim(entry->>k) <> ''
+  ORDER BY i
+  LIMIT 1
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Non-blank strings of a JSON array
+CREATE FUNCTION pg_temp.li_text_array(value jsonb) RETURNS text[] AS $$
+  SELECT COALESCE(array_agg(item #>> '{}' ORDER BY i), '{}')
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(value) = 'array' THEN value ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS t(item, i)
+  WHERE jsonb_typeof(item) = 'string' AND btrim(item #>> '{}') <> ''
+$$ LANGUAGE sql IMMUTABLE;
+
+-- JSON array elements with their 0-based position, or none
+CREATE FUNCTION pg_temp.li_entries(value jsonb) RETURNS TABLE(entry jsonb, position int) AS $$
+  SELECT item, (i - 1)::int
+  FROM jsonb_array_elements(
+    CASE WHEN jsonb_typeof(value) = 'array' THEN value ELSE '[]'::jsonb END
+  ) WITH ORDINALITY AS t(item, i)
+  WHERE jsonb_typeof(item) = 'object'
+$$ LANGUAGE sql IMMUTABLE;
+
+INSERT INTO crm.linkedin_profiles (
+  id, organization_id, contact_id, urn_id, public_id, headline, location,
+  industry, profile_photo_url, connected_at, skills, languages, created_at, updated_at
+)
+SELECT DISTINCT ON (c.organization_id, pg_temp.li_text(c.custom_fields, ARRAY['linkedinUrnId']))
+  gen_random_uuid(),
+  c.organization_id,
+  c.id,
+  pg_temp.li_text(c.custom_fields, ARRAY['linkedinUrnId']),
+  pg_temp.li_text(c.custom_fields, ARRAY['linkedinPublicId']),
+  pg_temp.li_text(c.custom_fields, ARRAY['linkedinHeadline']),
+  pg_temp.li_text(c.custom_fields, ARRAY['linkedinLocation']),
+  pg_temp.li_text(c.custom_fields, ARRAY['linkedinIndustry']),
+  pg_temp.li_text(c.custom_fields, ARRAY['linkedinProfilePhoto']),
+  CASE
+    WHEN c.custom_fields->>'linkedinConnected' ~ '^\d{4}-\d{2}-\d{2}'
+    THEN (c.custom_fields->>'linkedinConnected')::timestamptz
+  END,
+  pg_temp.li_text_array(c.custom_fields->'linkedinSkills'),
+  pg_temp.li_text_array(c.custom_fields->'linkedinLanguages'),
+  now(),
+  now()
+FROM crm.contacts c
+WHERE jsonb_typeof(c.custom_fields) = 'object'
+  AND pg_temp.li_text(c.custom_fields, ARRAY['linkedinUrnId']) IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM crm.linkedin_profiles p WHERE p.contact_id = c.id)
+ORDER BY c.organization_id, pg_temp.li_text(c.custom_fields, ARRAY['linkedinUrnId']), c.created_at
+ON CONFLICT (organization_id, urn_id) DO NOTHING;
+
+INSERT INTO crm.linkedin_experiences (
+  id, profile_id, position, title, company_name, location, start_date, end_date, description
+)
+SELECT
+  gen_random_uuid(),
+  p.id,
+  e.position,
+  pg_temp.li_text(e.entry, ARRAY['title', 'job_title', 'position']),
+  pg_temp.li_text(e.entry, ARRAY['company', 'company_name', 'companyName']),
+  pg_temp.li_text(e.entry, ARRAY['location']),
+  pg_temp.li_text(e.entry, ARRAY['start_date', 'startDate', 'starts_at']),
+  pg_temp.li_text(e.entry, ARRAY['end_date', 'endDate', 'ends_at']),
+  pg_temp.li_text(e.entry, ARRAY['description'])
+FROM crm.linkedin_profiles p
+JOIN crm.contacts c ON c.id = p.contact_id
+CROSS JOIN LATERAL pg_temp.li_entries(c.custom_fields->'linkedinWorkExperience') e
+WHERE NOT EXISTS (SELECT 1 FROM crm.linkedin_experiences x WHERE x.profile_id = p.id);
+
+INSERT INTO crm.linkedin_educations (
+  id, profile_id, position, school, degree, field_of_study, start_date, end_date
+)
+SELECT
+  gen_random_uuid(),
+  p.id,
+  e.position,
+  pg_temp.li_text(e.entry, ARRAY['school', 'school_name', 'schoolName']),
+  pg_temp.li_text(e.entry, ARRAY['degree', 'degree_name', 'degreeName']),
+  pg_temp.li_text(e.entry, ARRAY['field_of_study', 'fieldOfStudy']),
+  pg_temp.li_text(e.entry, ARRAY['start_date', 'startDate', 'starts_at']),
+  pg_temp.li_text(e.entry, ARRAY['end_date', 'endDate', 'ends_at'])
+FROM crm.linkedin_profiles p
+JOIN crm.contacts c ON c.id = p.contact_id
+CROSS JOIN LATERAL pg_temp.li_entries(c.custom_fields->'linkedinEducation') e
+WHERE NOT EXISTS (SELECT 1 FROM crm.linkedin_educations x WHERE x.profile_id = p.id);
+
+COMMIT;
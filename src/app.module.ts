@@ -14,8 +14,15 @@ import { HealthModule } from './modules/health/health.module';
 import { CompaniesModule } from './modules/companies/companies.module';
 import { ContactsModule } from './modules/contacts/contacts.module';
 import { DealsModule } from './modules/deals/deals.module';
+import { PipelinesModule } from './modules/pipelines/pipelines.module';
 import { ActivitiesModule } from './modules/activities/activities.module';
 import { WebhooksModule } from './modules/webhooks/webhooks.module';
+import { LeadScoringModule } from './modules/lead-scoring/lead-scoring.module';
+import { ImportsModule } from './modules/imports/imports.module';
+import { ExportsModule } from './modules/exports/exports.module';
+import { EventsModule } from './modules/events/events.module';
+import { CustomFieldsModule } from './modules/custom-fields/custom-fields.module';
+import { UsersModule } from './modules/users/users.module';
 
 @Module({
   imports: [
@@ -25,8 +32,15 @@ import { WebhooksModule } from './modules/webhooks/webhooks.module';
     CompaniesModule,
     ContactsModule,
     DealsModule,
+    PipelinesModule,
     ActivitiesModule,
     WebhooksModule,
+    LeadScoringModule,
+    ImportsModule,
+    ExportsModule,
+    EventsModule,
+    CustomFieldsModule,
+    UsersModule,
   ],
 })
 export class AppModule implements NestModule {
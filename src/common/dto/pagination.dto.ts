@@ -0,0 +1,48 @@
+/**
+ * PAGINATION DTOs
+ * ===============
+ * Shared cursor pagination for list endpoints.
+ */
+
+import { z } from 'zod';
+
+// Query schema - spread into list query schemas
+export const CursorPaginationSchema = z.object({
+  cursor: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+export type CursorPaginationDto = z.infer<typeof CursorPaginationSchema>;
+
+// Response type
+export interface PaginatedResult<T> {
+  data: T[];
+  nextCursor: string | null;
+}
+
+/**
+ * Build a page from rows fetched with `take: limit + 1`.
+ * The extra row only signals that another page exists.
+ */
+export function toPaginatedResult<T extends { id: string }>(
+  rows: T[],
+  limit: number,
+): PaginatedResult<T> {
+  const hasMore = rows.length > limit;
+  const data = hasMore ? rows.slice(0, limit) : rows;
+
+  return {
+    data,
+    nextCursor: hasMore ? data[data.length - 1].id : null,
+  };
+}
+
+/**
+ * Prisma findMany arguments for a cursor page.
+ */
+export function cursorArgs({ cursor, limit }: CursorPaginationDto) {
+  return {
+    take: limit + 1,
+    ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+  };
+}
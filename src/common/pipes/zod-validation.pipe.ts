@@ -0,0 +1,27 @@
+/**
+ * ZOD VALIDATION PIPE
+ * ===================
+ * Validates a request body or query against a Zod schema.
+ * Mirrors the inline safeParse checks used by the auth controller.
+ */
+
+import { BadRequestException, Injectable, PipeTransform } from '@nestjs/common';
+import { ZodTypeAny, z } from 'zod';
+
+@Injectable()
+export class ZodValidationPipe<T extends ZodTypeAny> implements PipeTransform {
+  constructor(private readonly schema: T) {}
+
+  transform(value: unknown): z.infer<T> {
+    const result = this.schema.safeParse(value);
+    if (!result.success) {
+      const issue = result.error.errors[0];
+      const path = issue?.path.length ? `${issue.path.join('.')}: ` : '';
+      throw new BadRequestException(
+        issue ? `${path}${issue.message}` : 'Invalid request',
+      );
+    }
+
+    return result.data;
+  }
+}
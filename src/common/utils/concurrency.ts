@@ -0,0 +1,29 @@
+/**
+ * CONCURRENCY HELPERS
+ * ===================
+ * Bounded-concurrency iteration for background work.
+ */
+
+/**
+ * Run `worker` over `items` with at most `limit` calls in flight.
+ * Workers are expected to handle their own errors.
+ */
+export async function runWithConcurrency<T>(
+  items: readonly T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>,
+): Promise<void> {
+  let next = 0;
+
+  const lanes = Array.from(
+    { length: Math.max(1, Math.min(limit, items.length)) },
+    async () => {
+      while (next < items.length) {
+        const index = next++;
+        await worker(items[index], index);
+      }
+    },
+  );
+
+  await Promise.all(lanes);
+}
@@ -0,0 +1,79 @@
+/**
+ * CSV UTILITIES
+ * =============
+ * RFC 4180 parsing: quoted fields, escaped quotes ("") and newlines
+ * inside quotes, CRLF or LF line endings, and a leading BOM.
+ * Writing quotes only the fields that need it and ends lines with CRLF.
+ */
+
+/**
+ * Parse CSV text into rows of fields. Blank lines are skipped.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+/**
+ * Format one CSV line, including the trailing CRLF.
+ */
+export function toCsvLine(fields: string[], delimiter = ','): string {
+  return fields.map((field) => escapeCsvField(field, delimiter)).join(delimiter) + '\r\n';
+}
+
+/**
+ * Quote a field when it contains the delimiter, a quote or a line break.
+ */
+export function escapeCsvField(field: string, delimiter = ','): string {
+  if (field.includes(delimiter) || /["\r\n]/.test(field)) {
+    return `"${field.replace(/"/g, '""')}"`;
+  }
+  return field;
+}
@@ -0,0 +1,38 @@
+/**
+ * JOB HEARTBEAT
+ * =============
+ * Background jobs run in the process of whichever replica claimed them.
+ * While a job runs, its heartbeatAt is touched every HEARTBEAT_INTERVAL_MS;
+ * a running job whose heartbeat is older than STALE_JOB_MS was left behind
+ * by a replica that stopped, and any replica may recover it.
+ */
+
+export const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+export const STALE_JOB_MS = 2 * 60 * 1000;
+
+// Where condition matching jobs whose owner stopped, valid for every job model
+export interface StaleJobCondition {
+  OR: Array<{ heartbeatAt: { lt: Date } | null }>;
+}
+
+export function staleJobCondition(now: Date = new Date()): StaleJobCondition {
+  return {
+    OR: [{ heartbeatAt: { lt: new Date(now.getTime() - STALE_JOB_MS) } }, { heartbeatAt: null }],
+  };
+}
+
+/**
+ * Call `beat` every HEARTBEAT_INTERVAL_MS until the returned function is
+ * called. Failed beats are reported to `onError` and retried next time.
+ */
+export function startHeartbeat(
+  beat: () => Promise<unknown>,
+  onError: (error: unknown) => void,
+): () => void {
+  const timer = setInterval(() => {
+    beat().catch(onError);
+  }, HEARTBEAT_INTERVAL_MS);
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,52 @@
+/**
+ * LINKEDIN URL HELPERS
+ * ====================
+ * Normalization shared by contact matching and duplicate detection.
+ */
+
+const PROFILE_URL_PATTERNS = [
+  /linkedin\.com\/in\/([^/?#]+)/i,
+  /linkedin\.com\/sales\/lead\/([^/?#]+)/i,
+  /linkedin\.com\/sales\/people\/([^/?#]+)/i,
+];
+
+/**
+ * Normalize a LinkedIn profile URL to https://www.linkedin.com/in/<public id>.
+ * Unrecognized URLs are returned unchanged.
+ */
+export function normalizeLinkedInUrl(
+  profileUrl?: string | null,
+  publicId?: string | null,
+): string | null {
+  if (publicId) {
+    return `https://www.linkedin.com/in/${publicId}`;
+  }
+
+  if (!profileUrl) return null;
+
+  for (const pattern of PROFILE_URL_PATTERNS) {
+    const match = profileUrl.match(pattern);
+    if (match) {
+      return `https://www.linkedin.com/in/${match[1]}`;
+    }
+  }
+
+  return profileUrl;
+}
+
+/**
+ * Case-insensitive comparison key for a LinkedIn profile URL,
+ * e.g. "in/jane-doe". Returns null for non-profile URLs.
+ */
+export function linkedInProfileKey(profileUrl?: string | null): string | null {
+  if (!profileUrl) return null;
+
+  for (const pattern of PROFILE_URL_PATTERNS) {
+    const match = profileUrl.match(pattern);
+    if (match) {
+      return `in/${decodeURIComponent(match[1]).toLowerCase()}`;
+    }
+  }
+
+  return null;
+}
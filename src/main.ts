@@ -7,12 +7,28 @@
 
 import { NestFactory } from '@nestjs/core';
 import { ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import cookieParser from 'cookie-parser';
+import { json, Request } from 'express';
 import { AppModule } from './app.module';
 import { baseServiceConfig } from '../../shared';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody is needed to verify signed outreach webhooks
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, { rawBody: true });
+  // CSV imports are uploaded as text/csv bodies
+  app.useBodyParser('text', { type: 'text/csv', limit: '10mb' });
+  // Batch syncs carry up to 10000 connections, far over the default JSON limit.
+  // Wrapped so Nest still registers its own JSON parser for every other route
+  const batchSyncParser = json({
+    limit: '25mb',
+    verify: (req: Request & { rawBody?: Buffer }, _res, buffer) => {
+      req.rawBody = buffer;
+    },
+  });
+  app.use(`${baseServiceConfig.apiPrefix}/webhooks/outreach/batch-sync`, (req, res, next) =>
+    batchSyncParser(req, res, next),
+  );
 
   app.setGlobalPrefix(baseServiceConfig.apiPrefix);
   app.use(cookieParser());
@@ -0,0 +1,151 @@
+/**
+ * ACTIVITIES CONTROLLER
+ * =====================
+ * REST endpoints for activities and the daily task views,
+ * scoped to the caller's tenant.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ActivitiesService } from './activities.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  CreateActivitySchema,
+  ListActivitiesQuerySchema,
+  TaskQuerySchema,
+  UpdateActivitySchema,
+} from './dto/activity.dto';
+import type {
+  CreateActivityDto,
+  ListActivitiesQueryDto,
+  TaskQueryDto,
+  UpdateActivityDto,
+} from './dto/activity.dto';
+
+@Controller('activities')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ActivitiesController {
+  constructor(private readonly activitiesService: ActivitiesService) {}
+
+  /**
+   * GET /activities
+   *
+   * List activities with optional filters and cursor pagination.
+   */
+  @Get()
+  async list(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ListActivitiesQuerySchema)) query: ListActivitiesQueryDto,
+  ) {
+    return this.activitiesService.list(user, query);
+  }
+
+  /**
+   * GET /activities/tasks/overdue
+   */
+  @Get('tasks/overdue')
+  async listOverdueTasks(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(TaskQuerySchema)) query: TaskQueryDto,
+  ) {
+    return this.activitiesService.listOverdueTasks(user, query);
+  }
+
+  /**
+   * GET /activities/tasks/due-today
+   */
+  @Get('tasks/due-today')
+  async listTasksDueToday(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(TaskQuerySchema)) query: TaskQueryDto,
+  ) {
+    return this.activitiesService.listTasksDueToday(user, query);
+  }
+
+  /**
+   * GET /activities/tasks/completed-this-week
+   */
+  @Get('tasks/completed-this-week')
+  async listTasksCompletedThisWeek(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(TaskQuerySchema)) query: TaskQueryDto,
+  ) {
+    return this.activitiesService.listTasksCompletedThisWeek(user, query);
+  }
+
+  /**
+   * GET /activities/:id
+   */
+  @Get(':id')
+  async get(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.activitiesService.get(user, id);
+  }
+
+  /**
+   * POST /activities
+   */
+  @Post()
+  async create(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(CreateActivitySchema)) body: CreateActivityDto,
+  ) {
+    return this.activitiesService.create(user, body);
+  }
+
+  /**
+   * PATCH /activities/:id
+   */
+  @Patch(':id')
+  async update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(UpdateActivitySchema)) body: UpdateActivityDto,
+  ) {
+    return this.activitiesService.update(user, id, body);
+  }
+
+  /**
+   * POST /activities/:id/complete
+   *
+   * Mark a task (or any activity) as completed.
+   */
+  @Post(':id/complete')
+  @HttpCode(HttpStatus.OK)
+  async complete(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.activitiesService.complete(user, id);
+  }
+
+  /**
+   * DELETE /activities/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.activitiesService.remove(user, id);
+  }
+}
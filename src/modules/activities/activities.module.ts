@@ -1,3 +1,21 @@
+/**
+ * ACTIVITIES MODULE
+ * =================
+ * Activities and tasks REST API.
+ */
+
 import { Module } from '@nestjs/common';
-@Module({})
+import { AuthModule } from '../auth/auth.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { EventsModule } from '../events/events.module';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
+import { ActivitiesController } from './activities.controller';
+import { ActivitiesService } from './activities.service';
+
+@Module({
+  imports: [AuthModule, CustomFieldsModule, EventsModule, LeadScoringModule],
+  controllers: [ActivitiesController],
+  providers: [ActivitiesService],
+  exports: [ActivitiesService],
+})
 export class ActivitiesModule {}
@@ -0,0 +1,472 @@
+/**
+ * ACTIVITIES SERVICE
+ * ==================
+ * Tenant-scoped CRUD for activities (calls, emails, meetings, notes, tasks)
+ * and the daily task views built on dueDate/status/completedAt.
+ *
+ * Day and week boundaries are computed in the caller's timezone offset;
+ * weeks start on Monday. The task views show the tasks the caller owns and
+ * unowned ones (such as those the outreach sync writes), within the caller's
+ * workspaces. Admins, and managers for their team, can pass `ownerId` to
+ * see another user's tasks.
+ * Changes need edit rights on the activity (see OwnershipService).
+ * Writes publish activity.* events in the same transaction.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Activity, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import {
+  resolveWorkspaceId,
+  workspaceCondition,
+  workspaceSqlCondition,
+} from '../auth/workspace-scope';
+import { OwnershipService } from '../auth/ownership.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { CrmEventsService } from '../events/crm-events.service';
+import { CustomFieldValuesService } from '../custom-fields/custom-field-values.service';
+import {
+  cursorArgs,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import {
+  CreateActivityDto,
+  ListActivitiesQueryDto,
+  TaskQueryDto,
+  UpdateActivityDto,
+} from './dto/activity.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class ActivitiesService {
+  private readonly logger = new Logger(ActivitiesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly leadScoring: LeadScoringService,
+    private readonly events: CrmEventsService,
+    private readonly customFieldValues: CustomFieldValuesService,
+    private readonly ownership: OwnershipService,
+  ) {}
+
+  /**
+   * List activities, newest first or by a custom field, using cursor pagination.
+   */
+  async list(
+    user: AuthUser,
+    query: ListActivitiesQueryDto,
+  ): Promise<PaginatedResult<Activity>> {
+    if (query.sort) {
+      return this.customFieldValues.listSorted(
+        user.organizationId,
+        'ACTIVITY',
+        query.sort,
+        query,
+        await this.buildSqlConditions(user, query),
+        (ids) => this.prisma.activity.findMany({ where: { id: { in: ids } } }),
+      );
+    }
+
+    const where = await this.buildWhere(user, query);
+
+    const rows = await this.prisma.activity.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPaginatedResult(rows, query.limit);
+  }
+
+  /**
+   * Open tasks whose due date has passed, oldest first.
+   */
+  async listOverdueTasks(
+    user: AuthUser,
+    query: TaskQueryDto,
+  ): Promise<PaginatedResult<Activity>> {
+    return this.listTasks(
+      {
+        ...(await this.taskScope(user, query)),
+        status: 'PENDING',
+        dueDate: { lt: new Date() },
+      },
+      [{ dueDate: 'asc' }, { id: 'asc' }],
+      query,
+    );
+  }
+
+  /**
+   * Open tasks due today in the caller's timezone.
+   */
+  async listTasksDueToday(
+    user: AuthUser,
+    query: TaskQueryDto,
+  ): Promise<PaginatedResult<Activity>> {
+    const start = this.startOfDay(new Date(), query.tzOffset);
+
+    return this.listTasks(
+      {
+        ...(await this.taskScope(user, query)),
+        status: 'PENDING',
+        dueDate: { gte: start, lt: new Date(start.getTime() + DAY_MS) },
+      },
+      [{ dueDate: 'asc' }, { id: 'asc' }],
+      query,
+    );
+  }
+
+  /**
+   * Tasks completed since Monday in the caller's timezone.
+   */
+  async listTasksCompletedThisWeek(
+    user: AuthUser,
+    query: TaskQueryDto,
+  ): Promise<PaginatedResult<Activity>> {
+    return this.listTasks(
+      {
+        ...(await this.taskScope(user, query)),
+        status: 'COMPLETED',
+        completedAt: { gte: this.startOfWeek(new Date(), query.tzOffset) },
+      },
+      [{ completedAt: 'desc' }, { id: 'desc' }],
+      query,
+    );
+  }
+
+  /**
+   * Get a single activity.
+   */
+  async get(user: AuthUser, id: string): Promise<Activity> {
+    const activity = await this.prisma.activity.findFirst({
+      where: { id, organizationId: user.organizationId, ...workspaceCondition(user) },
+    });
+
+    if (!activity) {
+      throw new NotFoundException('Activity not found');
+    }
+
+    return activity;
+  }
+
+  /**
+   * Create an activity in the caller's organization.
+   */
+  async create(user: AuthUser, dto: CreateActivityDto): Promise<Activity> {
+    await this.assertLinksInTenant(user, dto);
+    const customFields = await this.customFieldValues.validateForCreate(
+      user.organizationId,
+      'ACTIVITY',
+      dto.customFields,
+    );
+    const ownerId = await this.ownership.resolveOwnerId(user, dto.ownerId);
+
+    const activity = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.activity.create({
+        data: {
+          ...this.toData({
+            ...dto,
+            customFields,
+            workspaceId: resolveWorkspaceId(user, dto.workspaceId),
+            ownerId,
+          }),
+          type: dto.type,
+          title: dto.title,
+          organizationId: user.organizationId,
+          completedAt: dto.status === 'COMPLETED' ? new Date() : null,
+        },
+      });
+
+      await this.events.emit(
+        { organizationId: user.organizationId, type: 'activity.created', data: created },
+        tx,
+      );
+      return created;
+    });
+
+    this.logger.log(`Created ${activity.type} activity ${activity.id}`);
+    this.leadScoring.recomputeInBackground(user.organizationId, [activity.contactId]);
+    return activity;
+  }
+
+  /**
+   * Update an activity. Changing the status keeps completedAt in step.
+   */
+  async update(
+    user: AuthUser,
+    id: string,
+    dto: UpdateActivityDto,
+  ): Promise<Activity> {
+    const existing = await this.get(user, id);
+    await this.ownership.assertCanEdit(user, existing);
+    await this.assertLinksInTenant(user, dto);
+    const customFields = await this.customFieldValues.validateForUpdate(
+      user.organizationId,
+      'ACTIVITY',
+      dto.customFields,
+      existing.customFields,
+    );
+
+    const data = this.toData({
+      ...dto,
+      customFields,
+      ...(dto.workspaceId !== undefined
+        ? { workspaceId: resolveWorkspaceId(user, dto.workspaceId) }
+        : {}),
+      ...(dto.ownerId !== undefined
+        ? { ownerId: await this.ownership.resolveOwnerId(user, dto.ownerId) }
+        : {}),
+    });
+    if (dto.status && dto.status !== existing.status) {
+      data.completedAt = dto.status === 'COMPLETED' ? new Date() : null;
+    }
+
+    const activity = await this.updateAndEmit(user, existing, data);
+
+    this.leadScoring.recomputeInBackground(user.organizationId, [
+      existing.contactId,
+      activity.contactId,
+    ]);
+    return activity;
+  }
+
+  /**
+   * Mark an activity as completed and stamp completedAt.
+   */
+  async complete(user: AuthUser, id: string): Promise<Activity> {
+    const existing = await this.get(user, id);
+    await this.ownership.assertCanEdit(user, existing);
+
+    if (existing.status === 'COMPLETED') {
+      throw new ConflictException('Activity is already completed');
+    }
+
+    const activity = await this.updateAndEmit(user, existing, {
+      status: 'COMPLETED',
+      completedAt: new Date(),
+    });
+
+    this.leadScoring.recomputeInBackground(user.organizationId, [activity.contactId]);
+    return activity;
+  }
+
+  /**
+   * Delete an activity.
+   */
+  async remove(user: AuthUser, id: string): Promise<void> {
+    const existing = await this.get(user, id);
+    await this.ownership.assertCanEdit(user, existing);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.activity.delete({ where: { id } });
+      await this.events.emit(
+        { organizationId: user.organizationId, type: 'activity.deleted', data: existing },
+        tx,
+      );
+    });
+
+    this.logger.log(`Deleted activity ${id}`);
+    this.leadScoring.recomputeInBackground(user.organizationId, [existing.contactId]);
+  }
+
+  private async updateAndEmit(
+    user: AuthUser,
+    existing: Activity,
+    data: Prisma.ActivityUncheckedUpdateInput,
+  ): Promise<Activity> {
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.activity.update({ where: { id: existing.id }, data });
+
+      await this.events.emit(
+        {
+          organizationId: user.organizationId,
+          type: 'activity.updated',
+          data: updated,
+          previous: existing,
+        },
+        tx,
+      );
+      return updated;
+    });
+  }
+
+  private async listTasks(
+    where: Prisma.ActivityWhereInput,
+    orderBy: Prisma.ActivityOrderByWithRelationInput[],
+    query: TaskQueryDto,
+  ): Promise<PaginatedResult<Activity>> {
+    const rows = await this.prisma.activity.findMany({
+      where,
+      orderBy,
+      ...cursorArgs(query),
+    });
+
+    return toPaginatedResult(rows, query.limit);
+  }
+
+  /**
+   * Base filter for the task views: the owner's tasks, the caller's by default.
+   */
+  private async taskScope(
+    user: AuthUser,
+    query: TaskQueryDto,
+  ): Promise<Prisma.ActivityWhereInput> {
+    const otherOwnerId = query.ownerId !== user.userId ? query.ownerId : undefined;
+    if (otherOwnerId && !(await this.ownership.canEdit(user, otherOwnerId))) {
+      throw new ForbiddenException("Cannot view this user's tasks");
+    }
+
+    return {
+      organizationId: user.organizationId,
+      type: 'TASK',
+      AND: [
+        workspaceCondition(user),
+        otherOwnerId
+          ? { ownerId: otherOwnerId }
+          : { OR: [{ ownerId: user.userId }, { ownerId: null }] },
+      ],
+    };
+  }
+
+  /**
+   * Midnight of the caller's local day, as a UTC instant.
+   */
+  private startOfDay(now: Date, tzOffsetMinutes: number): Date {
+    const offsetMs = tzOffsetMinutes * 60 * 1000;
+    const local = now.getTime() + offsetMs;
+    return new Date(local - (local % DAY_MS) - offsetMs);
+  }
+
+  /**
+   * Monday midnight of the caller's local week, as a UTC instant.
+   */
+  private startOfWeek(now: Date, tzOffsetMinutes: number): Date {
+    const startOfDay = this.startOfDay(now, tzOffsetMinutes);
+    const localDay = new Date(
+      startOfDay.getTime() + tzOffsetMinutes * 60 * 1000,
+    ).getUTCDay();
+    const daysSinceMonday = (localDay + 6) % 7;
+    return new Date(startOfDay.getTime() - daysSinceMonday * DAY_MS);
+  }
+
+  /**
+   * Make sure linked contact/company/deal belong to the caller's organization.
+   */
+  private async assertLinksInTenant(
+    user: AuthUser,
+    dto: UpdateActivityDto,
+  ): Promise<void> {
+    const { organizationId } = user;
+    const visible = workspaceCondition(user);
+
+    if (dto.contactId) {
+      const contact = await this.prisma.contact.findFirst({
+        where: { id: dto.contactId, organizationId, ...visible },
+        select: { id: true },
+      });
+      if (!contact) {
+        throw new BadRequestException('Contact not found');
+      }
+    }
+
+    if (dto.companyId) {
+      const company = await this.prisma.company.findFirst({
+        where: { id: dto.companyId, organizationId, ...visible },
+        select: { id: true },
+      });
+      if (!company) {
+        throw new BadRequestException('Company not found');
+      }
+    }
+
+    if (dto.dealId) {
+      const deal = await this.prisma.deal.findFirst({
+        where: { id: dto.dealId, organizationId, ...visible },
+        select: { id: true },
+      });
+      if (!deal) {
+        throw new BadRequestException('Deal not found');
+      }
+    }
+  }
+
+  /**
+   * Build the where clause for list queries. Also used by exports.
+   */
+  async buildWhere(
+    user: AuthUser,
+    query: Omit<ListActivitiesQueryDto, 'cursor' | 'limit' | 'sort'>,
+  ): Promise<Prisma.ActivityWhereInput> {
+    const where: Prisma.ActivityWhereInput = {
+      organizationId: user.organizationId,
+    };
+
+    if (query.type) where.type = query.type;
+    if (query.status) where.status = query.status;
+    if (query.contactId) where.contactId = query.contactId;
+    if (query.companyId) where.companyId = query.companyId;
+    if (query.dealId) where.dealId = query.dealId;
+    if (query.ownerId) where.ownerId = query.ownerId;
+
+    const customFieldFilters = await this.customFieldValues.buildFilters(
+      user.organizationId,
+      'ACTIVITY',
+      query.cf,
+    );
+    where.AND = [workspaceCondition(user), ...customFieldFilters];
+
+    return where;
+  }
+
+  /**
+   * buildWhere() as SQL conditions on crm.activities aliased `t`, for lists
+   * sorted by a custom field.
+   */
+  private async buildSqlConditions(
+    user: AuthUser,
+    query: ListActivitiesQueryDto,
+  ): Promise<Prisma.Sql[]> {
+    const conditions = [workspaceSqlCondition(user, 't')];
+
+    if (query.type) conditions.push(Prisma.sql`t.type = ${query.type}`);
+    if (query.status) conditions.push(Prisma.sql`t.status = ${query.status}`);
+    if (query.contactId) conditions.push(Prisma.sql`t.contact_id = ${query.contactId}::uuid`);
+    if (query.companyId) conditions.push(Prisma.sql`t.company_id = ${query.companyId}::uuid`);
+    if (query.dealId) conditions.push(Prisma.sql`t.deal_id = ${query.dealId}::uuid`);
+    if (query.ownerId) conditions.push(Prisma.sql`t.owner_id = ${query.ownerId}::uuid`);
+
+    const customFieldFilters = await this.customFieldValues.buildSqlFilters(
+      user.organizationId,
+      'ACTIVITY',
+      query.cf,
+      't',
+    );
+    return [...conditions, ...customFieldFilters];
+  }
+
+  /**
+   * Map a validated DTO to Prisma data.
+   */
+  private toData(
+    dto: UpdateActivityDto,
+  ): Partial<Omit<Prisma.ActivityUncheckedCreateInput, 'organizationId'>> {
+    const { customFields, ...rest } = dto;
+
+    return {
+      ...rest,
+      ...(customFields !== undefined
+        ? { customFields: customFields ?? Prisma.DbNull }
+        : {}),
+    };
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * ACTIVITY DTOs
+ * =============
+ * Request schemas for the activities and tasks REST API.
+ */
+
+import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+import { CustomFieldListQuerySchema } from '../../custom-fields/dto/custom-field.dto';
+
+export const ACTIVITY_TYPES = ['CALL', 'EMAIL', 'MEETING', 'NOTE', 'TASK'] as const;
+export const ACTIVITY_STATUSES = ['PENDING', 'COMPLETED', 'CANCELLED'] as const;
+
+// Create activity request
+export const CreateActivitySchema = z.object({
+  workspaceId: z.string().uuid().nullable().optional(),
+  // Defaults to the caller; see OwnershipService for who can be assigned
+  ownerId: z.string().uuid().nullable().optional(),
+  type: z.enum(ACTIVITY_TYPES),
+  title: z.string().trim().min(1, 'Activity title is required').max(255),
+  description: z.string().max(10000).nullable().optional(),
+  status: z.enum(ACTIVITY_STATUSES).optional(),
+  dueDate: z.coerce.date().nullable().optional(),
+  contactId: z.string().uuid().nullable().optional(),
+  companyId: z.string().uuid().nullable().optional(),
+  dealId: z.string().uuid().nullable().optional(),
+  customFields: z.record(z.any()).nullable().optional(),
+});
+
+export type CreateActivityDto = z.infer<typeof CreateActivitySchema>;
+
+// Update activity request - every field optional
+export const UpdateActivitySchema = CreateActivitySchema.partial();
+
+export type UpdateActivityDto = z.infer<typeof UpdateActivitySchema>;
+
+// List activities query
+export const ListActivitiesQuerySchema = CursorPaginationSchema.extend({
+  type: z.enum(ACTIVITY_TYPES).optional(),
+  status: z.enum(ACTIVITY_STATUSES).optional(),
+  contactId: z.string().uuid().optional(),
+  companyId: z.string().uuid().optional(),
+  dealId: z.string().uuid().optional(),
+  ownerId: z.string().uuid().optional(),
+}).merge(CustomFieldListQuerySchema);
+
+export type ListActivitiesQueryDto = z.infer<typeof ListActivitiesQuerySchema>;
+
+// Task list queries (overdue, due today, completed this week)
+export const TaskQuerySchema = CursorPaginationSchema.extend({
+  // Caller's UTC offset in minutes (e.g. 120 for UTC+2), used for day/week boundaries
+  tzOffset: z.coerce.number().int().min(-840).max(840).default(0),
+  // Whose tasks to show (admins, or managers for their team); defaults to the
+  // caller's plus unowned ones, such as tasks written by the outreach sync
+  ownerId: z.string().uuid().optional(),
+});
+
+export type TaskQueryDto = z.infer<typeof TaskQuerySchema>;
@@ -0,0 +1,53 @@
+/**
+ * AUTH COOKIES
+ * ============
+ * httpOnly cookies for clients that opt out of handling tokens in JS.
+ *
+ * - The access token cookie is sent on every API request
+ * - The refresh token cookie is only sent to the auth endpoints
+ * - SameSite=Lax keeps cross-site form posts from carrying them
+ */
+
+import { CookieOptions, Response } from 'express';
+import { baseServiceConfig } from '../../../../shared';
+
+export const ACCESS_TOKEN_COOKIE = 'crm_access_token';
+export const REFRESH_TOKEN_COOKIE = 'crm_refresh_token';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+export function setAuthCookies(
+  response: Response,
+  tokens: AuthTokens,
+  maxAgeSeconds: { access: number; refresh: number },
+): void {
+  response.cookie(ACCESS_TOKEN_COOKIE, tokens.accessToken, {
+    ...cookieOptions('/'),
+    maxAge: maxAgeSeconds.access * 1000,
+  });
+  response.cookie(REFRESH_TOKEN_COOKIE, tokens.refreshToken, {
+    ...cookieOptions(authPath()),
+    maxAge: maxAgeSeconds.refresh * 1000,
+  });
+}
+
+export function clearAuthCookies(response: Response): void {
+  response.clearCookie(ACCESS_TOKEN_COOKIE, cookieOptions('/'));
+  response.clearCookie(REFRESH_TOKEN_COOKIE, cookieOptions(authPath()));
+}
+
+function cookieOptions(path: string): CookieOptions {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    path,
+  };
+}
+
+function authPath(): string {
+  return `/${baseServiceConfig.apiPrefix}/auth`.replace(/\/{2,}/g, '/');
+}
@@ -2,6 +2,8 @@
  * AUTH CONTROLLER
  * ===============
  * Handles authentication endpoints for GenCRM service.
+ * Tokens are returned in the body, or set as httpOnly cookies for
+ * clients that log in with `cookies: true` (see auth-cookies.ts).
  */
 
 import {
@@ -11,12 +13,24 @@ import {
   HttpCode,
   HttpStatus,
   BadRequestException,
+  UnauthorizedException,
+  Req,
+  Res,
+  UseGuards,
 } from '@nestjs/common';
-import { AuthService } from './auth.service';
+import type { Request, Response } from 'express';
+import { AuthService, TOKEN_TTL_SECONDS } from './auth.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { CurrentUser } from './decorators/current-user.decorator';
+import type { AuthUser } from './interfaces/auth-user.interface';
+import { clearAuthCookies, REFRESH_TOKEN_COOKIE, setAuthCookies } from './auth-cookies';
+import type { AuthTokens } from './auth-cookies';
 import {
   TenantLoginSchema,
   TenantLoginResponseDto,
+  CookieLoginResponseDto,
   RefreshTokenSchema,
+  RefreshTokenResponseDto,
 } from './dto/tenant-login.dto';
 
 @Controller('auth')
@@ -26,38 +40,120 @@ export class AuthController {
   /**
    * Tenant Login
    * ------------
-   * Authenticates a user based on their tenant ID from the outreach system.
+   * Authenticates a user with the identity token the outreach system signed.
    * This allows users who are already authenticated in outreach to get CRM tokens.
    *
-   * @param body - Contains the tenant ID (organization ID) from outreach
+   * @param body - Contains the outreach identity token and optional workspace
    * @returns Access token, refresh token, and user info
    */
   @Post('tenant-login')
   @HttpCode(HttpStatus.OK)
-  async tenantLogin(@Body() body: unknown): Promise<TenantLoginResponseDto> {
+  async tenantLogin(
+    @Body() body: unknown,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<TenantLoginResponseDto | CookieLoginResponseDto> {
     // Validate request body with Zod
     const result = TenantLoginSchema.safeParse(body);
     if (!result.success) {
       throw new BadRequestException(result.error.errors[0]?.message || 'Invalid request');
     }
 
-    return this.authService.tenantLogin(result.data);
+    const login = await this.authService.tenantLogin(result.data);
+    if (!result.data.cookies) {
+      return login;
+    }
+
+    const { accessToken, refreshToken, ...rest } = login;
+    setAuthCookies(response, { accessToken, refreshToken }, TOKEN_TTL_SECONDS);
+    return rest;
   }
 
   /**
    * Refresh Token
    * -------------
-   * Refreshes an access token using a valid refresh token.
+   * Rotates a refresh token into a new access/refresh pair. The old
+   * refresh token stops working; presenting it again ends the session.
    */
   @Post('refresh')
   @HttpCode(HttpStatus.OK)
-  async refreshToken(@Body() body: unknown): Promise<{ accessToken: string }> {
+  async refreshToken(
+    @Body() body: unknown,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<RefreshTokenResponseDto> {
+    const bodyToken = this.parseRefreshToken(body);
+    const refreshToken = bodyToken ?? this.cookieToken(request);
+    if (!refreshToken) {
+      throw new UnauthorizedException('Refresh token is required');
+    }
+
+    let tokens: AuthTokens;
+    try {
+      tokens = await this.authService.refreshTokens(refreshToken);
+    } catch (error) {
+      if (!bodyToken) {
+        clearAuthCookies(response);
+      }
+      throw error;
+    }
+
+    if (bodyToken) {
+      return { ...tokens, expiresIn: TOKEN_TTL_SECONDS.access };
+    }
+
+    setAuthCookies(response, tokens, TOKEN_TTL_SECONDS);
+    return { expiresIn: TOKEN_TTL_SECONDS.access };
+  }
+
+  /**
+   * Logout
+   * ------
+   * Ends the session of a refresh token (body or cookie) and clears the
+   * auth cookies.
+   */
+  @Post('logout')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async logout(
+    @Body() body: unknown,
+    @Req() request: Request,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<void> {
+    const refreshToken = this.parseRefreshToken(body) ?? this.cookieToken(request);
+    if (refreshToken) {
+      await this.authService.logout(refreshToken);
+    }
+
+    clearAuthCookies(response);
+  }
+
+  /**
+   * Logout All
+   * ----------
+   * Ends every session of the current user, on all devices.
+   */
+  @Post('logout-all')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(JwtAuthGuard)
+  async logoutAll(
+    @CurrentUser() user: AuthUser,
+    @Res({ passthrough: true }) response: Response,
+  ): Promise<void> {
+    await this.authService.logoutAll(user);
+    clearAuthCookies(response);
+  }
+
+  private parseRefreshToken(body: unknown): string | undefined {
     // Validate request body with Zod
-    const result = RefreshTokenSchema.safeParse(body);
+    const result = RefreshTokenSchema.safeParse(body ?? {});
     if (!result.success) {
       throw new BadRequestException(result.error.errors[0]?.message || 'Invalid request');
     }
 
-    return this.authService.refreshAccessToken(result.data.refreshToken);
+    return result.data.refreshToken;
+  }
+
+  private cookieToken(request: Request): string | undefined {
+    const token: unknown = request.cookies?.[REFRESH_TOKEN_COOKIE];
+    return typeof token === 'string' && token ? token : undefined;
   }
 }
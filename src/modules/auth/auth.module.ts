@@ -2,16 +2,22 @@
  * AUTH MODULE
  * ===========
  * Authentication module for GenCRM service.
- * Provides tenant-based authentication for users from outreach system.
+ * Provides tenant-based authentication for users from outreach system,
+ * verified with outreach's identity tokens, plus role and record
+ * ownership checks for the CRM controllers.
  */
 
 import { Module } from '@nestjs/common';
 import { AuthController } from './auth.controller';
 import { AuthService } from './auth.service';
+import { OutreachIdentityService } from './outreach-identity.service';
+import { OwnershipService } from './ownership.service';
+import { JwtAuthGuard } from './guards/jwt-auth.guard';
+import { RolesGuard } from './guards/roles.guard';
 
 @Module({
   controllers: [AuthController],
-  providers: [AuthService],
-  exports: [AuthService],
+  providers: [AuthService, OutreachIdentityService, OwnershipService, JwtAuthGuard, RolesGuard],
+  exports: [AuthService, OwnershipService, JwtAuthGuard, RolesGuard],
 })
 export class AuthModule {}
@@ -2,30 +2,66 @@
  * AUTH SERVICE
  * ============
  * Handles authentication for GenCRM service.
- * Provides tenant-based login for users authenticated in outreach.
+ * Users authenticated in outreach log in with an identity token outreach
+ * signed for them; the CRM user is created or refreshed from its claims.
+ * Tokens carry the user's role and team (see roles.ts) and workspaces
+ * (see workspace-scope.ts). Roles and teams are managed in the CRM. Users
+ * start as reps; an outreach org admin (the `org_admin` claim) logging in
+ * while the organization has no CRM admin becomes one.
+ *
+ * Refresh tokens are single use. Each login starts a session family;
+ * refreshing rotates the token into a new session of that family, and
+ * presenting an already-rotated token revokes the whole family, since
+ * either the client or an attacker holds a stolen copy.
  */
 
-import { Injectable, UnauthorizedException } from '@nestjs/common';
-import jwt, { SignOptions } from 'jsonwebtoken';
+import {
+  ForbiddenException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import jwt, { SignOptions, VerifyOptions } from 'jsonwebtoken';
+import { PrismaService } from '../../prisma/prisma.service';
 import { TenantLoginDto, TenantLoginResponseDto } from './dto/tenant-login.dto';
+import { OutreachIdentityService } from './outreach-identity.service';
+import { AuthUser } from './interfaces/auth-user.interface';
+import { AuthTokens } from './auth-cookies';
+import { Role } from './roles';
 import { baseServiceConfig } from '../../../../shared';
 
-interface JwtPayload {
+export const TOKEN_TTL_SECONDS = {
+  access: 15 * 60,
+  refresh: 30 * 24 * 60 * 60,
+};
+
+export interface JwtPayload {
   sub: string;
   tenant_id: string;
+  role?: Role;
   team_id?: string;
+  workspace_id?: string;
+  workspace_ids?: string[];
+  org_wide?: boolean;
   type: 'access' | 'refresh';
+  jti?: string; // refresh session id
   iat: number;
   exp: number;
 }
 
+type TokenClaims = Omit<JwtPayload, 'type' | 'jti' | 'iat' | 'exp'>;
+
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
   private readonly jwtSecret: string;
-  private readonly accessTokenExpiry = '7d'; // 7 days
-  private readonly refreshTokenExpiry = '30d'; // 30 days
 
-  constructor() {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly outreachIdentity: OutreachIdentityService,
+  ) {
     this.jwtSecret = baseServiceConfig.jwtSecret || process.env.AUTH_JWT_SECRET || '';
     if (!this.jwtSecret) {
       console.warn('AUTH_JWT_SECRET not configured - authentication will fail');
@@ -33,45 +69,82 @@ export class AuthService {
   }
 
   /**
-   * Authenticate user based on tenant ID from outreach system.
-   * This endpoint trusts that the frontend has already validated the user
-   * through the main outreach authentication system.
+   * Exchange an outreach identity token for CRM tokens.
+   * The tenant, user and workspaces all come from the verified token.
    */
   async tenantLogin(dto: TenantLoginDto): Promise<TenantLoginResponseDto> {
-    const { tenantId } = dto;
-
-    if (!tenantId) {
-      throw new UnauthorizedException('Tenant ID is required');
-    }
-
     if (!this.jwtSecret) {
       throw new UnauthorizedException('Authentication not configured');
     }
 
-    // Generate a unique user ID for this tenant session
-    // In a full implementation, you might look up the user in a CRM users table
-    const userId = `crm-user-${tenantId}`;
+    const identity = this.outreachIdentity.verify(dto.identityToken);
+    const tenantId = identity.tenant_id;
+    const orgWide = identity.org_wide;
+    const workspaceIds = identity.workspace_ids;
 
-    // Generate access token
-    const accessToken = this.generateToken({
-      sub: userId,
-      tenant_id: tenantId,
-      type: 'access',
-    }, this.accessTokenExpiry);
+    const workspaceId = dto.workspaceId ?? identity.workspace_id;
+    if (workspaceId && !orgWide && !workspaceIds.includes(workspaceId)) {
+      throw new ForbiddenException('Not a member of this workspace');
+    }
 
-    // Generate refresh token
-    const refreshToken = this.generateToken({
-      sub: userId,
-      tenant_id: tenantId,
-      type: 'refresh',
-    }, this.refreshTokenExpiry);
+    const profile = {
+      email: identity.email?.toLowerCase() ?? null,
+      name: identity.name ?? null,
+      workspaceIds,
+      orgWide,
+      lastLoginAt: new Date(),
+    };
+    const user = await this.prisma.$transaction(async (tx) => {
+      const makeAdmin = identity.org_admin && (await this.lacksAdmin(tx, tenantId));
+
+      return tx.user.upsert({
+        where: {
+          organizationId_outreachUserId: {
+            organizationId: tenantId,
+            outreachUserId: identity.sub,
+          },
+        },
+        create: {
+          ...profile,
+          organizationId: tenantId,
+          outreachUserId: identity.sub,
+          role: makeAdmin ? 'ADMIN' : 'REP',
+        },
+        update: { ...profile, ...(makeAdmin ? { role: 'ADMIN' } : {}) },
+      });
+    });
+
+    // Sessions past their expiry can't be used any more
+    await this.prisma.refreshSession.deleteMany({
+      where: { userId: user.id, expiresAt: { lt: new Date() } },
+    });
+
+    const tokens = await this.issueTokens(
+      {
+        sub: user.id,
+        tenant_id: tenantId,
+        role: user.role as Role,
+        team_id: user.teamId ?? undefined,
+        workspace_id: workspaceId,
+        workspace_ids: workspaceIds,
+        org_wide: orgWide,
+      },
+      randomUUID(),
+    );
 
     return {
-      accessToken,
-      refreshToken,
+      ...tokens,
+      expiresIn: TOKEN_TTL_SECONDS.access,
       user: {
-        id: userId,
+        id: user.id,
         tenantId,
+        email: user.email,
+        name: user.name,
+        role: user.role as Role,
+        teamId: user.teamId,
+        workspaceId,
+        workspaceIds,
+        orgWide,
       },
     };
   }
@@ -79,32 +152,155 @@ export class AuthService {
   /**
    * Verify a JWT token and return the payload.
    */
-  verifyToken(token: string): JwtPayload {
+  verifyToken(token: string, options: VerifyOptions = {}): JwtPayload {
     try {
-      return jwt.verify(token, this.jwtSecret) as JwtPayload;
+      return jwt.verify(token, this.jwtSecret, options) as JwtPayload;
     } catch (error) {
       throw new UnauthorizedException('Invalid or expired token');
     }
   }
 
   /**
-   * Refresh access token using a valid refresh token.
+   * Rotate a refresh token: the presented one is used up and a new
+   * access/refresh pair is issued in the same session family. Role, team
+   * and workspaces are reloaded, so changes apply from the next refresh.
    */
-  async refreshAccessToken(refreshToken: string): Promise<{ accessToken: string }> {
-    const payload = this.verifyToken(refreshToken);
+  async refreshTokens(refreshToken: string): Promise<AuthTokens> {
+    const payload = this.verifyRefreshToken(refreshToken);
 
-    if (payload.type !== 'refresh') {
+    const session = await this.prisma.refreshSession.findUnique({
+      where: { id: payload.jti },
+    });
+    if (!session || session.revokedAt) {
       throw new UnauthorizedException('Invalid refresh token');
     }
 
-    const accessToken = this.generateToken({
-      sub: payload.sub,
-      tenant_id: payload.tenant_id,
-      team_id: payload.team_id,
-      type: 'access',
-    }, this.accessTokenExpiry);
+    // Claim the session so each refresh token is rotated only once
+    const rotated = await this.prisma.refreshSession.updateMany({
+      where: { id: session.id, rotatedAt: null, revokedAt: null },
+      data: { rotatedAt: new Date() },
+    });
+    if (rotated.count === 0) {
+      await this.revokeFamily(session.familyId);
+      this.logger.warn(
+        `Refresh token reused for user ${session.userId}; revoked session family ${session.familyId}`,
+      );
+      throw new UnauthorizedException('Refresh token was already used; please log in again');
+    }
+
+    const user = await this.prisma.user.findUnique({ where: { id: session.userId } });
+    if (!user) {
+      await this.revokeFamily(session.familyId);
+      throw new UnauthorizedException('User no longer exists');
+    }
+
+    const workspaceId =
+      payload.workspace_id && (user.orgWide || user.workspaceIds.includes(payload.workspace_id))
+        ? payload.workspace_id
+        : undefined;
+
+    return this.issueTokens(
+      {
+        sub: user.id,
+        tenant_id: user.organizationId,
+        role: user.role as Role,
+        team_id: user.teamId ?? undefined,
+        workspace_id: workspaceId,
+        workspace_ids: user.workspaceIds,
+        org_wide: user.orgWide,
+      },
+      session.familyId,
+    );
+  }
+
+  /**
+   * End the session family of a refresh token. Expired and already
+   * rotated tokens still log out; unknown tokens are ignored.
+   */
+  async logout(refreshToken: string): Promise<void> {
+    let payload: JwtPayload & { jti: string };
+    try {
+      payload = this.verifyRefreshToken(refreshToken, { ignoreExpiration: true });
+    } catch {
+      return;
+    }
+
+    const session = await this.prisma.refreshSession.findUnique({
+      where: { id: payload.jti },
+      select: { familyId: true },
+    });
+    if (session) {
+      await this.revokeFamily(session.familyId);
+    }
+  }
+
+  /**
+   * End every session of the user. Access tokens already issued stay
+   * valid until they expire.
+   */
+  async logoutAll(user: AuthUser): Promise<void> {
+    const { count } = await this.prisma.refreshSession.updateMany({
+      where: { userId: user.userId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    this.logger.log(`Revoked ${count} sessions of user ${user.userId}`);
+  }
+
+  private verifyRefreshToken(
+    token: string,
+    options: VerifyOptions = {},
+  ): JwtPayload & { jti: string } {
+    const payload = this.verifyToken(token, options);
+
+    if (payload.type !== 'refresh' || !payload.jti) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    return payload as JwtPayload & { jti: string };
+  }
+
+  /**
+   * Persist a new refresh session and sign the token pair for it.
+   */
+  private async issueTokens(claims: TokenClaims, familyId: string): Promise<AuthTokens> {
+    const session = await this.prisma.refreshSession.create({
+      data: {
+        familyId,
+        userId: claims.sub,
+        organizationId: claims.tenant_id,
+        expiresAt: new Date(Date.now() + TOKEN_TTL_SECONDS.refresh * 1000),
+      },
+    });
+
+    return {
+      accessToken: this.generateToken(
+        { ...claims, type: 'access' },
+        TOKEN_TTL_SECONDS.access,
+      ),
+      refreshToken: this.generateToken(
+        { ...claims, type: 'refresh', jti: session.id },
+        TOKEN_TTL_SECONDS.refresh,
+      ),
+    };
+  }
+
+  /**
+   * Whether the organization has no admin yet. Holds a per-organization
+   * lock until the transaction ends, so concurrent logins can't both
+   * bootstrap one.
+   */
+  private async lacksAdmin(tx: Prisma.TransactionClient, organizationId: string): Promise<boolean> {
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${organizationId}))`;
+    const admins = await tx.user.count({ where: { organizationId, role: 'ADMIN' } });
+    return admins === 0;
+  }
 
-    return { accessToken };
+  private async revokeFamily(familyId: string): Promise<void> {
+    await this.prisma.refreshSession.updateMany({
+      where: { familyId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
   }
 
   /**
@@ -112,9 +308,9 @@ export class AuthService {
    */
   private generateToken(
     payload: Omit<JwtPayload, 'iat' | 'exp'>,
-    expiresIn: string,
+    expiresInSeconds: number,
   ): string {
-    const options: SignOptions = { expiresIn: expiresIn as jwt.SignOptions['expiresIn'] };
+    const options: SignOptions = { expiresIn: expiresInSeconds };
     return jwt.sign(payload as object, this.jwtSecret, options);
   }
 }
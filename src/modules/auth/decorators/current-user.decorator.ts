@@ -0,0 +1,24 @@
+/**
+ * CURRENT USER DECORATOR
+ * ======================
+ * Injects the AuthUser attached by JwtAuthGuard.
+ */
+
+import {
+  createParamDecorator,
+  ExecutionContext,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { AuthenticatedRequest } from '../guards/jwt-auth.guard';
+import { AuthUser } from '../interfaces/auth-user.interface';
+
+export const CurrentUser = createParamDecorator(
+  (_data: unknown, context: ExecutionContext): AuthUser => {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!request.authUser) {
+      throw new UnauthorizedException('Not authenticated');
+    }
+
+    return request.authUser;
+  },
+);
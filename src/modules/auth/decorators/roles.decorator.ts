@@ -0,0 +1,12 @@
+/**
+ * ROLES DECORATOR
+ * ===============
+ * Limits a controller or route to the given roles (see RolesGuard).
+ */
+
+import { SetMetadata } from '@nestjs/common';
+import { Role } from '../roles';
+
+export const ROLES_KEY = 'roles';
+
+export const Roles = (...roles: Role[]) => SetMetadata(ROLES_KEY, roles);
@@ -2,14 +2,21 @@
  * TENANT LOGIN DTO
  * ================
  * Data transfer object for tenant-based authentication.
- * Allows users authenticated in outreach to get CRM tokens.
+ * Users authenticated in outreach exchange the identity token outreach
+ * signed for them for CRM tokens. With `cookies: true` the tokens are set
+ * as httpOnly cookies instead of being returned.
  */
 
 import { z } from 'zod';
+import { Role } from '../roles';
 
 // Request schema
 export const TenantLoginSchema = z.object({
-  tenantId: z.string().min(1, 'Tenant ID is required'),
+  // Identity token signed by outreach (see OutreachIdentityService)
+  identityToken: z.string().min(1, 'Identity token is required'),
+  // Workspace to work in; defaults to the one named in the identity token
+  workspaceId: z.string().uuid().optional(),
+  cookies: z.boolean().default(false),
 });
 
 export type TenantLoginDto = z.infer<typeof TenantLoginSchema>;
@@ -18,16 +25,34 @@ export type TenantLoginDto = z.infer<typeof TenantLoginSchema>;
 export interface TenantLoginResponseDto {
   accessToken: string;
   refreshToken: string;
+  // Access token lifetime in seconds
+  expiresIn: number;
   user: {
     id: string;
     tenantId: string;
+    email: string | null;
+    name: string | null;
+    role: Role;
+    teamId: string | null;
     workspaceId?: string;
+    workspaceIds: string[];
+    orgWide: boolean;
   };
 }
 
-// Refresh token request
+// Cookie login response: the tokens are only in the cookies
+export type CookieLoginResponseDto = Omit<TenantLoginResponseDto, 'accessToken' | 'refreshToken'>;
+
+// Refresh and logout request; without a body token the refresh token cookie is used
 export const RefreshTokenSchema = z.object({
-  refreshToken: z.string().min(1, 'Refresh token is required'),
+  refreshToken: z.string().min(1, 'Refresh token is required').optional(),
 });
 
 export type RefreshTokenDto = z.infer<typeof RefreshTokenSchema>;
+
+export interface RefreshTokenResponseDto {
+  // Omitted when the refresh token came from a cookie; new cookies are set instead
+  accessToken?: string;
+  refreshToken?: string;
+  expiresIn: number;
+}
@@ -0,0 +1,65 @@
+/**
+ * JWT AUTH GUARD
+ * ==============
+ * Verifies the access token issued by AuthService (bearer header, else
+ * the access token cookie) and attaches the caller to the request for
+ * the @CurrentUser() decorator.
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import { AuthService } from '../auth.service';
+import { AuthUser } from '../interfaces/auth-user.interface';
+import { ACCESS_TOKEN_COOKIE } from '../auth-cookies';
+import { isRole } from '../roles';
+
+export interface AuthenticatedRequest extends Request {
+  authUser?: AuthUser;
+}
+
+@Injectable()
+export class JwtAuthGuard implements CanActivate {
+  constructor(private readonly authService: AuthService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    const token = this.extractToken(request);
+
+    if (!token) {
+      throw new UnauthorizedException('Access token is required');
+    }
+
+    const payload = this.authService.verifyToken(token);
+    if (payload.type !== 'access') {
+      throw new UnauthorizedException('Invalid access token');
+    }
+
+    request.authUser = {
+      userId: payload.sub,
+      organizationId: payload.tenant_id,
+      // Tokens issued before roles existed get the least privilege
+      role: isRole(payload.role) ? payload.role : 'READ_ONLY',
+      teamId: payload.team_id,
+      workspaceId: payload.workspace_id,
+      workspaceIds: payload.workspace_ids ?? [],
+      orgWide: payload.org_wide ?? false,
+    };
+
+    return true;
+  }
+
+  private extractToken(request: Request): string | null {
+    const [scheme, token] = (request.headers.authorization || '').split(' ');
+    if (scheme?.toLowerCase() === 'bearer' && token) {
+      return token;
+    }
+
+    const cookie: unknown = request.cookies?.[ACCESS_TOKEN_COOKIE];
+    return typeof cookie === 'string' && cookie ? cookie : null;
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * ROLES GUARD
+ * ===========
+ * Checks the caller's role; runs after JwtAuthGuard.
+ *
+ * Routes marked with @Roles() allow only those roles. Unmarked routes
+ * allow every role to read (GET/HEAD) and every role but READ_ONLY to
+ * write. Record ownership is checked by the services (OwnershipService).
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ROLES_KEY } from '../decorators/roles.decorator';
+import { Role, WRITE_ROLES } from '../roles';
+import { AuthenticatedRequest } from './jwt-auth.guard';
+
+const READ_METHODS = ['GET', 'HEAD'];
+
+@Injectable()
+export class RolesGuard implements CanActivate {
+  constructor(private readonly reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<AuthenticatedRequest>();
+    if (!request.authUser) {
+      throw new UnauthorizedException('Not authenticated');
+    }
+
+    const allowed = this.reflector.getAllAndOverride<Role[] | undefined>(ROLES_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    const { role } = request.authUser;
+
+    if (allowed) {
+      if (!allowed.includes(role)) {
+        throw new ForbiddenException(`Requires role ${allowed.join(' or ')}`);
+      }
+      return true;
+    }
+
+    if (!READ_METHODS.includes(request.method) && !WRITE_ROLES.includes(role)) {
+      throw new ForbiddenException('Read-only users cannot make changes');
+    }
+
+    return true;
+  }
+}
@@ -6,5 +6,15 @@
 
 export * from './auth.module';
 export * from './auth.service';
+export * from './outreach-identity.service';
 export * from './auth.controller';
+export * from './auth-cookies';
 export * from './dto/tenant-login.dto';
+export * from './ownership.service';
+export * from './guards/jwt-auth.guard';
+export * from './guards/roles.guard';
+export * from './decorators/current-user.decorator';
+export * from './decorators/roles.decorator';
+export * from './interfaces/auth-user.interface';
+export * from './roles';
+export * from './workspace-scope';
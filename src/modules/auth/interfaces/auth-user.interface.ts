@@ -0,0 +1,21 @@
+/**
+ * AUTH USER
+ * =========
+ * The authenticated caller, resolved from a verified access token.
+ * Services receive this instead of raw JWT claims.
+ */
+
+import { Role } from '../roles';
+
+export interface AuthUser {
+  userId: string;
+  organizationId: string;
+  role: Role;
+  teamId?: string;
+  // Active workspace; new records are created there
+  workspaceId?: string;
+  // Member workspaces, whose records the caller can see
+  workspaceIds: string[];
+  // Org-wide role: every workspace is visible
+  orgWide: boolean;
+}
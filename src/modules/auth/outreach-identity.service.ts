@@ -0,0 +1,121 @@
+/**
+ * OUTREACH IDENTITY SERVICE
+ * =========================
+ * Verifies the identity token the outreach system signs for a logged-in
+ * user, so CRM tokens are only issued to users outreach vouches for.
+ *
+ * - Asymmetric signatures only (RS*, PS*, ES*); the CRM never holds the
+ *   signing key
+ * - Tokens must expire; iss/aud are checked when configured
+ * - With a JWKS file the key is picked by the token's `kid`
+ *
+ * Configuration:
+ * - OUTREACH_AUTH_PUBLIC_KEY: PEM public key ("\n" escapes allowed)
+ * - OUTREACH_AUTH_JWKS_FILE: path to a JWKS file, used instead of the PEM key
+ * - OUTREACH_AUTH_ISSUER / OUTREACH_AUTH_AUDIENCE: expected iss / aud
+ *
+ * With no key configured every login is rejected.
+ */
+
+import { Injectable, Logger, UnauthorizedException } from '@nestjs/common';
+import { createPublicKey, JsonWebKey, KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
+import jwt, { Algorithm, VerifyOptions } from 'jsonwebtoken';
+import { z } from 'zod';
+
+const ALGORITHMS: Algorithm[] = [
+  'RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512',
+];
+
+// Claims outreach puts in the identity token
+const OutreachIdentitySchema = z.object({
+  sub: z.string().min(1),
+  tenant_id: z.string().uuid(),
+  email: z.string().email().optional(),
+  name: z.string().max(200).optional(),
+  workspace_id: z.string().uuid().optional(),
+  workspace_ids: z.array(z.string().uuid()).max(500).default([]),
+  org_wide: z.boolean().default(false),
+  // Outreach organization admin; becomes the CRM admin while there is none
+  org_admin: z.boolean().default(false),
+  exp: z.number(),
+});
+
+export type OutreachIdentity = z.infer<typeof OutreachIdentitySchema>;
+
+@Injectable()
+export class OutreachIdentityService {
+  private readonly logger = new Logger(OutreachIdentityService.name);
+  private readonly publicKey: KeyObject | null = null;
+  private readonly keysById = new Map<string, KeyObject>();
+  private readonly options: VerifyOptions;
+
+  constructor() {
+    const jwksFile = process.env.OUTREACH_AUTH_JWKS_FILE;
+    const pem = process.env.OUTREACH_AUTH_PUBLIC_KEY;
+
+    try {
+      if (jwksFile) {
+        this.loadJwks(jwksFile);
+      } else if (pem) {
+        this.publicKey = createPublicKey(pem.replace(/\\n/g, '\n'));
+      }
+    } catch (error) {
+      this.logger.error(`Failed to load the outreach identity key: ${error}`);
+    }
+
+    this.options = {
+      algorithms: ALGORITHMS,
+      ...(process.env.OUTREACH_AUTH_ISSUER ? { issuer: process.env.OUTREACH_AUTH_ISSUER } : {}),
+      ...(process.env.OUTREACH_AUTH_AUDIENCE
+        ? { audience: process.env.OUTREACH_AUTH_AUDIENCE }
+        : {}),
+    };
+
+    if (!this.publicKey && this.keysById.size === 0) {
+      this.logger.error('No outreach identity key configured - all logins will be rejected');
+    }
+  }
+
+  /**
+   * Verify an outreach identity token and return its claims.
+   */
+  verify(token: string): OutreachIdentity {
+    const decoded = jwt.decode(token, { complete: true });
+    const key = decoded ? this.findKey(decoded.header.kid) : null;
+    if (!key) {
+      throw new UnauthorizedException('Invalid identity token');
+    }
+
+    let payload: unknown;
+    try {
+      payload = jwt.verify(token, key, this.options);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired identity token');
+    }
+
+    const claims = OutreachIdentitySchema.safeParse(payload);
+    if (!claims.success) {
+      throw new UnauthorizedException('Identity token is missing required claims');
+    }
+
+    return claims.data;
+  }
+
+  private findKey(kid: string | undefined): KeyObject | null {
+    if (this.keysById.size > 0) {
+      return kid ? this.keysById.get(kid) ?? null : null;
+    }
+    return this.publicKey;
+  }
+
+  private loadJwks(path: string): void {
+    const jwks = JSON.parse(readFileSync(path, 'utf8')) as { keys?: JsonWebKey[] };
+
+    for (const jwk of jwks.keys ?? []) {
+      if (typeof jwk.kid === 'string' && jwk.use !== 'enc') {
+        this.keysById.set(jwk.kid, createPublicKey({ key: jwk, format: 'jwk' }));
+      }
+    }
+  }
+}
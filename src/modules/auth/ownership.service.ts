@@ -0,0 +1,109 @@
+/**
+ * OWNERSHIP SERVICE
+ * =================
+ * Who may change a CRM record, based on its ownerId and the caller's role
+ * (see roles.ts), and whom a caller may make a record's owner.
+ *
+ * - Admins change and assign anything in the organization
+ * - Managers change their own records, their team's and unowned ones,
+ *   and assign to themselves, their team or nobody
+ * - Reps change and own only their own records
+ * - Read-only users change nothing
+ *
+ * Records created through the API are owned by their creator.
+ */
+
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from './interfaces/auth-user.interface';
+import { Role } from './roles';
+
+const EDIT_DENIED: Record<Role, string> = {
+  ADMIN: 'Not allowed to change this record',
+  MANAGER: "You can only change your team's records",
+  REP: 'You can only change records you own',
+  READ_ONLY: 'Read-only users cannot make changes',
+};
+
+@Injectable()
+export class OwnershipService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Whether the caller may change a record owned by `ownerId`.
+   */
+  async canEdit(user: AuthUser, ownerId: string | null): Promise<boolean> {
+    switch (user.role) {
+      case 'ADMIN':
+        return true;
+      case 'MANAGER':
+        return (
+          ownerId === null || ownerId === user.userId || (await this.isTeamMember(user, ownerId))
+        );
+      case 'REP':
+        return ownerId === user.userId;
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Throw unless the caller may change every given record.
+   */
+  async assertCanEdit(
+    user: AuthUser,
+    ...records: Array<{ ownerId: string | null }>
+  ): Promise<void> {
+    for (const record of records) {
+      if (!(await this.canEdit(user, record.ownerId))) {
+        throw new ForbiddenException(EDIT_DENIED[user.role]);
+      }
+    }
+  }
+
+  /**
+   * Owner to store on a record: the requested one if the caller may
+   * assign it, the caller when none was requested.
+   */
+  async resolveOwnerId(
+    user: AuthUser,
+    requested: string | null | undefined,
+  ): Promise<string | null> {
+    if (requested === undefined || requested === user.userId) {
+      return user.userId;
+    }
+
+    const assignable =
+      user.role === 'ADMIN'
+        ? requested === null || (await this.isOrganizationUser(user, requested))
+        : user.role === 'MANAGER' &&
+          (requested === null || (await this.isTeamMember(user, requested)));
+    if (!assignable) {
+      throw new ForbiddenException(
+        requested === null
+          ? 'Only admins and managers can leave records unowned'
+          : `Cannot assign records to user ${requested}`,
+      );
+    }
+
+    return requested;
+  }
+
+  private async isTeamMember(user: AuthUser, userId: string): Promise<boolean> {
+    if (!user.teamId) {
+      return false;
+    }
+
+    const count = await this.prisma.user.count({
+      where: { id: userId, organizationId: user.organizationId, teamId: user.teamId },
+    });
+    return count > 0;
+  }
+
+  private async isOrganizationUser(user: AuthUser, userId: string): Promise<boolean> {
+    const count = await this.prisma.user.count({
+      where: { id: userId, organizationId: user.organizationId },
+    });
+    return count > 0;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * ROLES
+ * =====
+ * What a CRM user may do, on top of workspace scope.
+ *
+ * - ADMIN: everything, including organization-wide settings (pipelines,
+ *   custom fields, webhooks, merge policy, lead scoring, users)
+ * - MANAGER: edits their own and their team's records, and unowned ones
+ * - REP: edits only the records they own
+ * - READ_ONLY: reads, searches and exports; no writes
+ *
+ * Everyone can read every record in their workspaces.
+ */
+
+export const ROLES = ['ADMIN', 'MANAGER', 'REP', 'READ_ONLY'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+// Roles that can create and change CRM records
+export const WRITE_ROLES: Role[] = ['ADMIN', 'MANAGER', 'REP'];
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
@@ -0,0 +1,70 @@
+/**
+ * WORKSPACE SCOPE
+ * ===============
+ * Which workspaces' CRM records a caller can see and write.
+ *
+ * - Callers with an org-wide role see every workspace
+ * - Everyone else sees their member workspaces, plus records without a
+ *   workspace, which are shared with the whole organization
+ * - New records go to the caller's active workspace unless another one
+ *   is given; only org-wide callers can share a record organization-wide
+ */
+
+import { ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { AuthUser } from './interfaces/auth-user.interface';
+
+// Where condition on workspaceId, valid for every workspace-scoped model
+export interface WorkspaceCondition {
+  OR?: Array<{ workspaceId: { in: string[] } | null }>;
+}
+
+export function workspaceCondition(user: AuthUser): WorkspaceCondition {
+  if (user.orgWide) {
+    return {};
+  }
+
+  return { OR: [{ workspaceId: { in: user.workspaceIds } }, { workspaceId: null }] };
+}
+
+/**
+ * workspaceCondition() for raw SQL, on the workspace_id column of the
+ * table aliased `alias`.
+ */
+export function workspaceSqlCondition(user: AuthUser, alias: string): Prisma.Sql {
+  const column = Prisma.raw(`${alias}.workspace_id`);
+  if (user.orgWide) {
+    return Prisma.sql`TRUE`;
+  }
+
+  const workspaceIds = user.workspaceIds.map((id) => Prisma.sql`${id}::uuid`);
+  return workspaceIds.length > 0
+    ? Prisma.sql`(${column} IS NULL OR ${column} IN (${Prisma.join(workspaceIds)}))`
+    : Prisma.sql`${column} IS NULL`;
+}
+
+export function canAccessWorkspace(user: AuthUser, workspaceId: string | null): boolean {
+  return user.orgWide || workspaceId === null || user.workspaceIds.includes(workspaceId);
+}
+
+/**
+ * Workspace to store on a record: the requested one if the caller may
+ * write there, the caller's active workspace when none was requested.
+ */
+export function resolveWorkspaceId(
+  user: AuthUser,
+  requested: string | null | undefined,
+): string | null {
+  if (requested === undefined) {
+    return user.workspaceId ?? null;
+  }
+  if (user.orgWide || (requested !== null && user.workspaceIds.includes(requested))) {
+    return requested;
+  }
+
+  throw new ForbiddenException(
+    requested === null
+      ? 'Only org-wide users can share records with the whole organization'
+      : `No access to workspace ${requested}`,
+  );
+}
@@ -0,0 +1,103 @@
+/**
+ * COMPANIES CONTROLLER
+ * ====================
+ * REST endpoints for CRM companies, scoped to the caller's tenant.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { CompaniesService } from './companies.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  CreateCompanySchema,
+  ListCompaniesQuerySchema,
+  UpdateCompanySchema,
+} from './dto/company.dto';
+import type {
+  CreateCompanyDto,
+  ListCompaniesQueryDto,
+  UpdateCompanyDto,
+} from './dto/company.dto';
+
+@Controller('companies')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CompaniesController {
+  constructor(private readonly companiesService: CompaniesService) {}
+
+  /**
+   * GET /companies
+   *
+   * List companies with optional filters and cursor pagination.
+   */
+  @Get()
+  async list(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ListCompaniesQuerySchema)) query: ListCompaniesQueryDto,
+  ) {
+    return this.companiesService.list(user, query);
+  }
+
+  /**
+   * GET /companies/:id
+   *
+   * Company detail with contact, open deal, pipeline and last-activity rollups.
+   */
+  @Get(':id')
+  async get(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.companiesService.get(user, id);
+  }
+
+  /**
+   * POST /companies
+   */
+  @Post()
+  async create(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(CreateCompanySchema)) body: CreateCompanyDto,
+  ) {
+    return this.companiesService.create(user, body);
+  }
+
+  /**
+   * PATCH /companies/:id
+   */
+  @Patch(':id')
+  async update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(UpdateCompanySchema)) body: UpdateCompanyDto,
+  ) {
+    return this.companiesService.update(user, id, body);
+  }
+
+  /**
+   * DELETE /companies/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.companiesService.remove(user, id);
+  }
+}
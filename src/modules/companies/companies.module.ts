@@ -1,3 +1,20 @@
+/**
+ * COMPANIES MODULE
+ * ================
+ * CRM companies REST API.
+ */
+
 import { Module } from '@nestjs/common';
-@Module({})
+import { AuthModule } from '../auth/auth.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { EventsModule } from '../events/events.module';
+import { CompaniesController } from './companies.controller';
+import { CompaniesService } from './companies.service';
+
+@Module({
+  imports: [AuthModule, CustomFieldsModule, EventsModule],
+  controllers: [CompaniesController],
+  providers: [CompaniesService],
+  exports: [CompaniesService],
+})
 export class CompaniesModule {}
@@ -0,0 +1,328 @@
+/**
+ * COMPANIES SERVICE
+ * =================
+ * Tenant-scoped CRUD for CRM companies, plus the rollups shown on
+ * account pages (contacts, open deals, pipeline value, last activity).
+ * Companies and rollups are limited to the caller's workspaces; changes
+ * need edit rights on the company (see OwnershipService).
+ * Writes publish company.* events in the same transaction.
+ */
+
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Company, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import {
+  resolveWorkspaceId,
+  workspaceCondition,
+  workspaceSqlCondition,
+} from '../auth/workspace-scope';
+import { OwnershipService } from '../auth/ownership.service';
+import { CrmEventsService } from '../events/crm-events.service';
+import { CustomFieldValuesService } from '../custom-fields/custom-field-values.service';
+import {
+  cursorArgs,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import {
+  CompanyRollupDto,
+  CreateCompanyDto,
+  ListCompaniesQueryDto,
+  UpdateCompanyDto,
+} from './dto/company.dto';
+
+@Injectable()
+export class CompaniesService {
+  private readonly logger = new Logger(CompaniesService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly events: CrmEventsService,
+    private readonly customFieldValues: CustomFieldValuesService,
+    private readonly ownership: OwnershipService,
+  ) {}
+
+  /**
+   * List companies, newest first or by a custom field, using cursor pagination.
+   */
+  async list(
+    user: AuthUser,
+    query: ListCompaniesQueryDto,
+  ): Promise<PaginatedResult<Company>> {
+    if (query.sort) {
+      return this.customFieldValues.listSorted(
+        user.organizationId,
+        'COMPANY',
+        query.sort,
+        query,
+        await this.buildSqlConditions(user, query),
+        (ids) => this.prisma.company.findMany({ where: { id: { in: ids } } }),
+      );
+    }
+
+    const where = await this.buildWhere(user, query);
+
+    const rows = await this.prisma.company.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPaginatedResult(rows, query.limit);
+  }
+
+  /**
+   * Get a company with its rollups.
+   */
+  async get(
+    user: AuthUser,
+    id: string,
+  ): Promise<Company & { rollup: CompanyRollupDto }> {
+    const company = await this.findOrThrow(user, id);
+    const rollup = await this.getRollup(user, id);
+
+    return { ...company, rollup };
+  }
+
+  /**
+   * Create a company in the caller's organization.
+   */
+  async create(user: AuthUser, dto: CreateCompanyDto): Promise<Company> {
+    const customFields = await this.customFieldValues.validateForCreate(
+      user.organizationId,
+      'COMPANY',
+      dto.customFields,
+    );
+    const ownerId = await this.ownership.resolveOwnerId(user, dto.ownerId);
+
+    const company = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.company.create({
+        data: {
+          ...this.toData({
+            ...dto,
+            customFields,
+            workspaceId: resolveWorkspaceId(user, dto.workspaceId),
+            ownerId,
+          }),
+          name: dto.name,
+          organizationId: user.organizationId,
+        },
+      });
+
+      await this.events.emit(
+        { organizationId: user.organizationId, type: 'company.created', data: created },
+        tx,
+      );
+      return created;
+    });
+
+    this.logger.log(`Created company ${company.id}`);
+    return company;
+  }
+
+  /**
+   * Update a company. Only provided fields are changed.
+   */
+  async update(
+    user: AuthUser,
+    id: string,
+    dto: UpdateCompanyDto,
+  ): Promise<Company> {
+    const existing = await this.findOrThrow(user, id);
+    await this.ownership.assertCanEdit(user, existing);
+    const customFields = await this.customFieldValues.validateForUpdate(
+      user.organizationId,
+      'COMPANY',
+      dto.customFields,
+      existing.customFields,
+    );
+    const ownerId =
+      dto.ownerId !== undefined
+        ? await this.ownership.resolveOwnerId(user, dto.ownerId)
+        : undefined;
+
+    return this.prisma.$transaction(async (tx) => {
+      const updated = await tx.company.update({
+        where: { id },
+        data: this.toData({
+          ...dto,
+          customFields,
+          ...(dto.workspaceId !== undefined
+            ? { workspaceId: resolveWorkspaceId(user, dto.workspaceId) }
+            : {}),
+          ownerId,
+        }),
+      });
+
+      await this.events.emit(
+        {
+          organizationId: user.organizationId,
+          type: 'company.updated',
+          data: updated,
+          previous: existing,
+        },
+        tx,
+      );
+      return updated;
+    });
+  }
+
+  /**
+   * Delete a company. Linked contacts, deals and activities are detached.
+   */
+  async remove(user: AuthUser, id: string): Promise<void> {
+    const existing = await this.findOrThrow(user, id);
+    await this.ownership.assertCanEdit(user, existing);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.contact.updateMany({
+        where: { companyId: id },
+        data: { companyId: null },
+      });
+      await tx.deal.updateMany({
+        where: { companyId: id },
+        data: { companyId: null },
+      });
+      await tx.activity.updateMany({
+        where: { companyId: id },
+        data: { companyId: null },
+      });
+      await tx.company.delete({ where: { id } });
+
+      await this.events.emit(
+        { organizationId: user.organizationId, type: 'company.deleted', data: existing },
+        tx,
+      );
+    });
+
+    this.logger.log(`Deleted company ${id}`);
+  }
+
+  /**
+   * Compute the account rollups in parallel.
+   * Activities count when logged on the company or on one of its contacts.
+   */
+  private async getRollup(
+    user: AuthUser,
+    companyId: string,
+  ): Promise<CompanyRollupDto> {
+    const { organizationId } = user;
+    const visible = workspaceCondition(user);
+
+    const [contactCount, openDeals, lastActivity] = await Promise.all([
+      this.prisma.contact.count({
+        where: { organizationId, companyId, ...visible },
+      }),
+      this.prisma.deal.aggregate({
+        where: { organizationId, companyId, status: 'OPEN', ...visible },
+        _count: { _all: true },
+        _sum: { value: true },
+      }),
+      this.prisma.activity.findFirst({
+        where: {
+          organizationId,
+          OR: [{ companyId }, { contact: { companyId } }],
+          AND: [visible],
+        },
+        orderBy: { createdAt: 'desc' },
+        select: { createdAt: true },
+      }),
+    ]);
+
+    return {
+      contactCount,
+      openDealCount: openDeals._count._all,
+      openPipelineValue: (openDeals._sum.value ?? new Prisma.Decimal(0)).toFixed(2),
+      lastActivityAt: lastActivity?.createdAt ?? null,
+    };
+  }
+
+  private async findOrThrow(user: AuthUser, id: string): Promise<Company> {
+    const company = await this.prisma.company.findFirst({
+      where: { id, organizationId: user.organizationId, ...workspaceCondition(user) },
+    });
+
+    if (!company) {
+      throw new NotFoundException('Company not found');
+    }
+
+    return company;
+  }
+
+  /**
+   * Build the where clause for list queries. Also used by exports.
+   */
+  async buildWhere(
+    user: AuthUser,
+    query: Omit<ListCompaniesQueryDto, 'cursor' | 'limit' | 'sort'>,
+  ): Promise<Prisma.CompanyWhereInput> {
+    const where: Prisma.CompanyWhereInput = {
+      organizationId: user.organizationId,
+    };
+
+    if (query.industry) where.industry = query.industry;
+    if (query.country) where.country = query.country;
+    if (query.ownerId) where.ownerId = query.ownerId;
+
+    if (query.search) {
+      const contains = { contains: query.search, mode: 'insensitive' as const };
+      where.OR = [{ name: contains }, { website: contains }, { email: contains }];
+    }
+
+    const customFieldFilters = await this.customFieldValues.buildFilters(
+      user.organizationId,
+      'COMPANY',
+      query.cf,
+    );
+    where.AND = [workspaceCondition(user), ...customFieldFilters];
+
+    return where;
+  }
+
+  /**
+   * buildWhere() as SQL conditions on crm.companies aliased `t`, for lists
+   * sorted by a custom field.
+   */
+  private async buildSqlConditions(
+    user: AuthUser,
+    query: ListCompaniesQueryDto,
+  ): Promise<Prisma.Sql[]> {
+    const conditions = [workspaceSqlCondition(user, 't')];
+
+    if (query.industry) conditions.push(Prisma.sql`t.industry = ${query.industry}`);
+    if (query.country) conditions.push(Prisma.sql`t.country = ${query.country}`);
+    if (query.ownerId) conditions.push(Prisma.sql`t.owner_id = ${query.ownerId}::uuid`);
+
+    if (query.search) {
+      const pattern = `%${query.search}%`;
+      conditions.push(Prisma.sql`(t.name ILIKE ${pattern} OR t.website ILIKE ${pattern}
+        OR t.email ILIKE ${pattern})`);
+    }
+
+    const customFieldFilters = await this.customFieldValues.buildSqlFilters(
+      user.organizationId,
+      'COMPANY',
+      query.cf,
+      't',
+    );
+    return [...conditions, ...customFieldFilters];
+  }
+
+  /**
+   * Map a validated DTO to Prisma data.
+   */
+  private toData(
+    dto: UpdateCompanyDto,
+  ): Partial<Omit<Prisma.CompanyUncheckedCreateInput, 'organizationId'>> {
+    const { customFields, email, ...rest } = dto;
+
+    return {
+      ...rest,
+      ...(email !== undefined ? { email: email?.toLowerCase() ?? null } : {}),
+      ...(customFields !== undefined
+        ? { customFields: customFields ?? Prisma.DbNull }
+        : {}),
+    };
+  }
+}
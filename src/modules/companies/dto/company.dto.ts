@@ -0,0 +1,51 @@
+/**
+ * COMPANY DTOs
+ * ============
+ * Request schemas for the companies REST API.
+ */
+
+import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+import { CustomFieldListQuerySchema } from '../../custom-fields/dto/custom-field.dto';
+
+// Create company request
+export const CreateCompanySchema = z.object({
+  workspaceId: z.string().uuid().nullable().optional(),
+  // Defaults to the caller; see OwnershipService for who can be assigned
+  ownerId: z.string().uuid().nullable().optional(),
+  name: z.string().trim().min(1, 'Company name is required').max(255),
+  industry: z.string().max(255).nullable().optional(),
+  size: z.string().max(50).nullable().optional(),
+  website: z.string().max(500).nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  address: z.string().max(500).nullable().optional(),
+  city: z.string().max(255).nullable().optional(),
+  country: z.string().max(255).nullable().optional(),
+  customFields: z.record(z.any()).nullable().optional(),
+});
+
+export type CreateCompanyDto = z.infer<typeof CreateCompanySchema>;
+
+// Update company request - every field optional
+export const UpdateCompanySchema = CreateCompanySchema.partial();
+
+export type UpdateCompanyDto = z.infer<typeof UpdateCompanySchema>;
+
+// List companies query
+export const ListCompaniesQuerySchema = CursorPaginationSchema.extend({
+  search: z.string().trim().min(1).optional(),
+  industry: z.string().optional(),
+  country: z.string().optional(),
+  ownerId: z.string().uuid().optional(),
+}).merge(CustomFieldListQuerySchema);
+
+export type ListCompaniesQueryDto = z.infer<typeof ListCompaniesQuerySchema>;
+
+// Detail response
+export interface CompanyRollupDto {
+  contactCount: number;
+  openDealCount: number;
+  openPipelineValue: string;
+  lastActivityAt: Date | null;
+}
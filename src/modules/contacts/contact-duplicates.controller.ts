@@ -0,0 +1,106 @@
+/**
+ * CONTACT DUPLICATES CONTROLLER
+ * =============================
+ * Duplicate scans, candidate review and contact merging,
+ * scoped to the caller's tenant. Scans are started by admins and managers.
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ContactDuplicatesService } from './contact-duplicates.service';
+import { ContactMergeService } from './contact-merge.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  ListDuplicatesQuerySchema,
+  MergeContactsSchema,
+} from './dto/contact-duplicate.dto';
+import type {
+  ListDuplicatesQueryDto,
+  MergeContactsDto,
+} from './dto/contact-duplicate.dto';
+
+@Controller('contacts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ContactDuplicatesController {
+  constructor(
+    private readonly duplicatesService: ContactDuplicatesService,
+    private readonly mergeService: ContactMergeService,
+  ) {}
+
+  /**
+   * POST /contacts/duplicates/scan
+   *
+   * Start a background duplicate scan for the organization.
+   */
+  @Post('duplicates/scan')
+  @Roles('ADMIN', 'MANAGER')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async startScan(@CurrentUser() user: AuthUser) {
+    return this.duplicatesService.startScan(user);
+  }
+
+  /**
+   * GET /contacts/duplicates/scans/:id
+   */
+  @Get('duplicates/scans/:id')
+  async getScan(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.duplicatesService.getScan(user, id);
+  }
+
+  /**
+   * GET /contacts/duplicates
+   *
+   * Candidate pairs, highest score first.
+   */
+  @Get('duplicates')
+  async listCandidates(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ListDuplicatesQuerySchema)) query: ListDuplicatesQueryDto,
+  ) {
+    return this.duplicatesService.listCandidates(user, query);
+  }
+
+  /**
+   * POST /contacts/duplicates/:id/dismiss
+   */
+  @Post('duplicates/:id/dismiss')
+  @HttpCode(HttpStatus.OK)
+  async dismiss(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.duplicatesService.dismiss(user, id);
+  }
+
+  /**
+   * POST /contacts/merge
+   *
+   * Merge `mergedId` into `survivorId`.
+   */
+  @Post('merge')
+  @HttpCode(HttpStatus.OK)
+  async merge(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(MergeContactsSchema)) body: MergeContactsDto,
+  ) {
+    return this.mergeService.merge(user, body);
+  }
+}
@@ -0,0 +1,449 @@
+/**
+ * CONTACT DUPLICATES SERVICE
+ * ==========================
+ * Finds likely duplicate contacts that already exist in an organization.
+ *
+ * Scans run in the background. Contacts are grouped into blocks that share
+ * a key (URN, LinkedIn URL, email, phone, or name prefix) and only pairs
+ * within a block are scored, so large tenants don't need n² comparisons.
+ *
+ * Signal weights (summed, capped at 100):
+ * - LinkedIn URN ID        100
+ * - LinkedIn profile URL    90
+ * - Email                   80
+ * - Phone                   50
+ * - Name (fuzzy)           20-40
+ * - Same company            25 (only with a name match)
+ *
+ * Pairs scoring MIN_CANDIDATE_SCORE or more are stored as candidates.
+ *
+ * An organization has at most one queued or running scan, enforced by the
+ * unique activeOrganizationId. Running scans keep a heartbeat (see
+ * job-heartbeat.ts); scans whose replica stopped are failed on startup,
+ * periodically, and before a new scan is started.
+ */
+
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { DuplicateCandidate, DuplicateScan, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { workspaceCondition } from '../auth/workspace-scope';
+import { OwnershipService } from '../auth/ownership.service';
+import {
+  cursorArgs,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import {
+  STALE_JOB_MS,
+  staleJobCondition,
+  startHeartbeat,
+} from '../../common/utils/job-heartbeat';
+import { linkedInProfileKey } from '../../common/utils/linkedin.util';
+import { jaroWinkler, normalizeText } from '../../common/utils/string-similarity';
+import { DuplicateReasonDto, ListDuplicatesQueryDto } from './dto/contact-duplicate.dto';
+
+const MIN_CANDIDATE_SCORE = 60;
+const NAME_SIMILARITY_THRESHOLD = 0.92;
+const SCAN_PAGE_SIZE = 1000;
+
+// Blocks larger than this are too generic to be useful (e.g. a shared inbox)
+const MAX_BLOCK_SIZE = 50;
+
+interface ScanContact {
+  id: string;
+  urnId: string | null;
+  profileKey: string | null;
+  email: string | null;
+  phone: string | null;
+  name: string;
+  companyId: string | null;
+}
+
+@Injectable()
+export class ContactDuplicatesService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ContactDuplicatesService.name);
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ownership: OwnershipService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.failStaleScans().catch((error) => {
+      this.logger.error(`Failed to recover duplicate scans: ${error}`);
+    });
+
+    this.timer = setInterval(() => {
+      this.failStaleScans().catch((error) => {
+        this.logger.error(`Failed to recover duplicate scans: ${error}`);
+      });
+    }, STALE_JOB_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Start a duplicate scan for the caller's organization.
+   */
+  async startScan(user: AuthUser): Promise<DuplicateScan> {
+    await this.failStaleScans(user.organizationId);
+
+    let scan: DuplicateScan;
+    try {
+      scan = await this.prisma.duplicateScan.create({
+        data: {
+          organizationId: user.organizationId,
+          activeOrganizationId: user.organizationId,
+          heartbeatAt: new Date(),
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('A duplicate scan is already running');
+      }
+      throw error;
+    }
+
+    setImmediate(() => {
+      this.runScan(scan.id, user.organizationId).catch((error) => {
+        this.logger.error(`Duplicate scan ${scan.id} crashed: ${error}`);
+      });
+    });
+
+    return scan;
+  }
+
+  /**
+   * Get a scan's status.
+   */
+  async getScan(user: AuthUser, id: string): Promise<DuplicateScan> {
+    const scan = await this.prisma.duplicateScan.findFirst({
+      where: { id, organizationId: user.organizationId },
+    });
+
+    if (!scan) {
+      throw new NotFoundException('Duplicate scan not found');
+    }
+
+    return scan;
+  }
+
+  /**
+   * List candidate pairs, highest score first, with both contacts.
+   * Pairs with a contact outside the caller's workspaces are left out.
+   */
+  async listCandidates(
+    user: AuthUser,
+    query: ListDuplicatesQueryDto,
+  ): Promise<PaginatedResult<DuplicateCandidate & { contacts: unknown[] }>> {
+    const rows = await this.prisma.duplicateCandidate.findMany({
+      where: {
+        organizationId: user.organizationId,
+        status: query.status,
+        ...(query.minScore !== undefined ? { score: { gte: query.minScore } } : {}),
+      },
+      orderBy: [{ score: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    const page = toPaginatedResult(rows, query.limit);
+    const contactIds = page.data.flatMap((row) => [row.contactAId, row.contactBId]);
+    const contacts = await this.prisma.contact.findMany({
+      where: {
+        id: { in: contactIds },
+        organizationId: user.organizationId,
+        ...workspaceCondition(user),
+      },
+      include: { company: { select: { id: true, name: true } } },
+    });
+    const byId = new Map(contacts.map((contact) => [contact.id, contact]));
+
+    return {
+      ...page,
+      data: page.data
+        .filter((row) => byId.has(row.contactAId) && byId.has(row.contactBId))
+        .map((row) => ({
+          ...row,
+          contacts: [byId.get(row.contactAId), byId.get(row.contactBId)],
+        })),
+    };
+  }
+
+  /**
+   * Mark a candidate pair as not a duplicate. Like a merge, this needs
+   * edit rights on both contacts.
+   */
+  async dismiss(user: AuthUser, id: string): Promise<DuplicateCandidate> {
+    const candidate = await this.prisma.duplicateCandidate.findFirst({
+      where: { id, organizationId: user.organizationId },
+    });
+
+    const contacts = candidate
+      ? await this.prisma.contact.findMany({
+          where: {
+            id: { in: [candidate.contactAId, candidate.contactBId] },
+            ...workspaceCondition(user),
+          },
+          select: { id: true, ownerId: true },
+        })
+      : [];
+    if (!candidate || contacts.length < 2) {
+      throw new NotFoundException('Duplicate candidate not found');
+    }
+    await this.ownership.assertCanEdit(user, ...contacts);
+
+    return this.prisma.duplicateCandidate.update({
+      where: { id },
+      data: { status: 'DISMISSED' },
+    });
+  }
+
+  /**
+   * Fail queued and running scans (optionally of one organization) whose
+   * heartbeat stopped, so a new scan can start.
+   */
+  private async failStaleScans(organizationId?: string): Promise<void> {
+    const interrupted = await this.prisma.duplicateScan.updateMany({
+      where: {
+        organizationId,
+        status: { in: ['QUEUED', 'RUNNING'] },
+        ...staleJobCondition(),
+      },
+      data: {
+        status: 'FAILED',
+        activeOrganizationId: null,
+        error: 'Scan was interrupted',
+        finishedAt: new Date(),
+      },
+    });
+    if (interrupted.count > 0) {
+      this.logger.warn(`Marked ${interrupted.count} interrupted duplicate scans as failed`);
+    }
+  }
+
+  private async runScan(scanId: string, organizationId: string): Promise<void> {
+    const claimed = await this.prisma.duplicateScan.updateMany({
+      where: { id: scanId, status: 'QUEUED' },
+      data: { status: 'RUNNING', startedAt: new Date(), heartbeatAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+    const stopHeartbeat = startHeartbeat(
+      () =>
+        this.prisma.duplicateScan.update({
+          where: { id: scanId },
+          data: { heartbeatAt: new Date() },
+        }),
+      (error) => this.logger.warn(`Duplicate scan ${scanId}: heartbeat failed: ${error}`),
+    );
+
+    try {
+      const contacts = await this.loadContacts(organizationId);
+      const pairs = this.scorePairs(contacts);
+
+      let candidatesFound = 0;
+      for (const { contactAId, contactBId, score, reasons } of pairs) {
+        // Dismissed and merged pairs keep their status; open ones get the new score
+        await this.prisma.duplicateCandidate.upsert({
+          where: {
+            organizationId_contactAId_contactBId: { organizationId, contactAId, contactBId },
+          },
+          create: {
+            organizationId,
+            scanId,
+            contactAId,
+            contactBId,
+            score,
+            reasons: reasons as unknown as Prisma.InputJsonValue,
+          },
+          update: {
+            scanId,
+            score,
+            reasons: reasons as unknown as Prisma.InputJsonValue,
+          },
+        });
+        candidatesFound++;
+      }
+
+      await this.prisma.duplicateScan.update({
+        where: { id: scanId },
+        data: {
+          status: 'COMPLETED',
+          activeOrganizationId: null,
+          contactsScanned: contacts.length,
+          candidatesFound,
+          finishedAt: new Date(),
+        },
+      });
+
+      this.logger.log(
+        `Duplicate scan ${scanId}: ${candidatesFound} candidates among ${contacts.length} contacts`,
+      );
+    } catch (error) {
+      this.logger.error(`Duplicate scan ${scanId} failed: ${error}`);
+      await this.prisma.duplicateScan.update({
+        where: { id: scanId },
+        data: {
+          status: 'FAILED',
+          activeOrganizationId: null,
+          error: error instanceof Error ? error.message : 'Scan failed',
+          finishedAt: new Date(),
+        },
+      });
+    } finally {
+      stopHeartbeat();
+    }
+  }
+
+  /**
+   * Load the matching keys for every contact, page by page.
+   */
+  private async loadContacts(organizationId: string): Promise<ScanContact[]> {
+    const contacts: ScanContact[] = [];
+    let cursor: string | undefined;
+
+    for (;;) {
+      const page = await this.prisma.contact.findMany({
+        where: { organizationId },
+        select: {
+          id: true,
+          firstName: true,
+          lastName: true,
+          email: true,
+          phone: true,
+          linkedinUrl: true,
+          customFields: true,
+          companyId: true,
+        },
+        orderBy: { id: 'asc' },
+        take: SCAN_PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+
+      for (const row of page) {
+        const customFields = (row.customFields || {}) as Record<string, any>;
+        contacts.push({
+          id: row.id,
+          urnId: typeof customFields.linkedinUrnId === 'string' ? customFields.linkedinUrnId : null,
+          profileKey: linkedInProfileKey(row.linkedinUrl),
+          email: row.email?.trim().toLowerCase() || null,
+          phone: this.normalizePhone(row.phone),
+          name: normalizeText(`${row.firstName ?? ''} ${row.lastName ?? ''}`),
+          companyId: row.companyId,
+        });
+      }
+
+      if (page.length < SCAN_PAGE_SIZE) break;
+      cursor = page[page.length - 1].id;
+    }
+
+    return contacts;
+  }
+
+  /**
+   * Score every pair that shares at least one block.
+   */
+  private scorePairs(contacts: ScanContact[]) {
+    const blocks = new Map<string, ScanContact[]>();
+    const addToBlock = (key: string, contact: ScanContact) => {
+      const block = blocks.get(key);
+      if (block) block.push(contact);
+      else blocks.set(key, [contact]);
+    };
+
+    for (const contact of contacts) {
+      if (contact.urnId) addToBlock(`urn:${contact.urnId}`, contact);
+      if (contact.profileKey) addToBlock(`url:${contact.profileKey}`, contact);
+      if (contact.email) addToBlock(`email:${contact.email}`, contact);
+      if (contact.phone) addToBlock(`phone:${contact.phone}`, contact);
+
+      // Name block: first initial + first 4 letters of the last name part
+      const parts = contact.name.split(' ').filter(Boolean);
+      if (parts.length >= 2) {
+        addToBlock(`name:${parts[0][0]}:${parts[parts.length - 1].slice(0, 4)}`, contact);
+      }
+    }
+
+    const seen = new Set<string>();
+    const pairs: Array<{
+      contactAId: string;
+      contactBId: string;
+      score: number;
+      reasons: DuplicateReasonDto[];
+    }> = [];
+
+    for (const block of blocks.values()) {
+      if (block.length < 2 || block.length > MAX_BLOCK_SIZE) continue;
+
+      for (let i = 0; i < block.length; i++) {
+        for (let j = i + 1; j < block.length; j++) {
+          const [a, b] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+          const pairKey = `${a.id}:${b.id}`;
+          if (seen.has(pairKey)) continue;
+          seen.add(pairKey);
+
+          const reasons = this.scorePair(a, b);
+          const score = Math.min(
+            100,
+            reasons.reduce((sum, reason) => sum + reason.weight, 0),
+          );
+          if (score >= MIN_CANDIDATE_SCORE) {
+            pairs.push({ contactAId: a.id, contactBId: b.id, score, reasons });
+          }
+        }
+      }
+    }
+
+    return pairs;
+  }
+
+  private scorePair(a: ScanContact, b: ScanContact): DuplicateReasonDto[] {
+    const reasons: DuplicateReasonDto[] = [];
+
+    if (a.urnId && a.urnId === b.urnId) reasons.push({ signal: 'URN_ID', weight: 100 });
+    if (a.profileKey && a.profileKey === b.profileKey) {
+      reasons.push({ signal: 'LINKEDIN_URL', weight: 90 });
+    }
+    if (a.email && a.email === b.email) reasons.push({ signal: 'EMAIL', weight: 80 });
+    if (a.phone && a.phone === b.phone) reasons.push({ signal: 'PHONE', weight: 50 });
+
+    if (a.name && b.name) {
+      const similarity = jaroWinkler(a.name, b.name);
+      if (similarity >= NAME_SIMILARITY_THRESHOLD) {
+        reasons.push({ signal: 'NAME', weight: similarity === 1 ? 40 : 20 });
+
+        if (a.companyId && a.companyId === b.companyId) {
+          reasons.push({ signal: 'COMPANY', weight: 25 });
+        }
+      }
+    }
+
+    return reasons;
+  }
+
+  /**
+   * Digits only, compared on the last 10 digits to ignore country prefixes.
+   */
+  private normalizePhone(phone?: string | null): string | null {
+    const digits = (phone || '').replace(/\D/g, '');
+    return digits.length >= 7 ? digits.slice(-10) : null;
+  }
+}
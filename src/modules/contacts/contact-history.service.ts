@@ -0,0 +1,234 @@
+/**
+ * CONTACT HISTORY SERVICE
+ * =======================
+ * Records where every contact field change came from (outreach sync,
+ * API user, import or merge), with the previous value, so overwritten
+ * edits can be traced and reverted.
+ *
+ * customFields are tracked per key as `customFields.<key>`;
+ * the sync bookkeeping key `lastSyncedAt` is not tracked.
+ * Reverts are applied by ContactsService.revertChange(), through the same
+ * checks as any other update.
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Contact, ContactFieldChange, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { workspaceCondition } from '../auth/workspace-scope';
+import { isReservedCustomField } from '../custom-fields/reserved-custom-fields';
+import {
+  cursorArgs,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import {
+  ContactChangeSource,
+  ContactFieldDiff,
+  ListContactHistoryQueryDto,
+} from './dto/contact-history.dto';
+import { UpdateContactSchema } from './dto/contact.dto';
+
+const CUSTOM_FIELD_PREFIX = 'customFields.';
+const UNTRACKED_FIELDS = new Set(['id', 'organizationId', 'createdAt', 'updatedAt']);
+const UNTRACKED_CUSTOM_FIELDS = new Set(['lastSyncedAt']);
+
+export interface RecordChangesInput {
+  organizationId: string;
+  contactId: string;
+  source: ContactChangeSource;
+  actorId?: string | null;
+  before: Partial<Contact> | Record<string, any>;
+  data: Record<string, any>;
+  revertedChangeId?: string;
+}
+
+// What reverting a change writes: an update in API form, plus reserved
+// customFields keys, which API updates can't write
+export interface ContactRevert {
+  dto: Record<string, unknown>;
+  reservedCustomFields?: Record<string, unknown>;
+}
+
+@Injectable()
+export class ContactHistoryService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Field-level differences between the current record and the data
+   * about to be written. Fields absent from `data` are unchanged.
+   */
+  diff(before: Record<string, any>, data: Record<string, any>): ContactFieldDiff[] {
+    const changes: ContactFieldDiff[] = [];
+
+    for (const [field, value] of Object.entries(data)) {
+      if (UNTRACKED_FIELDS.has(field) || value === undefined) continue;
+
+      if (field === 'customFields') {
+        changes.push(...this.diffCustomFields(before.customFields, this.toJsonValue(value)));
+        continue;
+      }
+
+      const newValue = this.toJsonValue(value);
+      if (!this.isSameValue(before[field], newValue)) {
+        changes.push({ field, previousValue: before[field] ?? null, newValue });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Record the changes `data` makes to a contact.
+   * Pass the transaction client when writing inside a transaction.
+   */
+  async recordChanges(
+    input: RecordChangesInput,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<ContactFieldDiff[]> {
+    const changes = this.diff(input.before, input.data);
+    if (changes.length === 0) {
+      return changes;
+    }
+
+    await client.contactFieldChange.createMany({
+      data: changes.map((change) => ({
+        organizationId: input.organizationId,
+        contactId: input.contactId,
+        field: change.field,
+        previousValue: this.toJsonInput(change.previousValue),
+        newValue: this.toJsonInput(change.newValue),
+        source: input.source,
+        actorId: input.actorId ?? null,
+        revertedChangeId: input.revertedChangeId ?? null,
+      })),
+    });
+
+    return changes;
+  }
+
+  /**
+   * A contact's change history, newest first.
+   */
+  async list(
+    user: AuthUser,
+    contactId: string,
+    query: ListContactHistoryQueryDto,
+  ): Promise<PaginatedResult<ContactFieldChange>> {
+    await this.findContactOrThrow(user, contactId);
+
+    const rows = await this.prisma.contactFieldChange.findMany({
+      where: {
+        contactId,
+        organizationId: user.organizationId,
+        ...(query.field ? { field: query.field } : {}),
+        ...(query.source ? { source: query.source } : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPaginatedResult(rows, query.limit);
+  }
+
+  /**
+   * A change of the contact, for reverting it.
+   */
+  async getChange(
+    user: AuthUser,
+    contactId: string,
+    changeId: string,
+  ): Promise<ContactFieldChange> {
+    const change = await this.prisma.contactFieldChange.findFirst({
+      where: { id: changeId, contactId, organizationId: user.organizationId },
+    });
+    if (!change) {
+      throw new NotFoundException('Change not found');
+    }
+
+    return change;
+  }
+
+  /**
+   * The update that restores the field to its value before the change,
+   * to be applied by ContactsService.update() with its usual checks.
+   */
+  buildRevert(contact: Contact, change: ContactFieldChange): ContactRevert {
+    if (change.field.startsWith(CUSTOM_FIELD_PREFIX)) {
+      const key = change.field.slice(CUSTOM_FIELD_PREFIX.length);
+      if (isReservedCustomField('CONTACT', key)) {
+        return { dto: {}, reservedCustomFields: { [key]: change.previousValue } };
+      }
+
+      // API writes replace the non-reserved keys, so send all of them
+      const customFields = Object.fromEntries(
+        Object.entries((contact.customFields || {}) as Record<string, any>).filter(
+          ([other]) => other !== key && !isReservedCustomField('CONTACT', other),
+        ),
+      );
+      if (change.previousValue !== null) {
+        customFields[key] = change.previousValue;
+      }
+
+      return { dto: { customFields } };
+    }
+
+    if (!(change.field in UpdateContactSchema.shape)) {
+      throw new BadRequestException(`Field ${change.field} cannot be reverted`);
+    }
+
+    return { dto: { [change.field]: change.previousValue } };
+  }
+
+  private diffCustomFields(before: unknown, after: unknown): ContactFieldDiff[] {
+    const previous = (before || {}) as Record<string, any>;
+    const next = (after || {}) as Record<string, any>;
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    const changes: ContactFieldDiff[] = [];
+
+    for (const key of keys) {
+      if (UNTRACKED_CUSTOM_FIELDS.has(key)) continue;
+      if (!this.isSameValue(previous[key], next[key])) {
+        changes.push({
+          field: `${CUSTOM_FIELD_PREFIX}${key}`,
+          previousValue: previous[key] ?? null,
+          newValue: next[key] ?? null,
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  private toJsonValue(value: unknown): unknown {
+    if (value instanceof Date) return value.toISOString();
+    if (value === Prisma.DbNull || value === Prisma.JsonNull) return null;
+    return value;
+  }
+
+  private toJsonInput(value: unknown): Prisma.InputJsonValue | typeof Prisma.DbNull {
+    return value === null || value === undefined
+      ? Prisma.DbNull
+      : (this.toJsonValue(value) as Prisma.InputJsonValue);
+  }
+
+  private isSameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(this.toJsonValue(a) ?? null) === JSON.stringify(this.toJsonValue(b) ?? null);
+  }
+
+  private async findContactOrThrow(user: AuthUser, contactId: string): Promise<Contact> {
+    const contact = await this.prisma.contact.findFirst({
+      where: { id: contactId, organizationId: user.organizationId, ...workspaceCondition(user) },
+    });
+
+    if (!contact) {
+      throw new NotFoundException('Contact not found');
+    }
+
+    return contact;
+  }
+}
@@ -0,0 +1,229 @@
+/**
+ * CONTACT MERGE SERVICE
+ * =====================
+ * Merges two contacts into one, in a single transaction.
+ *
+ * Survivorship rules:
+ * - Scalar fields: the survivor's value wins; empty fields are filled from the merged contact
+ * - workspaceId: the survivor keeps its own, so a shared contact stays shared
+ * - isLead: false if either contact is already a customer
+ * - tags: the union of both contacts' tags, the survivor's first
+ * - leadScore: recomputed from the merged activities and deals
+ * - customFields: survivor keys win, missing keys are copied, arrays are unioned;
+ *   the merged contact's id is appended to `mergedContactIds`
+ * - Activities and deals of the merged contact are re-pointed to the survivor
+ * - The merged contact is deleted and an activity records the merge
+ * - Fields filled on the survivor are recorded as MERGE changes in its history
+ * - Publishes contact.deleted for the merged contact and contact.updated for the survivor
+ * - The caller needs edit rights on both contacts
+ */
+
+import { Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { Contact, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { workspaceCondition } from '../auth/workspace-scope';
+import { OwnershipService } from '../auth/ownership.service';
+import { MergeContactsDto } from './dto/contact-duplicate.dto';
+import { ContactHistoryService } from './contact-history.service';
+import { LinkedInProfileService } from './linkedin-profile.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { CrmEventsService } from '../events/crm-events.service';
+
+// Fields where the survivor's value wins unless it is empty
+const FILLABLE_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'jobTitle',
+  'linkedinUrl',
+  'twitterUrl',
+  'websiteUrl',
+  'profileImageUrl',
+  'leadSource',
+  'leadStatus',
+  'priority',
+  'companyId',
+] as const satisfies readonly (keyof Contact)[];
+
+@Injectable()
+export class ContactMergeService {
+  private readonly logger = new Logger(ContactMergeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly contactHistory: ContactHistoryService,
+    private readonly linkedInProfiles: LinkedInProfileService,
+    private readonly leadScoring: LeadScoringService,
+    private readonly events: CrmEventsService,
+    private readonly ownership: OwnershipService,
+  ) {}
+
+  /**
+   * Merge `mergedId` into `survivorId` and return the surviving contact.
+   */
+  async merge(user: AuthUser, dto: MergeContactsDto): Promise<Contact> {
+    const { survivorId, mergedId } = dto;
+
+    const contacts = await this.prisma.contact.findMany({
+      where: {
+        id: { in: [survivorId, mergedId] },
+        organizationId: user.organizationId,
+        ...workspaceCondition(user),
+      },
+    });
+    const survivor = contacts.find((contact) => contact.id === survivorId);
+    const merged = contacts.find((contact) => contact.id === mergedId);
+
+    if (!survivor || !merged) {
+      throw new NotFoundException('Contact not found');
+    }
+    await this.ownership.assertCanEdit(user, survivor, merged);
+
+    const data = this.buildSurvivorData(survivor, merged);
+    const [pairA, pairB] = survivorId < mergedId ? [survivorId, mergedId] : [mergedId, survivorId];
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      await tx.activity.updateMany({
+        where: { contactId: mergedId },
+        data: { contactId: survivorId },
+      });
+      await tx.deal.updateMany({
+        where: { contactId: mergedId },
+        data: { contactId: survivorId },
+      });
+      await tx.duplicateCandidate.updateMany({
+        where: { organizationId: user.organizationId, contactAId: pairA, contactBId: pairB },
+        data: { status: 'MERGED' },
+      });
+      await tx.duplicateCandidate.deleteMany({
+        where: {
+          organizationId: user.organizationId,
+          status: 'OPEN',
+          OR: [{ contactAId: mergedId }, { contactBId: mergedId }],
+        },
+      });
+      await tx.contact.delete({ where: { id: mergedId } });
+
+      const survivorUpdated = await tx.contact.update({ where: { id: survivorId }, data });
+      await this.contactHistory.recordChanges(
+        {
+          organizationId: user.organizationId,
+          contactId: survivorId,
+          source: 'MERGE',
+          actorId: user.userId,
+          before: survivor,
+          data,
+        },
+        tx,
+      );
+      await this.linkedInProfiles.syncFromContact(survivorUpdated, tx);
+
+      const note = await tx.activity.create({
+        data: {
+          organizationId: user.organizationId,
+          workspaceId: survivor.workspaceId,
+          contactId: survivorId,
+          companyId: survivor.companyId ?? merged.companyId,
+          type: 'NOTE',
+          title: 'Duplicate contact merged',
+          description: `Merged ${this.displayName(merged)} into this contact`,
+          status: 'COMPLETED',
+          completedAt: new Date(),
+          customFields: {
+            source: 'CONTACT_MERGE',
+            mergedContactId: mergedId,
+            mergedBy: user.userId,
+          },
+        },
+      });
+
+      const { organizationId } = user;
+      await this.events.emit({ organizationId, type: 'contact.deleted', data: merged }, tx);
+      await this.events.emit(
+        { organizationId, type: 'contact.updated', data: survivorUpdated, previous: survivor },
+        tx,
+      );
+      await this.events.emit({ organizationId, type: 'activity.created', data: note }, tx);
+
+      return survivorUpdated;
+    });
+
+    this.logger.log(`Merged contact ${mergedId} into ${survivorId}`);
+    this.leadScoring.recomputeInBackground(user.organizationId, [survivorId]);
+    return updated;
+  }
+
+  /**
+   * Apply the survivorship rules.
+   */
+  private buildSurvivorData(
+    survivor: Contact,
+    merged: Contact,
+  ): Prisma.ContactUncheckedUpdateInput {
+    const data: Prisma.ContactUncheckedUpdateInput = {};
+
+    for (const field of FILLABLE_FIELDS) {
+      if (this.isEmpty(survivor[field]) && !this.isEmpty(merged[field])) {
+        data[field] = merged[field];
+      }
+    }
+
+    data.isLead = survivor.isLead && merged.isLead;
+
+    const addedTags = merged.tags.filter((tag) => !survivor.tags.includes(tag));
+    if (addedTags.length > 0) {
+      data.tags = [...survivor.tags, ...addedTags];
+    }
+
+    const customFields = this.mergeCustomFields(
+      (survivor.customFields || {}) as Record<string, any>,
+      (merged.customFields || {}) as Record<string, any>,
+    );
+    const mergedIds: string[] = Array.isArray(customFields.mergedContactIds)
+      ? customFields.mergedContactIds
+      : [];
+    customFields.mergedContactIds = [...new Set([...mergedIds, merged.id])];
+    data.customFields = customFields as Prisma.InputJsonValue;
+
+    return data;
+  }
+
+  private mergeCustomFields(
+    survivor: Record<string, any>,
+    merged: Record<string, any>,
+  ): Record<string, any> {
+    const result: Record<string, any> = { ...survivor };
+
+    for (const [key, value] of Object.entries(merged)) {
+      const current = result[key];
+
+      if (this.isEmpty(current)) {
+        result[key] = value;
+      } else if (Array.isArray(current) && Array.isArray(value)) {
+        const seen = new Set(current.map((item) => JSON.stringify(item)));
+        result[key] = [
+          ...current,
+          ...value.filter((item) => !seen.has(JSON.stringify(item))),
+        ];
+      }
+    }
+
+    return result;
+  }
+
+  private isEmpty(value: unknown): boolean {
+    return (
+      value === null ||
+      value === undefined ||
+      (typeof value === 'string' && value.trim() === '') ||
+      (Array.isArray(value) && value.length === 0)
+    );
+  }
+
+  private displayName(contact: Contact): string {
+    const name = [contact.firstName, contact.lastName].filter(Boolean).join(' ');
+    return name || contact.email || contact.id;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * CONTACT SEARCH CONTROLLER
+ * =========================
+ * Contact search and the caller's saved views.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ContactSearchService } from './contact-search.service';
+import { ContactViewsService } from './contact-views.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { ROLES } from '../auth/roles';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import { CursorPaginationSchema } from '../../common/dto/pagination.dto';
+import type { CursorPaginationDto } from '../../common/dto/pagination.dto';
+import {
+  CreateContactViewSchema,
+  SearchContactsSchema,
+  UpdateContactViewSchema,
+} from './dto/contact-search.dto';
+import type {
+  CreateContactViewDto,
+  SearchContactsDto,
+  UpdateContactViewDto,
+} from './dto/contact-search.dto';
+
+@Controller('contacts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ContactSearchController {
+  constructor(
+    private readonly searchService: ContactSearchService,
+    private readonly viewsService: ContactViewsService,
+  ) {}
+
+  /**
+   * POST /contacts/search
+   *
+   * Full-text search (`q`) combined with structured filters.
+   */
+  @Post('search')
+  @Roles(...ROLES)
+  @HttpCode(HttpStatus.OK)
+  async search(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(SearchContactsSchema)) body: SearchContactsDto,
+  ) {
+    const { cursor, limit, ...filters } = body;
+    return this.searchService.search(user, filters, { cursor, limit });
+  }
+
+  /**
+   * GET /contacts/views
+   */
+  @Get('views')
+  async listViews(@CurrentUser() user: AuthUser) {
+    return this.viewsService.list(user);
+  }
+
+  /**
+   * POST /contacts/views
+   *
+   * Save a filter set as a named view.
+   */
+  @Post('views')
+  @Roles(...ROLES)
+  async createView(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(CreateContactViewSchema)) body: CreateContactViewDto,
+  ) {
+    return this.viewsService.create(user, body);
+  }
+
+  /**
+   * GET /contacts/views/:id
+   */
+  @Get('views/:id')
+  async getView(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.viewsService.get(user, id);
+  }
+
+  /**
+   * GET /contacts/views/:id/results
+   *
+   * Run a saved view.
+   */
+  @Get('views/:id/results')
+  async runView(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query(new ZodValidationPipe(CursorPaginationSchema)) query: CursorPaginationDto,
+  ) {
+    return this.viewsService.run(user, id, query);
+  }
+
+  /**
+   * PATCH /contacts/views/:id
+   */
+  @Patch('views/:id')
+  @Roles(...ROLES)
+  async updateView(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(UpdateContactViewSchema)) body: UpdateContactViewDto,
+  ) {
+    return this.viewsService.update(user, id, body);
+  }
+
+  /**
+   * DELETE /contacts/views/:id
+   */
+  @Delete('views/:id')
+  @Roles(...ROLES)
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async removeView(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.viewsService.remove(user, id);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * CONTACT SEARCH SERVICE
+ * ======================
+ * Full-text search over name, email, job title and LinkedIn headline,
+ * combined with structured filters. Runs against the trigger-maintained
+ * contacts.search_vector column (GIN indexed).
+ *
+ * Results are ordered newest first so cursors behave like the list API,
+ * and limited to the caller's workspaces like the list API.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Contact, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { workspaceSqlCondition } from '../auth/workspace-scope';
+import {
+  CursorPaginationDto,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import { ContactSearchFiltersDto } from './dto/contact-search.dto';
+
+@Injectable()
+export class ContactSearchService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async search(
+    user: AuthUser,
+    filters: ContactSearchFiltersDto,
+    page: CursorPaginationDto,
+  ): Promise<PaginatedResult<Contact>> {
+    const conditions = this.buildConditions(user, filters);
+
+    if (page.cursor) {
+      conditions.push(Prisma.sql`(c.created_at, c.id) < (
+        SELECT created_at, id FROM crm.contacts
+        WHERE id = ${page.cursor}::uuid AND organization_id = ${user.organizationId}::uuid
+      )`);
+    }
+
+    const matches = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT c.id
+      FROM crm.contacts c
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY c.created_at DESC, c.id DESC
+      LIMIT ${page.limit + 1}
+    `;
+
+    const ids = matches.map((match) => match.id);
+    const contacts = await this.prisma.contact.findMany({
+      where: { id: { in: ids } },
+    });
+
+    const byId = new Map(contacts.map((contact) => [contact.id, contact]));
+    const rows = ids.flatMap((id) => byId.get(id) ?? []);
+
+    return toPaginatedResult(rows, page.limit);
+  }
+
+  private buildConditions(user: AuthUser, filters: ContactSearchFiltersDto): Prisma.Sql[] {
+    const conditions = [
+      Prisma.sql`c.organization_id = ${user.organizationId}::uuid`,
+      workspaceSqlCondition(user, 'c'),
+    ];
+
+    const tsQuery = filters.q ? this.toTsQuery(filters.q) : null;
+    if (tsQuery) {
+      conditions.push(Prisma.sql`c.search_vector @@ to_tsquery('simple', ${tsQuery})`);
+    }
+
+    if (filters.leadStatus) {
+      conditions.push(Prisma.sql`c.lead_status IN (${Prisma.join(filters.leadStatus)})`);
+    }
+    if (filters.leadSource) {
+      conditions.push(Prisma.sql`c.lead_source IN (${Prisma.join(filters.leadSource)})`);
+    }
+    if (filters.priority) {
+      conditions.push(Prisma.sql`c.priority IN (${Prisma.join(filters.priority)})`);
+    }
+    if (filters.companyId) {
+      const companyIds = filters.companyId.map((id) => Prisma.sql`${id}::uuid`);
+      conditions.push(Prisma.sql`c.company_id IN (${Prisma.join(companyIds)})`);
+    }
+    if (filters.leadScoreMin !== undefined) {
+      conditions.push(Prisma.sql`c.lead_score >= ${filters.leadScoreMin}`);
+    }
+    if (filters.leadScoreMax !== undefined) {
+      conditions.push(Prisma.sql`c.lead_score <= ${filters.leadScoreMax}`);
+    }
+    if (filters.isLead !== undefined) {
+      conditions.push(Prisma.sql`c.is_lead = ${filters.isLead}`);
+    }
+    if (filters.tags) {
+      conditions.push(Prisma.sql`c.tags @> ${filters.tags}::text[]`);
+    }
+    if (filters.customFields && Object.keys(filters.customFields).length > 0) {
+      conditions.push(Prisma.sql`c.custom_fields @> ${JSON.stringify(filters.customFields)}::jsonb`);
+    }
+    if (filters.createdAfter) {
+      conditions.push(Prisma.sql`c.created_at >= ${filters.createdAfter}`);
+    }
+    if (filters.createdBefore) {
+      conditions.push(Prisma.sql`c.created_at < ${filters.createdBefore}`);
+    }
+    if (filters.updatedAfter) {
+      conditions.push(Prisma.sql`c.updated_at >= ${filters.updatedAfter}`);
+    }
+    if (filters.updatedBefore) {
+      conditions.push(Prisma.sql`c.updated_at < ${filters.updatedBefore}`);
+    }
+
+    return conditions;
+  }
+
+  /**
+   * Turn free text into a prefix tsquery: "jane acme" -> "jane:* & acme:*".
+   * tsquery operators are stripped so user input can't break the query.
+   */
+  private toTsQuery(text: string): string | null {
+    const terms = text
+      .replace(/[&|!():*<>'\\]/g, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .slice(0, 10);
+
+    return terms.length > 0 ? terms.map((term) => `${term}:*`).join(' & ') : null;
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * CONTACT VIEWS SERVICE
+ * =====================
+ * Saved contact searches. Views are private to the user who saved them.
+ */
+
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Contact, ContactView, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import {
+  CursorPaginationDto,
+  PaginatedResult,
+} from '../../common/dto/pagination.dto';
+import {
+  ContactSearchFiltersSchema,
+  CreateContactViewDto,
+  UpdateContactViewDto,
+} from './dto/contact-search.dto';
+import { ContactSearchService } from './contact-search.service';
+
+@Injectable()
+export class ContactViewsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly contactSearch: ContactSearchService,
+  ) {}
+
+  async list(user: AuthUser): Promise<ContactView[]> {
+    return this.prisma.contactView.findMany({
+      where: { organizationId: user.organizationId, userId: user.userId },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async get(user: AuthUser, id: string): Promise<ContactView> {
+    const view = await this.prisma.contactView.findFirst({
+      where: { id, organizationId: user.organizationId, userId: user.userId },
+    });
+
+    if (!view) {
+      throw new NotFoundException('View not found');
+    }
+
+    return view;
+  }
+
+  async create(user: AuthUser, dto: CreateContactViewDto): Promise<ContactView> {
+    return this.withUniqueName(() =>
+      this.prisma.contactView.create({
+        data: {
+          organizationId: user.organizationId,
+          userId: user.userId,
+          name: dto.name,
+          filters: dto.filters as Prisma.InputJsonValue,
+        },
+      }),
+    );
+  }
+
+  async update(user: AuthUser, id: string, dto: UpdateContactViewDto): Promise<ContactView> {
+    await this.get(user, id);
+
+    return this.withUniqueName(() =>
+      this.prisma.contactView.update({
+        where: { id },
+        data: {
+          ...(dto.name !== undefined ? { name: dto.name } : {}),
+          ...(dto.filters !== undefined
+            ? { filters: dto.filters as Prisma.InputJsonValue }
+            : {}),
+        },
+      }),
+    );
+  }
+
+  async remove(user: AuthUser, id: string): Promise<void> {
+    await this.get(user, id);
+    await this.prisma.contactView.delete({ where: { id } });
+  }
+
+  /**
+   * Run a saved view's search. Filters saved before a validation change
+   * may no longer parse; that is reported as a conflict, not a crash.
+   */
+  async run(
+    user: AuthUser,
+    id: string,
+    page: CursorPaginationDto,
+  ): Promise<PaginatedResult<Contact>> {
+    const view = await this.get(user, id);
+    const filters = ContactSearchFiltersSchema.safeParse(view.filters);
+    if (!filters.success) {
+      const issue = filters.error.errors[0];
+      throw new ConflictException(
+        `View filters are no longer valid (${issue?.path.join('.') || 'filters'}: ` +
+          `${issue?.message ?? 'invalid value'}); update the view`,
+      );
+    }
+
+    return this.contactSearch.search(user, filters.data, page);
+  }
+
+  private async withUniqueName(write: () => Promise<ContactView>): Promise<ContactView> {
+    try {
+      return await write();
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('A view with this name already exists');
+      }
+      throw error;
+    }
+  }
+}
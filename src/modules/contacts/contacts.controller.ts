@@ -0,0 +1,156 @@
+/**
+ * CONTACTS CONTROLLER
+ * ===================
+ * REST endpoints for CRM contacts, scoped to the caller's tenant.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ContactsService } from './contacts.service';
+import { ContactHistoryService } from './contact-history.service';
+import { LeadConversionService } from './lead-conversion.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  CreateContactSchema,
+  ListContactsQuerySchema,
+  UpdateContactSchema,
+} from './dto/contact.dto';
+import { ListContactHistoryQuerySchema } from './dto/contact-history.dto';
+import { ConvertLeadSchema } from './dto/lead-conversion.dto';
+import type { ConvertLeadDto } from './dto/lead-conversion.dto';
+import type { ListContactHistoryQueryDto } from './dto/contact-history.dto';
+import type {
+  CreateContactDto,
+  ListContactsQueryDto,
+  UpdateContactDto,
+} from './dto/contact.dto';
+
+@Controller('contacts')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ContactsController {
+  constructor(
+    private readonly contactsService: ContactsService,
+    private readonly contactHistory: ContactHistoryService,
+    private readonly leadConversion: LeadConversionService,
+  ) {}
+
+  /**
+   * GET /contacts
+   *
+   * List contacts with optional filters and cursor pagination.
+   */
+  @Get()
+  async list(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ListContactsQuerySchema)) query: ListContactsQueryDto,
+  ) {
+    return this.contactsService.list(user, query);
+  }
+
+  /**
+   * GET /contacts/:id
+   */
+  @Get(':id')
+  async get(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.contactsService.get(user, id);
+  }
+
+  /**
+   * POST /contacts
+   */
+  @Post()
+  async create(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(CreateContactSchema)) body: CreateContactDto,
+  ) {
+    return this.contactsService.create(user, body);
+  }
+
+  /**
+   * PATCH /contacts/:id
+   */
+  @Patch(':id')
+  async update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(UpdateContactSchema)) body: UpdateContactDto,
+  ) {
+    return this.contactsService.update(user, id, body);
+  }
+
+  /**
+   * POST /contacts/:id/convert
+   *
+   * Convert a qualified lead into a customer, optionally linking or
+   * creating a company and opening a deal.
+   */
+  @Post(':id/convert')
+  @HttpCode(HttpStatus.OK)
+  async convert(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(ConvertLeadSchema)) body: ConvertLeadDto,
+  ) {
+    return this.leadConversion.convert(user, id, body);
+  }
+
+  /**
+   * GET /contacts/:id/history
+   *
+   * Field-level change history with source, previous value and timestamp.
+   */
+  @Get(':id/history')
+  async listHistory(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query(new ZodValidationPipe(ListContactHistoryQuerySchema)) query: ListContactHistoryQueryDto,
+  ) {
+    return this.contactHistory.list(user, id, query);
+  }
+
+  /**
+   * POST /contacts/:id/history/:changeId/revert
+   *
+   * Restore the field to its value before the given change.
+   */
+  @Post(':id/history/:changeId/revert')
+  @HttpCode(HttpStatus.OK)
+  async revertChange(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('changeId', ParseUUIDPipe) changeId: string,
+  ) {
+    return this.contactsService.revertChange(user, id, changeId);
+  }
+
+  /**
+   * DELETE /contacts/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.contactsService.remove(user, id);
+  }
+}
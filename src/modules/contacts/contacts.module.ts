@@ -1,3 +1,47 @@
+/**
+ * CONTACTS MODULE
+ * ===============
+ * CRM contacts REST API, search and saved views, lead conversion, change
+ * history, duplicate detection and merging, and the typed LinkedIn profile tables.
+ */
+
 import { Module } from '@nestjs/common';
-@Module({})
+import { AuthModule } from '../auth/auth.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { EventsModule } from '../events/events.module';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
+import { PipelinesModule } from '../pipelines/pipelines.module';
+import { ContactsController } from './contacts.controller';
+import { ContactsService } from './contacts.service';
+import { ContactDuplicatesController } from './contact-duplicates.controller';
+import { ContactSearchController } from './contact-search.controller';
+import { ContactSearchService } from './contact-search.service';
+import { ContactViewsService } from './contact-views.service';
+import { ContactDuplicatesService } from './contact-duplicates.service';
+import { ContactMergeService } from './contact-merge.service';
+import { ContactHistoryService } from './contact-history.service';
+import { LinkedInProfileService } from './linkedin-profile.service';
+import { LeadConversionService } from './lead-conversion.service';
+
+@Module({
+  imports: [AuthModule, CustomFieldsModule, EventsModule, LeadScoringModule, PipelinesModule],
+  // Static routes (duplicates, merge, search, views) must be registered before contacts/:id
+  controllers: [ContactDuplicatesController, ContactSearchController, ContactsController],
+  providers: [
+    ContactsService,
+    ContactDuplicatesService,
+    ContactMergeService,
+    ContactHistoryService,
+    LinkedInProfileService,
+    ContactSearchService,
+    ContactViewsService,
+    LeadConversionService,
+  ],
+  exports: [
+    ContactsService,
+    ContactMergeService,
+    ContactHistoryService,
+    LinkedInProfileService,
+  ],
+})
 export class ContactsModule {}
@@ -0,0 +1,415 @@
+/**
+ * CONTACTS SERVICE
+ * ================
+ * Tenant-scoped CRUD for CRM contacts.
+ * Every query is filtered by the caller's organization and workspaces.
+ * Field changes are recorded in the contact history as API_USER changes.
+ * Lead status changes must follow the lead status state machine.
+ * Changes need edit rights on the contact (see OwnershipService).
+ * Writes publish contact.* events in the same transaction.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Contact, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import {
+  canAccessWorkspace,
+  resolveWorkspaceId,
+  workspaceCondition,
+  workspaceSqlCondition,
+} from '../auth/workspace-scope';
+import { OwnershipService } from '../auth/ownership.service';
+import {
+  cursorArgs,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import {
+  CreateContactDto,
+  ListContactsQueryDto,
+  UpdateContactDto,
+  UpdateContactSchema,
+} from './dto/contact.dto';
+import { ContactHistoryService } from './contact-history.service';
+import { LinkedInProfileService } from './linkedin-profile.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { CrmEventsService } from '../events/crm-events.service';
+import { CustomFieldValuesService } from '../custom-fields/custom-field-values.service';
+import { canTransitionLeadStatus, LeadStatus, toLeadStatus } from './lead-status';
+
+const CONVERT_ENDPOINT_MESSAGE = 'Leads are converted with POST /contacts/:id/convert';
+
+@Injectable()
+export class ContactsService {
+  private readonly logger = new Logger(ContactsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly contactHistory: ContactHistoryService,
+    private readonly linkedInProfiles: LinkedInProfileService,
+    private readonly leadScoring: LeadScoringService,
+    private readonly events: CrmEventsService,
+    private readonly customFieldValues: CustomFieldValuesService,
+    private readonly ownership: OwnershipService,
+  ) {}
+
+  /**
+   * List contacts, newest first or by a custom field, using cursor pagination.
+   */
+  async list(
+    user: AuthUser,
+    query: ListContactsQueryDto,
+  ): Promise<PaginatedResult<Contact>> {
+    if (query.sort) {
+      return this.customFieldValues.listSorted(
+        user.organizationId,
+        'CONTACT',
+        query.sort,
+        query,
+        await this.buildSqlConditions(user, query),
+        (ids) => this.prisma.contact.findMany({ where: { id: { in: ids } } }),
+      );
+    }
+
+    const where = await this.buildWhere(user, query);
+
+    const rows = await this.prisma.contact.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPaginatedResult(rows, query.limit);
+  }
+
+  /**
+   * Get a single contact with its company, if the caller can see it.
+   */
+  async get(user: AuthUser, id: string) {
+    const contact = await this.prisma.contact.findFirst({
+      where: { id, organizationId: user.organizationId, ...workspaceCondition(user) },
+      include: { company: true },
+    });
+
+    if (!contact) {
+      throw new NotFoundException('Contact not found');
+    }
+
+    const { company } = contact;
+    return {
+      ...contact,
+      company: company && canAccessWorkspace(user, company.workspaceId) ? company : null,
+    };
+  }
+
+  /**
+   * Create a contact in the caller's organization.
+   */
+  async create(user: AuthUser, dto: CreateContactDto): Promise<Contact> {
+    if (dto.leadStatus === 'CONVERTED') {
+      throw new BadRequestException(CONVERT_ENDPOINT_MESSAGE);
+    }
+    if (dto.companyId) {
+      await this.assertCompanyInTenant(user, dto.companyId);
+    }
+    const customFields = await this.customFieldValues.validateForCreate(
+      user.organizationId,
+      'CONTACT',
+      dto.customFields,
+    );
+
+    const data = this.toData({
+      ...dto,
+      customFields,
+      workspaceId: resolveWorkspaceId(user, dto.workspaceId),
+      ownerId: await this.ownership.resolveOwnerId(user, dto.ownerId),
+    });
+
+    const contact = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.contact.create({
+        data: { ...data, organizationId: user.organizationId },
+      });
+
+      await this.contactHistory.recordChanges(
+        {
+          organizationId: user.organizationId,
+          contactId: created.id,
+          source: 'API_USER',
+          actorId: user.userId,
+          before: {},
+          data,
+        },
+        tx,
+      );
+      await this.linkedInProfiles.syncFromContact(created, tx);
+      await this.events.emit(
+        { organizationId: user.organizationId, type: 'contact.created', data: created },
+        tx,
+      );
+
+      return created;
+    });
+
+    this.logger.log(`Created contact ${contact.id}`);
+    this.leadScoring.recomputeInBackground(user.organizationId, [contact.id]);
+    return contact;
+  }
+
+  /**
+   * Update a contact. Only provided fields are changed.
+   * `revert` is set when the update reverts a history change.
+   */
+  async update(
+    user: AuthUser,
+    id: string,
+    dto: UpdateContactDto,
+    revert?: { changeId: string; reservedCustomFields?: Record<string, unknown> },
+  ): Promise<Contact> {
+    const { company: _company, ...existing } = await this.get(user, id);
+    await this.ownership.assertCanEdit(user, existing);
+
+    if (dto.leadStatus !== undefined) {
+      this.assertLeadStatusTransition(existing.leadStatus, dto.leadStatus);
+    }
+    if (dto.companyId) {
+      await this.assertCompanyInTenant(user, dto.companyId);
+    }
+    let customFields = await this.customFieldValues.validateForUpdate(
+      user.organizationId,
+      'CONTACT',
+      dto.customFields,
+      existing.customFields,
+    );
+    if (revert?.reservedCustomFields) {
+      const current = customFields === undefined ? existing.customFields : customFields;
+      const restored = {
+        ...((current ?? {}) as Record<string, unknown>),
+        ...revert.reservedCustomFields,
+      };
+      customFields = Object.fromEntries(
+        Object.entries(restored).filter(([, value]) => value !== null),
+      );
+    }
+
+    const data = this.toData({
+      ...dto,
+      customFields,
+      ...(dto.workspaceId !== undefined
+        ? { workspaceId: resolveWorkspaceId(user, dto.workspaceId) }
+        : {}),
+      ...(dto.ownerId !== undefined
+        ? { ownerId: await this.ownership.resolveOwnerId(user, dto.ownerId) }
+        : {}),
+    });
+
+    const contact = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.contact.update({ where: { id }, data });
+
+      await this.contactHistory.recordChanges(
+        {
+          organizationId: user.organizationId,
+          contactId: id,
+          source: 'API_USER',
+          actorId: user.userId,
+          before: existing,
+          data,
+          revertedChangeId: revert?.changeId,
+        },
+        tx,
+      );
+      if (customFields !== undefined) {
+        await this.linkedInProfiles.syncFromContact(updated, tx);
+      }
+      await this.events.emit(
+        {
+          organizationId: user.organizationId,
+          type: 'contact.updated',
+          data: updated,
+          previous: existing,
+        },
+        tx,
+      );
+
+      return updated;
+    });
+
+    this.leadScoring.recomputeInBackground(user.organizationId, [id]);
+    return contact;
+  }
+
+  /**
+   * Restore a field to its value before the given history change. The
+   * revert is an API_USER update with the usual checks; a previous value
+   * that is no longer valid is rejected.
+   */
+  async revertChange(user: AuthUser, id: string, changeId: string): Promise<Contact> {
+    const { company: _company, ...existing } = await this.get(user, id);
+    const change = await this.contactHistory.getChange(user, id, changeId);
+    const revert = this.contactHistory.buildRevert(existing, change);
+
+    const parsed = UpdateContactSchema.safeParse(revert.dto);
+    if (!parsed.success) {
+      throw new ConflictException(
+        `Cannot revert ${change.field}: ${parsed.error.errors[0]?.message ?? 'invalid value'}`,
+      );
+    }
+
+    return this.update(user, id, parsed.data, {
+      changeId: change.id,
+      reservedCustomFields: revert.reservedCustomFields,
+    });
+  }
+
+  /**
+   * Delete a contact. Linked activities and deals are detached, not removed.
+   */
+  async remove(user: AuthUser, id: string): Promise<void> {
+    const { company: _company, ...existing } = await this.get(user, id);
+    await this.ownership.assertCanEdit(user, existing);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.activity.updateMany({
+        where: { contactId: id },
+        data: { contactId: null },
+      });
+      await tx.deal.updateMany({
+        where: { contactId: id },
+        data: { contactId: null },
+      });
+      await tx.contact.delete({ where: { id } });
+
+      await this.events.emit(
+        { organizationId: user.organizationId, type: 'contact.deleted', data: existing },
+        tx,
+      );
+    });
+
+    this.logger.log(`Deleted contact ${id}`);
+  }
+
+  /**
+   * Build the where clause for list queries. Also used by exports.
+   */
+  async buildWhere(
+    user: AuthUser,
+    query: Omit<ListContactsQueryDto, 'cursor' | 'limit' | 'sort'>,
+  ): Promise<Prisma.ContactWhereInput> {
+    const where: Prisma.ContactWhereInput = {
+      organizationId: user.organizationId,
+    };
+
+    if (query.companyId) where.companyId = query.companyId;
+    if (query.ownerId) where.ownerId = query.ownerId;
+    if (query.leadStatus) where.leadStatus = query.leadStatus;
+    if (query.isLead !== undefined) where.isLead = query.isLead;
+    if (query.skill) where.linkedinProfile = { skills: { has: query.skill } };
+
+    if (query.search) {
+      const contains = { contains: query.search, mode: 'insensitive' as const };
+      where.OR = [
+        { firstName: contains },
+        { lastName: contains },
+        { email: contains },
+        { jobTitle: contains },
+      ];
+    }
+
+    const customFieldFilters = await this.customFieldValues.buildFilters(
+      user.organizationId,
+      'CONTACT',
+      query.cf,
+    );
+    where.AND = [workspaceCondition(user), ...customFieldFilters];
+
+    return where;
+  }
+
+  /**
+   * buildWhere() as SQL conditions on crm.contacts aliased `t`, for lists
+   * sorted by a custom field.
+   */
+  private async buildSqlConditions(
+    user: AuthUser,
+    query: ListContactsQueryDto,
+  ): Promise<Prisma.Sql[]> {
+    const conditions = [workspaceSqlCondition(user, 't')];
+
+    if (query.companyId) conditions.push(Prisma.sql`t.company_id = ${query.companyId}::uuid`);
+    if (query.ownerId) conditions.push(Prisma.sql`t.owner_id = ${query.ownerId}::uuid`);
+    if (query.leadStatus) conditions.push(Prisma.sql`t.lead_status = ${query.leadStatus}`);
+    if (query.isLead !== undefined) conditions.push(Prisma.sql`t.is_lead = ${query.isLead}`);
+    if (query.skill) {
+      conditions.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM crm.linkedin_profiles p
+        WHERE p.contact_id = t.id AND ${query.skill} = ANY(p.skills)
+      )`);
+    }
+
+    if (query.search) {
+      const pattern = `%${query.search}%`;
+      conditions.push(Prisma.sql`(t.first_name ILIKE ${pattern} OR t.last_name ILIKE ${pattern}
+        OR t.email ILIKE ${pattern} OR t.job_title ILIKE ${pattern})`);
+    }
+
+    const customFieldFilters = await this.customFieldValues.buildSqlFilters(
+      user.organizationId,
+      'CONTACT',
+      query.cf,
+      't',
+    );
+    return [...conditions, ...customFieldFilters];
+  }
+
+  /**
+   * Map a validated DTO to Prisma data. Emails are stored lowercased
+   * so ContactMatcherService can match them.
+   */
+  private toData(
+    dto: UpdateContactDto,
+  ): Omit<Prisma.ContactUncheckedCreateInput, 'organizationId'> {
+    const { customFields, email, ...rest } = dto;
+
+    return {
+      ...rest,
+      ...(email !== undefined ? { email: email?.toLowerCase() ?? null } : {}),
+      ...(customFields !== undefined
+        ? { customFields: customFields ?? Prisma.DbNull }
+        : {}),
+    };
+  }
+
+  private assertLeadStatusTransition(from: string | null, to: LeadStatus | null): void {
+    if (to === toLeadStatus(from)) {
+      return;
+    }
+    if (to === 'CONVERTED') {
+      throw new BadRequestException(CONVERT_ENDPOINT_MESSAGE);
+    }
+    if (to === null || !canTransitionLeadStatus(from, to)) {
+      throw new BadRequestException(
+        `Cannot change lead status from ${toLeadStatus(from)} to ${to}`,
+      );
+    }
+  }
+
+  private async assertCompanyInTenant(
+    user: AuthUser,
+    companyId: string,
+  ): Promise<void> {
+    const company = await this.prisma.company.findFirst({
+      where: { id: companyId, organizationId: user.organizationId, ...workspaceCondition(user) },
+      select: { id: true },
+    });
+
+    if (!company) {
+      throw new BadRequestException('Company not found');
+    }
+  }
+}
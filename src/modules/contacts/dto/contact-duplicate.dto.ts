@@ -0,0 +1,33 @@
+/**
+ * CONTACT DUPLICATE DTOs
+ * ======================
+ * Request schemas for duplicate detection and contact merging.
+ */
+
+import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+
+// List duplicate candidates query
+export const ListDuplicatesQuerySchema = CursorPaginationSchema.extend({
+  status: z.enum(['OPEN', 'MERGED', 'DISMISSED']).default('OPEN'),
+  minScore: z.coerce.number().int().min(0).max(100).optional(),
+});
+
+export type ListDuplicatesQueryDto = z.infer<typeof ListDuplicatesQuerySchema>;
+
+// Merge two contacts: mergedId is folded into survivorId and deleted
+export const MergeContactsSchema = z
+  .object({
+    survivorId: z.string().uuid(),
+    mergedId: z.string().uuid(),
+  })
+  .refine((body) => body.survivorId !== body.mergedId, {
+    message: 'Cannot merge a contact into itself',
+  });
+
+export type MergeContactsDto = z.infer<typeof MergeContactsSchema>;
+
+export interface DuplicateReasonDto {
+  signal: 'URN_ID' | 'LINKEDIN_URL' | 'EMAIL' | 'PHONE' | 'NAME' | 'COMPANY';
+  weight: number;
+}
@@ -0,0 +1,31 @@
+/**
+ * CONTACT HISTORY DTOs
+ * ====================
+ * Field-level change history (provenance) for contacts.
+ */
+
+import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+
+export const CONTACT_CHANGE_SOURCES = [
+  'OUTREACH_SYNC',
+  'API_USER',
+  'IMPORT',
+  'MERGE',
+] as const;
+
+export type ContactChangeSource = (typeof CONTACT_CHANGE_SOURCES)[number];
+
+// List history query
+export const ListContactHistoryQuerySchema = CursorPaginationSchema.extend({
+  field: z.string().min(1).optional(),
+  source: z.enum(CONTACT_CHANGE_SOURCES).optional(),
+});
+
+export type ListContactHistoryQueryDto = z.infer<typeof ListContactHistoryQuerySchema>;
+
+export interface ContactFieldDiff {
+  field: string;
+  previousValue: unknown;
+  newValue: unknown;
+}
@@ -0,0 +1,52 @@
+/**
+ * CONTACT SEARCH DTOs
+ * ===================
+ * Full-text contact search with structured filters, and saved views.
+ */
+
+import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+
+const nonEmptyList = <T extends z.ZodTypeAny>(item: T) => z.array(item).min(1).max(100).optional();
+
+// Filters shared by ad-hoc searches and saved views
+export const ContactSearchFiltersSchema = z
+  .object({
+    q: z.string().trim().min(1).max(200).optional(),
+    leadStatus: nonEmptyList(z.string()),
+    leadSource: nonEmptyList(z.string()),
+    priority: nonEmptyList(z.string()),
+    leadScoreMin: z.number().int().optional(),
+    leadScoreMax: z.number().int().optional(),
+    companyId: nonEmptyList(z.string().uuid()),
+    isLead: z.boolean().optional(),
+    // Contacts must have every tag
+    tags: nonEmptyList(z.string()),
+    // Exact matches on customFields keys
+    customFields: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+    createdAfter: z.coerce.date().optional(),
+    createdBefore: z.coerce.date().optional(),
+    updatedAfter: z.coerce.date().optional(),
+    updatedBefore: z.coerce.date().optional(),
+  })
+  .strict();
+
+export type ContactSearchFiltersDto = z.infer<typeof ContactSearchFiltersSchema>;
+
+// Search request
+export const SearchContactsSchema = ContactSearchFiltersSchema.merge(CursorPaginationSchema);
+
+export type SearchContactsDto = z.infer<typeof SearchContactsSchema>;
+
+// Create saved view request
+export const CreateContactViewSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  filters: ContactSearchFiltersSchema,
+});
+
+export type CreateContactViewDto = z.infer<typeof CreateContactViewSchema>;
+
+// Update saved view request
+export const UpdateContactViewSchema = CreateContactViewSchema.partial();
+
+export type UpdateContactViewDto = z.infer<typeof UpdateContactViewSchema>;
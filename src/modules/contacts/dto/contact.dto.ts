@@ -0,0 +1,57 @@
+/**
+ * CONTACT DTOs
+ * ============
+ * Request schemas for the contacts REST API.
+ */
+
+import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+import { CustomFieldListQuerySchema } from '../../custom-fields/dto/custom-field.dto';
+import { LEAD_STATUSES } from '../lead-status';
+
+const optionalUrl = z.string().url().nullable().optional();
+
+// Create contact request
+export const CreateContactSchema = z.object({
+  workspaceId: z.string().uuid().nullable().optional(),
+  // Defaults to the caller; see OwnershipService for who can be assigned
+  ownerId: z.string().uuid().nullable().optional(),
+  firstName: z.string().max(255).nullable().optional(),
+  lastName: z.string().max(255).nullable().optional(),
+  email: z.string().email().nullable().optional(),
+  phone: z.string().max(50).nullable().optional(),
+  jobTitle: z.string().max(255).nullable().optional(),
+  linkedinUrl: optionalUrl,
+  twitterUrl: optionalUrl,
+  websiteUrl: optionalUrl,
+  profileImageUrl: optionalUrl,
+  isLead: z.boolean().optional(),
+  leadSource: z.string().max(100).nullable().optional(),
+  leadStatus: z.enum(LEAD_STATUSES).nullable().optional(),
+  priority: z.string().max(50).nullable().optional(),
+  tags: z.array(z.string().trim().min(1).max(50)).max(50).optional(),
+  customFields: z.record(z.any()).nullable().optional(),
+  companyId: z.string().uuid().nullable().optional(),
+});
+
+export type CreateContactDto = z.infer<typeof CreateContactSchema>;
+
+// Update contact request - every field optional
+export const UpdateContactSchema = CreateContactSchema.partial();
+
+export type UpdateContactDto = z.infer<typeof UpdateContactSchema>;
+
+// List contacts query
+export const ListContactsQuerySchema = CursorPaginationSchema.extend({
+  search: z.string().trim().min(1).optional(),
+  companyId: z.string().uuid().optional(),
+  ownerId: z.string().uuid().optional(),
+  leadStatus: z.string().optional(),
+  skill: z.string().trim().min(1).optional(),
+  isLead: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+}).merge(CustomFieldListQuerySchema);
+
+export type ListContactsQueryDto = z.infer<typeof ListContactsQuerySchema>;
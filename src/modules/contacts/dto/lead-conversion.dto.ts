@@ -0,0 +1,34 @@
+/**
+ * LEAD CONVERSION DTOs
+ * ====================
+ * Request schema for converting a lead into a customer.
+ */
+
+import { z } from 'zod';
+import { CreateCompanySchema } from '../../companies/dto/company.dto';
+import { CreateDealSchema } from '../../deals/dto/deal.dto';
+
+// Convert lead request
+export const ConvertLeadSchema = z
+  .object({
+    // Link an existing company...
+    companyId: z.string().uuid().optional(),
+    // ...or create one
+    company: CreateCompanySchema.omit({ workspaceId: true, ownerId: true }).optional(),
+    // Open a deal in the pipeline's first open stage
+    deal: CreateDealSchema.pick({
+      title: true,
+      value: true,
+      currency: true,
+      pipelineId: true,
+      expectedCloseDate: true,
+      customFields: true,
+    }).optional(),
+    note: z.string().max(5000).optional(),
+  })
+  .refine((dto) => !(dto.companyId && dto.company), {
+    message: 'Provide either companyId or company, not both',
+    path: ['company'],
+  });
+
+export type ConvertLeadDto = z.infer<typeof ConvertLeadSchema>;
@@ -0,0 +1,223 @@
+/**
+ * LEAD CONVERSION SERVICE
+ * =======================
+ * Converts a qualified lead into a customer in one transaction:
+ * - isLead=false, leadStatus=CONVERTED
+ * - optionally links an existing company or creates one
+ * - optionally opens a deal in the pipeline's first open stage
+ * - logs a NOTE activity describing the conversion
+ * Custom fields of the new company and deal are validated like any API write.
+ * The caller needs edit rights on the lead and owns the records created.
+ * Every record written is published as a CRM event.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Company, Contact, Deal } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { workspaceCondition } from '../auth/workspace-scope';
+import { OwnershipService } from '../auth/ownership.service';
+import { PipelinesService } from '../pipelines/pipelines.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { CrmEventsService } from '../events/crm-events.service';
+import { CustomFieldValuesService } from '../custom-fields/custom-field-values.service';
+import { ContactHistoryService } from './contact-history.service';
+import { ConvertLeadDto } from './dto/lead-conversion.dto';
+import { canTransitionLeadStatus, toLeadStatus } from './lead-status';
+
+export interface LeadConversionResult {
+  contact: Contact;
+  company: Company | null;
+  deal: Deal | null;
+}
+
+@Injectable()
+export class LeadConversionService {
+  private readonly logger = new Logger(LeadConversionService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pipelinesService: PipelinesService,
+    private readonly contactHistory: ContactHistoryService,
+    private readonly leadScoring: LeadScoringService,
+    private readonly events: CrmEventsService,
+    private readonly customFieldValues: CustomFieldValuesService,
+    private readonly ownership: OwnershipService,
+  ) {}
+
+  async convert(
+    user: AuthUser,
+    contactId: string,
+    dto: ConvertLeadDto,
+  ): Promise<LeadConversionResult> {
+    const contact = await this.prisma.contact.findFirst({
+      where: { id: contactId, organizationId: user.organizationId, ...workspaceCondition(user) },
+    });
+    if (!contact) {
+      throw new NotFoundException('Contact not found');
+    }
+    await this.ownership.assertCanEdit(user, contact);
+
+    if (!contact.isLead) {
+      throw new ConflictException('Contact is not a lead');
+    }
+    if (!canTransitionLeadStatus(contact.leadStatus, 'CONVERTED')) {
+      throw new ConflictException(
+        `Only QUALIFIED leads can be converted (status is ${toLeadStatus(contact.leadStatus)})`,
+      );
+    }
+
+    if (dto.companyId) {
+      const company = await this.prisma.company.findFirst({
+        where: {
+          id: dto.companyId,
+          organizationId: user.organizationId,
+          ...workspaceCondition(user),
+        },
+        select: { id: true },
+      });
+      if (!company) {
+        throw new BadRequestException('Company not found');
+      }
+    }
+
+    // Resolved up front: the default pipeline may be seeded on first use
+    const pipeline = dto.deal
+      ? await this.pipelinesService.resolvePipeline(
+          user.organizationId,
+          dto.deal.pipelineId,
+          contact.workspaceId,
+        )
+      : null;
+    const stage = pipeline ? this.pipelinesService.getFirstOpenStage(pipeline) : undefined;
+    if (pipeline && !stage) {
+      throw new BadRequestException(`Pipeline ${pipeline.name} has no open stage`);
+    }
+
+    const companyCustomFields = dto.company
+      ? await this.customFieldValues.validateForCreate(
+          user.organizationId,
+          'COMPANY',
+          dto.company.customFields,
+        )
+      : undefined;
+    const dealCustomFields = dto.deal
+      ? await this.customFieldValues.validateForCreate(
+          user.organizationId,
+          'DEAL',
+          dto.deal.customFields,
+        )
+      : undefined;
+
+    const result = await this.prisma.$transaction(async (tx) => {
+      // Claim the lead first, so concurrent conversions can't both create records
+      const claimed = await tx.contact.updateMany({
+        where: { id: contactId, isLead: true, leadStatus: contact.leadStatus },
+        data: { isLead: false, leadStatus: 'CONVERTED' },
+      });
+      if (claimed.count === 0) {
+        throw new ConflictException('Contact is not a lead');
+      }
+
+      const company = dto.company
+        ? await tx.company.create({
+            data: {
+              ...dto.company,
+              email: dto.company.email?.toLowerCase() ?? null,
+              customFields: companyCustomFields,
+              organizationId: user.organizationId,
+              workspaceId: contact.workspaceId,
+              ownerId: user.userId,
+            },
+          })
+        : null;
+      const companyId = company?.id ?? dto.companyId ?? contact.companyId;
+
+      const data = { isLead: false, leadStatus: 'CONVERTED', companyId };
+      const updated = await tx.contact.update({ where: { id: contactId }, data: { companyId } });
+      await this.contactHistory.recordChanges(
+        {
+          organizationId: user.organizationId,
+          contactId,
+          source: 'API_USER',
+          actorId: user.userId,
+          before: contact,
+          data,
+        },
+        tx,
+      );
+
+      const deal =
+        dto.deal && pipeline && stage
+          ? await tx.deal.create({
+              data: {
+                organizationId: user.organizationId,
+                workspaceId: contact.workspaceId,
+                ownerId: user.userId,
+                title: dto.deal.title,
+                value: dto.deal.value ?? null,
+                currency: dto.deal.currency,
+                expectedCloseDate: dto.deal.expectedCloseDate ?? null,
+                customFields: dealCustomFields,
+                pipelineId: pipeline.id,
+                stage: stage.key,
+                status: 'OPEN',
+                probability: stage.probability,
+                contactId,
+                companyId,
+              },
+            })
+          : null;
+
+      const note = await tx.activity.create({
+        data: {
+          organizationId: user.organizationId,
+          workspaceId: contact.workspaceId,
+          ownerId: user.userId,
+          type: 'NOTE',
+          title: 'Lead converted to customer',
+          description: dto.note ?? null,
+          status: 'COMPLETED',
+          completedAt: new Date(),
+          contactId,
+          companyId,
+          dealId: deal?.id ?? null,
+          customFields: {
+            source: 'LEAD_CONVERSION',
+            fromStatus: toLeadStatus(contact.leadStatus),
+            companyCreated: !!company,
+            convertedBy: user.userId,
+          },
+        },
+      });
+
+      const { organizationId } = user;
+      if (company) {
+        await this.events.emit({ organizationId, type: 'company.created', data: company }, tx);
+      }
+      await this.events.emit(
+        { organizationId, type: 'contact.updated', data: updated, previous: contact },
+        tx,
+      );
+      if (deal) {
+        await this.events.emit({ organizationId, type: 'deal.created', data: deal }, tx);
+      }
+      await this.events.emit({ organizationId, type: 'activity.created', data: note }, tx);
+
+      return { contact: updated, company, deal };
+    });
+
+    this.logger.log(
+      `Converted lead ${contactId}${result.deal ? ` with deal ${result.deal.id}` : ''}`,
+    );
+    this.leadScoring.recomputeInBackground(user.organizationId, [contactId]);
+
+    return result;
+  }
+}
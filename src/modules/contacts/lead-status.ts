@@ -0,0 +1,42 @@
+/**
+ * LEAD STATUS
+ * ===========
+ * Lead lifecycle state machine:
+ *
+ *   NEW -> CONTACTED -> QUALIFIED -> CONVERTED
+ *
+ * Open leads can be DISQUALIFIED at any step. CONVERTED is only reached
+ * through the convert endpoint, and CONVERTED/DISQUALIFIED are final.
+ * Contacts without a status (or with a legacy one) are treated as NEW.
+ */
+
+export const LEAD_STATUSES = [
+  'NEW',
+  'CONTACTED',
+  'QUALIFIED',
+  'CONVERTED',
+  'DISQUALIFIED',
+] as const;
+
+export type LeadStatus = (typeof LEAD_STATUSES)[number];
+
+export const LEAD_STATUS_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  NEW: ['CONTACTED', 'DISQUALIFIED'],
+  CONTACTED: ['QUALIFIED', 'DISQUALIFIED'],
+  QUALIFIED: ['CONVERTED', 'DISQUALIFIED'],
+  CONVERTED: [],
+  DISQUALIFIED: [],
+};
+
+/**
+ * The contact's status in the state machine.
+ */
+export function toLeadStatus(status: string | null | undefined): LeadStatus {
+  return (LEAD_STATUSES as readonly string[]).includes(status ?? '')
+    ? (status as LeadStatus)
+    : 'NEW';
+}
+
+export function canTransitionLeadStatus(from: string | null | undefined, to: LeadStatus): boolean {
+  return LEAD_STATUS_TRANSITIONS[toLeadStatus(from)].includes(to);
+}
@@ -0,0 +1,148 @@
+/**
+ * LINKEDIN PROFILE SERVICE
+ * ========================
+ * Keeps the typed LinkedIn profile tables in step with the LinkedIn keys
+ * in Contact.customFields (linkedinUrnId, linkedinSkills, ...).
+ *
+ * customFields remains the source written by sync, merge and the API;
+ * the profile is the indexed copy used for URN matching and skill filters.
+ * The key mapping mirrors prisma/backfills/linkedin-profiles.sql.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Contact, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+
+const EXPERIENCE_KEYS = {
+  title: ['title', 'job_title', 'position'],
+  companyName: ['company', 'company_name', 'companyName'],
+  location: ['location'],
+  startDate: ['start_date', 'startDate', 'starts_at'],
+  endDate: ['end_date', 'endDate', 'ends_at'],
+  description: ['description'],
+};
+
+const EDUCATION_KEYS = {
+  school: ['school', 'school_name', 'schoolName'],
+  degree: ['degree', 'degree_name', 'degreeName'],
+  fieldOfStudy: ['field_of_study', 'fieldOfStudy'],
+  startDate: ['start_date', 'startDate', 'starts_at'],
+  endDate: ['end_date', 'endDate', 'ends_at'],
+};
+
+@Injectable()
+export class LinkedInProfileService {
+  private readonly logger = new Logger(LinkedInProfileService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Rebuild the contact's profile from its customFields. Contacts without
+   * a URN have no profile. Pass the transaction client when writing inside
+   * a transaction.
+   */
+  async syncFromContact(
+    contact: Pick<Contact, 'id' | 'organizationId' | 'customFields'>,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    const fields = this.asObject(contact.customFields);
+    const urnId = this.text(fields.linkedinUrnId);
+
+    if (!urnId) {
+      await client.linkedInProfile.deleteMany({ where: { contactId: contact.id } });
+      return;
+    }
+
+    // The URN is unique per organization; leave it with its current
+    // contact until the duplicates are merged
+    const owner = await client.linkedInProfile.findUnique({
+      where: {
+        organizationId_urnId: { organizationId: contact.organizationId, urnId },
+      },
+      select: { contactId: true },
+    });
+    if (owner && owner.contactId !== contact.id) {
+      this.logger.warn(
+        `LinkedIn URN ${urnId} already belongs to contact ${owner.contactId}; skipping profile for ${contact.id}`,
+      );
+      return;
+    }
+
+    const connectedAt = this.text(fields.linkedinConnected);
+    const data = {
+      organizationId: contact.organizationId,
+      urnId,
+      publicId: this.text(fields.linkedinPublicId),
+      headline: this.text(fields.linkedinHeadline),
+      location: this.text(fields.linkedinLocation),
+      industry: this.text(fields.linkedinIndustry),
+      profilePhotoUrl: this.text(fields.linkedinProfilePhoto),
+      connectedAt: connectedAt && !isNaN(Date.parse(connectedAt)) ? new Date(connectedAt) : null,
+      skills: this.textList(fields.linkedinSkills),
+      languages: this.textList(fields.linkedinLanguages),
+    };
+    const experiences = this.toRows(fields.linkedinWorkExperience, EXPERIENCE_KEYS);
+    const educations = this.toRows(fields.linkedinEducation, EDUCATION_KEYS);
+
+    await client.linkedInProfile.upsert({
+      where: { contactId: contact.id },
+      create: {
+        ...data,
+        contactId: contact.id,
+        experiences: { create: experiences },
+        educations: { create: educations },
+      },
+      update: {
+        ...data,
+        experiences: { deleteMany: {}, create: experiences },
+        educations: { deleteMany: {}, create: educations },
+      },
+    });
+  }
+
+  /**
+   * Map a list of loosely shaped LinkedIn entries to rows, taking the first
+   * present key for each column.
+   */
+  private toRows<K extends string>(
+    value: unknown,
+    keys: Record<K, string[]>,
+  ): Array<Record<K, string | null> & { position: number }> {
+    if (!Array.isArray(value)) {
+      return [];
+    }
+
+    // Positions follow the source list, including skipped entries
+    return value.flatMap((entry: unknown, position) => {
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+        return [];
+      }
+
+      const fields = entry as Record<string, unknown>;
+      const columns: Record<string, string | null> = {};
+      for (const [column, candidates] of Object.entries<string[]>(keys)) {
+        columns[column] = candidates.map((key) => this.text(fields[key])).find((text) => text) ?? null;
+      }
+      return [{ ...(columns as Record<K, string | null>), position }];
+    });
+  }
+
+  private asObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+  }
+
+  private text(value: unknown): string | null {
+    if (typeof value === 'number') {
+      return String(value);
+    }
+    return typeof value === 'string' && value.trim() ? value : null;
+  }
+
+  private textList(value: unknown): string[] {
+    return Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '')
+      : [];
+  }
+}
@@ -0,0 +1,370 @@
+/**
+ * CUSTOM FIELD VALUES SERVICE
+ * ===========================
+ * Validates customFields writes against the organization's definitions,
+ * and turns `cf` / `sort` list parameters into filters and orderings.
+ *
+ * - Organizations without definitions for an entity keep free-form
+ *   customFields; once fields are defined, unknown keys are rejected
+ * - Values are checked and normalized per type: numbers from numeric
+ *   strings, dates as YYYY-MM-DD or ISO timestamps, select values against
+ *   the options, multi-select from arrays or ";"-separated text
+ * - null or "" unsets a key; required fields must have a value
+ * - Reserved keys (see reserved-custom-fields.ts) can't be written and
+ *   keep their stored values when an API write replaces customFields
+ *
+ * Only API and import writes are validated; system writes are trusted.
+ */
+
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { CustomFieldDefinition, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import {
+  CursorPaginationDto,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import { CustomFieldsService } from './custom-fields.service';
+import { isReservedCustomField } from './reserved-custom-fields';
+import { CustomFieldEntity } from './dto/custom-field.dto';
+
+const TABLES: Record<CustomFieldEntity, string> = {
+  CONTACT: 'contacts',
+  COMPANY: 'companies',
+  DEAL: 'deals',
+  ACTIVITY: 'activities',
+};
+
+const MAX_TEXT_LENGTH = 10000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+// Same shape as the DTOs' customFields (z.record(z.any()))
+export type CustomFieldValues = Record<string, any>;
+
+// Filter on the customFields column, shared by every entity's where input
+export interface CustomFieldWhere {
+  customFields: Prisma.JsonNullableFilter;
+}
+
+export interface CustomFieldCheck {
+  value: CustomFieldValues;
+  errors: string[];
+}
+
+type Normalized = { value: unknown } | { error: string };
+
+// A parsed `cf` parameter: multi-select fields match on containment
+interface CustomFieldFilter {
+  key: string;
+  contains: boolean;
+  value: unknown;
+}
+
+@Injectable()
+export class CustomFieldValuesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly customFields: CustomFieldsService,
+  ) {}
+
+  /**
+   * customFields to store for a new record; undefined when none were sent.
+   */
+  async validateForCreate(
+    organizationId: string,
+    entity: CustomFieldEntity,
+    input: CustomFieldValues | null | undefined,
+  ): Promise<CustomFieldValues | undefined> {
+    const definitions = await this.customFields.getDefinitions(organizationId, entity);
+    const { value, errors } = this.check(definitions, entity, input ?? {}, true);
+    this.throwFirst(errors);
+
+    return input ? value : undefined;
+  }
+
+  /**
+   * customFields to store when an update replaces them; undefined when
+   * they weren't sent. Reserved keys keep their stored values.
+   */
+  async validateForUpdate(
+    organizationId: string,
+    entity: CustomFieldEntity,
+    input: CustomFieldValues | null | undefined,
+    existing: Prisma.JsonValue,
+  ): Promise<CustomFieldValues | null | undefined> {
+    if (input === undefined) {
+      return undefined;
+    }
+
+    const definitions = await this.customFields.getDefinitions(organizationId, entity);
+    const { value, errors } = this.check(definitions, entity, input ?? {}, true);
+    this.throwFirst(errors);
+
+    const stored = this.asObject(existing);
+    const reserved = Object.fromEntries(
+      Object.entries(stored).filter(([key]) => isReservedCustomField(entity, key)),
+    );
+    const merged = { ...reserved, ...value };
+
+    return Object.keys(merged).length > 0 ? merged : null;
+  }
+
+  /**
+   * Check and normalize values against preloaded definitions. Errors are
+   * reported per key as `customFields.<key>: <message>`.
+   */
+  check(
+    definitions: CustomFieldDefinition[],
+    entity: CustomFieldEntity,
+    input: CustomFieldValues,
+    requireAll: boolean,
+  ): CustomFieldCheck {
+    const byKey = new Map(definitions.map((definition) => [definition.key, definition]));
+    const value: CustomFieldValues = {};
+    const errors: string[] = [];
+
+    for (const [key, raw] of Object.entries(input)) {
+      if (isReservedCustomField(entity, key)) {
+        errors.push(`customFields.${key}: Reserved for the system`);
+        continue;
+      }
+
+      const definition = byKey.get(key);
+      if (!definition) {
+        if (definitions.length > 0) {
+          errors.push(`customFields.${key}: Unknown custom field`);
+        } else {
+          value[key] = raw;
+        }
+        continue;
+      }
+
+      if (raw === null || raw === undefined || raw === '') {
+        continue;
+      }
+
+      const normalized = this.normalize(definition, raw);
+      if ('error' in normalized) {
+        errors.push(`customFields.${key}: ${normalized.error}`);
+      } else {
+        value[key] = normalized.value;
+      }
+    }
+
+    if (requireAll) {
+      const invalid = new Set(errors.map((error) => error.split(':')[0]));
+
+      for (const definition of definitions) {
+        const current = value[definition.key];
+        const empty = current === undefined || (Array.isArray(current) && current.length === 0);
+        if (definition.required && empty && !invalid.has(`customFields.${definition.key}`)) {
+          errors.push(`customFields.${definition.key}: Required`);
+        }
+      }
+    }
+
+    return { value, errors };
+  }
+
+  /**
+   * Where conditions for `cf=<key>:<value>` parameters. Keys must be
+   * defined; multi-select fields match records that include the value.
+   */
+  async buildFilters(
+    organizationId: string,
+    entity: CustomFieldEntity,
+    filters: string[] | undefined,
+  ): Promise<CustomFieldWhere[]> {
+    const parsed = await this.parseFilters(organizationId, entity, filters);
+
+    return parsed.map(({ key, contains, value }) => ({
+      customFields: contains
+        ? { path: [key], array_contains: [value] as Prisma.InputJsonValue }
+        : { path: [key], equals: value as Prisma.InputJsonValue },
+    }));
+  }
+
+  /**
+   * buildFilters() for raw SQL, on the table aliased `alias`.
+   */
+  async buildSqlFilters(
+    organizationId: string,
+    entity: CustomFieldEntity,
+    filters: string[] | undefined,
+    alias: string,
+  ): Promise<Prisma.Sql[]> {
+    const parsed = await this.parseFilters(organizationId, entity, filters);
+    const column = Prisma.raw(`${alias}.custom_fields`);
+
+    return parsed.map(({ key, contains, value }) =>
+      contains
+        ? Prisma.sql`${column} -> ${key} @> ${JSON.stringify([value])}::jsonb`
+        : Prisma.sql`${column} -> ${key} = ${JSON.stringify(value)}::jsonb`,
+    );
+  }
+
+  /**
+   * A page of records ordered by a custom field (`sort=[-]customFields.<key>`),
+   * empty values last, then by id. `conditions` are the list filters on the
+   * entity's table, aliased `t`; matching and keyset pagination on
+   * (value, id) run in SQL and only the page is loaded with `findByIds`.
+   * A cursor that is not a record of the organization is rejected.
+   */
+  async listSorted<T extends { id: string }>(
+    organizationId: string,
+    entity: CustomFieldEntity,
+    sort: string,
+    page: CursorPaginationDto,
+    conditions: Prisma.Sql[],
+    findByIds: (ids: string[]) => Promise<T[]>,
+  ): Promise<PaginatedResult<T>> {
+    const descending = sort.startsWith('-');
+    const key = sort.replace(/^-?customFields\./, '');
+
+    const definitions = await this.customFields.getDefinitions(organizationId, entity);
+    const definition = definitions.find((candidate) => candidate.key === key);
+    if (!definition) {
+      throw new BadRequestException(`sort: Unknown custom field ${key}`);
+    }
+
+    const value = (alias: string) => {
+      const column = Prisma.raw(`${alias}.custom_fields`);
+      return definition.type === 'NUMBER'
+        ? Prisma.sql`CASE WHEN jsonb_typeof(${column} -> ${key}) = 'number'
+            THEN (${column} ->> ${key})::numeric END`
+        : Prisma.sql`${column} ->> ${key}`;
+    };
+    const direction = Prisma.raw(descending ? 'DESC' : 'ASC');
+    const after = Prisma.raw(descending ? '<' : '>');
+    const table = Prisma.raw(`crm.${TABLES[entity]}`);
+
+    const where = [Prisma.sql`t.organization_id = ${organizationId}::uuid`, ...conditions];
+    if (page.cursor) {
+      const [cursor] = await this.prisma.$queryRaw<Array<{ id: string }>>`
+        SELECT c.id FROM ${table} c
+        WHERE c.id = ${page.cursor}::uuid AND c.organization_id = ${organizationId}::uuid
+      `;
+      if (!cursor) {
+        throw new BadRequestException('cursor: Unknown cursor');
+      }
+
+      // Rows after the cursor's (value, id), empty values last
+      const cursorId = Prisma.sql`${cursor.id}::uuid`;
+      const cursorValue = Prisma.sql`(
+        SELECT ${value('c')} FROM ${table} c WHERE c.id = ${cursorId}
+      )`;
+      where.push(Prisma.sql`(CASE WHEN ${cursorValue} IS NULL
+        THEN ${value('t')} IS NULL AND t.id ${after} ${cursorId}
+        ELSE ${value('t')} IS NULL OR ${value('t')} ${after} ${cursorValue}
+          OR (${value('t')} = ${cursorValue} AND t.id ${after} ${cursorId})
+      END)`);
+    }
+
+    const matches = await this.prisma.$queryRaw<Array<{ id: string }>>`
+      SELECT t.id
+      FROM ${table} t
+      WHERE ${Prisma.join(where, ' AND ')}
+      ORDER BY ${value('t')} ${direction} NULLS LAST, t.id ${direction}
+      LIMIT ${page.limit + 1}
+    `;
+
+    const rows = await findByIds(matches.map((row) => row.id));
+    const byId = new Map(rows.map((row) => [row.id, row]));
+    const ordered = matches.flatMap((row) => byId.get(row.id) ?? []);
+
+    return toPaginatedResult(ordered, page.limit);
+  }
+
+  /**
+   * Parse `cf=<key>:<value>` parameters against the definitions.
+   */
+  private async parseFilters(
+    organizationId: string,
+    entity: CustomFieldEntity,
+    filters: string[] | undefined,
+  ): Promise<CustomFieldFilter[]> {
+    if (!filters?.length) {
+      return [];
+    }
+
+    const definitions = await this.customFields.getDefinitions(organizationId, entity);
+
+    return filters.map((filter) => {
+      const separator = filter.indexOf(':');
+      const key = filter.slice(0, separator);
+      const raw = filter.slice(separator + 1);
+
+      const definition = definitions.find((candidate) => candidate.key === key);
+      if (!definition) {
+        throw new BadRequestException(`cf: Unknown custom field ${key}`);
+      }
+
+      if (definition.type === 'MULTI_SELECT') {
+        if (!definition.options.includes(raw)) {
+          throw new BadRequestException(`cf: ${raw} is not an option of ${key}`);
+        }
+        return { key, contains: true, value: raw };
+      }
+
+      const normalized = this.normalize(definition, raw);
+      if ('error' in normalized) {
+        throw new BadRequestException(`cf: ${key}: ${normalized.error}`);
+      }
+      return { key, contains: false, value: normalized.value };
+    });
+  }
+
+  private normalize(definition: CustomFieldDefinition, raw: unknown): Normalized {
+    switch (definition.type) {
+      case 'NUMBER': {
+        const number = typeof raw === 'string' && raw.trim() !== '' ? Number(raw) : raw;
+        return typeof number === 'number' && Number.isFinite(number)
+          ? { value: number }
+          : { error: 'Expected a number' };
+      }
+      case 'DATE': {
+        if (typeof raw !== 'string' || isNaN(Date.parse(raw))) {
+          return { error: 'Expected a date (YYYY-MM-DD or ISO 8601)' };
+        }
+        return { value: DATE_ONLY.test(raw) ? raw : new Date(raw).toISOString() };
+      }
+      case 'SELECT':
+        return typeof raw === 'string' && definition.options.includes(raw)
+          ? { value: raw }
+          : { error: `Expected one of ${definition.options.join(', ')}` };
+      case 'MULTI_SELECT': {
+        const values = typeof raw === 'string' ? raw.split(/[;,]/).map((v) => v.trim()) : raw;
+        if (!Array.isArray(values) || values.some((v) => typeof v !== 'string')) {
+          return { error: 'Expected a list of options' };
+        }
+        const invalid = values.filter((v) => v && !definition.options.includes(v));
+        if (invalid.length > 0) {
+          return { error: `${invalid.join(', ')} not in ${definition.options.join(', ')}` };
+        }
+        return { value: [...new Set(values.filter(Boolean))] };
+      }
+      case 'URL': {
+        if (typeof raw !== 'string' || !/^https?:\/\/\S+$/i.test(raw) || !URL.canParse(raw)) {
+          return { error: 'Expected an http(s) URL' };
+        }
+        return { value: raw };
+      }
+      default:
+        return typeof raw === 'string' && raw.length <= MAX_TEXT_LENGTH
+          ? { value: raw }
+          : { error: `Expected text up to ${MAX_TEXT_LENGTH} characters` };
+    }
+  }
+
+  private throwFirst(errors: string[]): void {
+    if (errors.length > 0) {
+      throw new BadRequestException(errors[0]);
+    }
+  }
+
+  private asObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * CUSTOM FIELDS CONTROLLER
+ * ========================
+ * Manage the custom field definitions of contacts, companies, deals and
+ * activities. Everyone can read them; only admins change them.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { CustomFieldsService } from './custom-fields.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  CreateCustomFieldSchema,
+  ListCustomFieldsQuerySchema,
+  UpdateCustomFieldSchema,
+} from './dto/custom-field.dto';
+import type {
+  CreateCustomFieldDto,
+  ListCustomFieldsQueryDto,
+  UpdateCustomFieldDto,
+} from './dto/custom-field.dto';
+
+@Controller('custom-fields')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class CustomFieldsController {
+  constructor(private readonly customFieldsService: CustomFieldsService) {}
+
+  /**
+   * GET /custom-fields?entity=CONTACT
+   */
+  @Get()
+  async list(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ListCustomFieldsQuerySchema))
+    query: ListCustomFieldsQueryDto,
+  ) {
+    return this.customFieldsService.list(user, query);
+  }
+
+  /**
+   * GET /custom-fields/:id
+   */
+  @Get(':id')
+  async get(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.customFieldsService.get(user, id);
+  }
+
+  /**
+   * POST /custom-fields
+   */
+  @Post()
+  @Roles('ADMIN')
+  async create(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(CreateCustomFieldSchema))
+    body: CreateCustomFieldDto,
+  ) {
+    return this.customFieldsService.create(user, body);
+  }
+
+  /**
+   * PATCH /custom-fields/:id
+   */
+  @Patch(':id')
+  @Roles('ADMIN')
+  async update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(UpdateCustomFieldSchema))
+    body: UpdateCustomFieldDto,
+  ) {
+    return this.customFieldsService.update(user, id, body);
+  }
+
+  /**
+   * DELETE /custom-fields/:id
+   *
+   * Stored values are kept.
+   */
+  @Delete(':id')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.customFieldsService.remove(user, id);
+  }
+}
@@ -0,0 +1,20 @@
+/**
+ * CUSTOM FIELDS MODULE
+ * ====================
+ * Per-organization custom field definitions, and validation, filtering
+ * and sorting of customFields values.
+ */
+
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { CustomFieldsController } from './custom-fields.controller';
+import { CustomFieldsService } from './custom-fields.service';
+import { CustomFieldValuesService } from './custom-field-values.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [CustomFieldsController],
+  providers: [CustomFieldsService, CustomFieldValuesService],
+  exports: [CustomFieldsService, CustomFieldValuesService],
+})
+export class CustomFieldsModule {}
@@ -0,0 +1,120 @@
+/**
+ * CUSTOM FIELDS SERVICE
+ * =====================
+ * Tenant-scoped CRUD for custom field definitions. Each organization
+ * defines the customFields keys of contacts, companies, deals and
+ * activities; CustomFieldValuesService validates writes against them.
+ *
+ * A definition's entity, key and type are fixed once created. Deleting a
+ * definition leaves stored values in place.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { CustomFieldDefinition, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { isReservedCustomField } from './reserved-custom-fields';
+import {
+  CreateCustomFieldDto,
+  CustomFieldEntity,
+  ListCustomFieldsQueryDto,
+  UpdateCustomFieldDto,
+} from './dto/custom-field.dto';
+
+@Injectable()
+export class CustomFieldsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async list(user: AuthUser, query: ListCustomFieldsQueryDto): Promise<CustomFieldDefinition[]> {
+    return this.prisma.customFieldDefinition.findMany({
+      where: {
+        organizationId: user.organizationId,
+        ...(query.entity ? { entity: query.entity } : {}),
+      },
+      orderBy: [{ entity: 'asc' }, { position: 'asc' }, { key: 'asc' }],
+    });
+  }
+
+  /**
+   * An entity's definitions, in display order.
+   */
+  async getDefinitions(
+    organizationId: string,
+    entity: CustomFieldEntity,
+  ): Promise<CustomFieldDefinition[]> {
+    return this.prisma.customFieldDefinition.findMany({
+      where: { organizationId, entity },
+      orderBy: [{ position: 'asc' }, { key: 'asc' }],
+    });
+  }
+
+  async get(user: AuthUser, id: string): Promise<CustomFieldDefinition> {
+    const definition = await this.prisma.customFieldDefinition.findFirst({
+      where: { id, organizationId: user.organizationId },
+    });
+
+    if (!definition) {
+      throw new NotFoundException('Custom field not found');
+    }
+
+    return definition;
+  }
+
+  async create(user: AuthUser, dto: CreateCustomFieldDto): Promise<CustomFieldDefinition> {
+    if (isReservedCustomField(dto.entity, dto.key)) {
+      throw new BadRequestException(`key: ${dto.key} is reserved for the system`);
+    }
+
+    return this.withUniqueKey(() =>
+      this.prisma.customFieldDefinition.create({
+        data: { ...dto, organizationId: user.organizationId, createdBy: user.userId },
+      }),
+    );
+  }
+
+  async update(
+    user: AuthUser,
+    id: string,
+    dto: UpdateCustomFieldDto,
+  ): Promise<CustomFieldDefinition> {
+    const definition = await this.get(user, id);
+
+    if (dto.options !== undefined) {
+      const hasOptions = definition.type === 'SELECT' || definition.type === 'MULTI_SELECT';
+      if (!hasOptions && dto.options.length > 0) {
+        throw new BadRequestException(`options: ${definition.type} fields have no options`);
+      }
+      if (hasOptions && dto.options.length === 0) {
+        throw new BadRequestException(`options: ${definition.type} fields need options`);
+      }
+    }
+
+    return this.prisma.customFieldDefinition.update({ where: { id }, data: dto });
+  }
+
+  async remove(user: AuthUser, id: string): Promise<void> {
+    await this.get(user, id);
+    await this.prisma.customFieldDefinition.delete({ where: { id } });
+  }
+
+  private async withUniqueKey(
+    write: () => Promise<CustomFieldDefinition>,
+  ): Promise<CustomFieldDefinition> {
+    try {
+      return await write();
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException('A custom field with this key already exists');
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * CUSTOM FIELD DTOs
+ * =================
+ * Custom field definitions, and the list query parameters that filter
+ * and sort by custom fields.
+ */
+
+import { z } from 'zod';
+
+export const CUSTOM_FIELD_ENTITIES = ['CONTACT', 'COMPANY', 'DEAL', 'ACTIVITY'] as const;
+
+export type CustomFieldEntity = (typeof CUSTOM_FIELD_ENTITIES)[number];
+
+export const CUSTOM_FIELD_TYPES = [
+  'TEXT',
+  'NUMBER',
+  'DATE',
+  'SELECT',
+  'MULTI_SELECT',
+  'URL',
+] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+const KEY_PATTERN = '[A-Za-z][A-Za-z0-9_]{0,63}';
+export const CUSTOM_FIELD_KEY = new RegExp(`^${KEY_PATTERN}$`);
+
+const OptionsSchema = z
+  .array(z.string().trim().min(1).max(255))
+  .max(200)
+  .refine((options) => new Set(options).size === options.length, {
+    message: 'Options must be unique',
+  });
+
+// Create definition request
+export const CreateCustomFieldSchema = z
+  .object({
+    entity: z.enum(CUSTOM_FIELD_ENTITIES),
+    key: z.string().regex(CUSTOM_FIELD_KEY, 'Keys start with a letter and use letters, digits or _'),
+    label: z.string().trim().min(1).max(255),
+    type: z.enum(CUSTOM_FIELD_TYPES),
+    required: z.boolean().default(false),
+    options: OptionsSchema.default([]),
+    position: z.number().int().min(0).default(0),
+  })
+  .superRefine((dto, ctx) => {
+    const hasOptions = dto.type === 'SELECT' || dto.type === 'MULTI_SELECT';
+    if (hasOptions && dto.options.length === 0) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: `${dto.type} fields need options` });
+    }
+    if (!hasOptions && dto.options.length > 0) {
+      ctx.addIssue({ code: 'custom', path: ['options'], message: `${dto.type} fields have no options` });
+    }
+  });
+
+export type CreateCustomFieldDto = z.infer<typeof CreateCustomFieldSchema>;
+
+// Update definition request - entity, key and type can't change
+export const UpdateCustomFieldSchema = z.object({
+  label: z.string().trim().min(1).max(255).optional(),
+  required: z.boolean().optional(),
+  options: OptionsSchema.optional(),
+  position: z.number().int().min(0).optional(),
+});
+
+export type UpdateCustomFieldDto = z.infer<typeof UpdateCustomFieldSchema>;
+
+// List definitions query
+export const ListCustomFieldsQuerySchema = z.object({
+  entity: z.enum(CUSTOM_FIELD_ENTITIES).optional(),
+});
+
+export type ListCustomFieldsQueryDto = z.infer<typeof ListCustomFieldsQuerySchema>;
+
+// List query parameters, merged into the entity list queries:
+// ?cf=region:EMEA&cf=tier:gold&sort=-customFields.renewalDate
+export const CustomFieldListQuerySchema = z.object({
+  cf: z
+    .union([z.string(), z.array(z.string())])
+    .transform((value) => (Array.isArray(value) ? value : [value]))
+    .pipe(
+      z
+        .array(z.string().regex(new RegExp(`^${KEY_PATTERN}:.+$`), 'Use cf=<key>:<value>'))
+        .max(20),
+    )
+    .optional(),
+  sort: z
+    .string()
+    .regex(new RegExp(`^-?customFields\\.${KEY_PATTERN}$`), 'Use sort=[-]customFields.<key>')
+    .optional(),
+});
+
+export type CustomFieldListQueryDto = z.infer<typeof CustomFieldListQuerySchema>;
@@ -0,0 +1,43 @@
+/**
+ * RESERVED CUSTOM FIELDS
+ * ======================
+ * customFields keys written by the system (outreach sync, merges, stage
+ * changes, lead conversion). They can't be defined as custom fields or
+ * written through the API, and API writes keep their current values.
+ */
+
+import { CustomFieldEntity } from './dto/custom-field.dto';
+
+const RESERVED_PREFIXES: Record<CustomFieldEntity, string[]> = {
+  // LinkedIn profile data from ContactMergerService
+  CONTACT: ['linkedin'],
+  COMPANY: [],
+  DEAL: [],
+  ACTIVITY: ['linkedin'],
+};
+
+const RESERVED_KEYS: Record<CustomFieldEntity, string[]> = {
+  CONTACT: ['syncedFromOutreach', 'lastSyncedAt', 'mergedContactIds'],
+  COMPANY: ['source'],
+  DEAL: [],
+  ACTIVITY: [
+    'source',
+    'connectionId',
+    'connectedOn',
+    'fromStage',
+    'toStage',
+    'changedBy',
+    'mergedContactId',
+    'mergedBy',
+    'fromStatus',
+    'companyCreated',
+    'convertedBy',
+  ],
+};
+
+export function isReservedCustomField(entity: CustomFieldEntity, key: string): boolean {
+  return (
+    RESERVED_KEYS[entity].includes(key) ||
+    RESERVED_PREFIXES[entity].some((prefix) => key.toLowerCase().startsWith(prefix))
+  );
+}
@@ -0,0 +1,120 @@
+/**
+ * DEALS CONTROLLER
+ * ================
+ * REST endpoints for deals and pipeline stage transitions,
+ * scoped to the caller's tenant.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { DealsService } from './deals.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  CreateDealSchema,
+  ListDealsQuerySchema,
+  TransitionDealStageSchema,
+  UpdateDealSchema,
+} from './dto/deal.dto';
+import type {
+  CreateDealDto,
+  ListDealsQueryDto,
+  TransitionDealStageDto,
+  UpdateDealDto,
+} from './dto/deal.dto';
+
+@Controller('deals')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class DealsController {
+  constructor(private readonly dealsService: DealsService) {}
+
+  /**
+   * GET /deals
+   *
+   * List deals with optional filters and cursor pagination.
+   */
+  @Get()
+  async list(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ListDealsQuerySchema)) query: ListDealsQueryDto,
+  ) {
+    return this.dealsService.list(user, query);
+  }
+
+  /**
+   * GET /deals/:id
+   */
+  @Get(':id')
+  async get(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.dealsService.get(user, id);
+  }
+
+  /**
+   * POST /deals
+   */
+  @Post()
+  async create(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(CreateDealSchema)) body: CreateDealDto,
+  ) {
+    return this.dealsService.create(user, body);
+  }
+
+  /**
+   * PATCH /deals/:id
+   */
+  @Patch(':id')
+  async update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(UpdateDealSchema)) body: UpdateDealDto,
+  ) {
+    return this.dealsService.update(user, id, body);
+  }
+
+  /**
+   * POST /deals/:id/stage
+   *
+   * Move a deal to another pipeline stage. Closed deals are reopened
+   * with `reopen: true`.
+   */
+  @Post(':id/stage')
+  @HttpCode(HttpStatus.OK)
+  async transitionStage(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(TransitionDealStageSchema)) body: TransitionDealStageDto,
+  ) {
+    return this.dealsService.transitionStage(user, id, body);
+  }
+
+  /**
+   * DELETE /deals/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.dealsService.remove(user, id);
+  }
+}
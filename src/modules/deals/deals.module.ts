@@ -1,3 +1,22 @@
+/**
+ * DEALS MODULE
+ * ============
+ * Deals pipeline REST API.
+ */
+
 import { Module } from '@nestjs/common';
-@Module({})
+import { AuthModule } from '../auth/auth.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { EventsModule } from '../events/events.module';
+import { PipelinesModule } from '../pipelines/pipelines.module';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
+import { DealsController } from './deals.controller';
+import { DealsService } from './deals.service';
+
+@Module({
+  imports: [AuthModule, CustomFieldsModule, EventsModule, PipelinesModule, LeadScoringModule],
+  controllers: [DealsController],
+  providers: [DealsService],
+  exports: [DealsService],
+})
 export class DealsModule {}
@@ -0,0 +1,494 @@
+/**
+ * DEALS SERVICE
+ * =============
+ * Tenant-scoped CRUD for deals and pipeline stage transitions, limited to
+ * the caller's workspaces.
+ *
+ * Stage rules:
+ * - Stages must exist in the deal's pipeline (see PipelinesService)
+ * - Open deals move one stage forward, back to any earlier open stage, or to
+ *   a won/lost stage; deals in a stage their pipeline lacks can move anywhere
+ * - Won/lost stages close the deal: status and actualCloseDate are set automatically
+ * - Closed deals only move with `reopen: true`, back to an open stage
+ * - The move only applies if the deal is still in the stage it was read in
+ * - Every transition is logged as an Activity on the deal
+ *
+ * Changes and transitions need edit rights on the deal (see OwnershipService).
+ * Writes publish deal.* events in the same transaction; transitions
+ * publish deal.stage_changed.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Deal, PipelineStage, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import {
+  canAccessWorkspace,
+  resolveWorkspaceId,
+  workspaceCondition,
+  workspaceSqlCondition,
+} from '../auth/workspace-scope';
+import { OwnershipService } from '../auth/ownership.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { CrmEventsService } from '../events/crm-events.service';
+import { CustomFieldValuesService } from '../custom-fields/custom-field-values.service';
+import {
+  cursorArgs,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import { PipelinesService, PipelineWithStages } from '../pipelines/pipelines.service';
+import {
+  CreateDealDto,
+  ListDealsQueryDto,
+  TransitionDealStageDto,
+  UpdateDealDto,
+} from './dto/deal.dto';
+
+@Injectable()
+export class DealsService {
+  private readonly logger = new Logger(DealsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly pipelinesService: PipelinesService,
+    private readonly leadScoring: LeadScoringService,
+    private readonly events: CrmEventsService,
+    private readonly customFieldValues: CustomFieldValuesService,
+    private readonly ownership: OwnershipService,
+  ) {}
+
+  /**
+   * List deals, newest first or by a custom field, using cursor pagination.
+   */
+  async list(
+    user: AuthUser,
+    query: ListDealsQueryDto,
+  ): Promise<PaginatedResult<Deal>> {
+    if (query.sort) {
+      return this.customFieldValues.listSorted(
+        user.organizationId,
+        'DEAL',
+        query.sort,
+        query,
+        await this.buildSqlConditions(user, query),
+        (ids) => this.prisma.deal.findMany({ where: { id: { in: ids } } }),
+      );
+    }
+
+    const where = await this.buildWhere(user, query);
+
+    const rows = await this.prisma.deal.findMany({
+      where,
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPaginatedResult(rows, query.limit);
+  }
+
+  /**
+   * Get a deal with its contact and company, if the caller can see them.
+   */
+  async get(user: AuthUser, id: string) {
+    const deal = await this.prisma.deal.findFirst({
+      where: { id, organizationId: user.organizationId, ...workspaceCondition(user) },
+      include: { contact: true, company: true },
+    });
+
+    if (!deal) {
+      throw new NotFoundException('Deal not found');
+    }
+
+    const { contact, company } = deal;
+    return {
+      ...deal,
+      contact: contact && canAccessWorkspace(user, contact.workspaceId) ? contact : null,
+      company: company && canAccessWorkspace(user, company.workspaceId) ? company : null,
+    };
+  }
+
+  /**
+   * Create a deal. New deals must start in an open stage.
+   */
+  async create(user: AuthUser, dto: CreateDealDto): Promise<Deal> {
+    const workspaceId = resolveWorkspaceId(user, dto.workspaceId);
+    const pipeline = await this.pipelinesService.resolvePipeline(
+      user.organizationId,
+      dto.pipelineId,
+      workspaceId,
+    );
+
+    const stage = dto.stage
+      ? pipeline.stages.find((s) => s.key === dto.stage)
+      : this.pipelinesService.getFirstOpenStage(pipeline);
+    if (!stage) {
+      throw new BadRequestException(
+        `Unknown stage ${dto.stage} for pipeline ${pipeline.name}`,
+      );
+    }
+    if (this.pipelinesService.getStageStatus(stage) !== 'OPEN') {
+      throw new BadRequestException('New deals must start in an open stage');
+    }
+
+    await this.assertLinksInTenant(user, dto);
+    const customFields = await this.customFieldValues.validateForCreate(
+      user.organizationId,
+      'DEAL',
+      dto.customFields,
+    );
+    const ownerId = await this.ownership.resolveOwnerId(user, dto.ownerId);
+
+    const deal = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.deal.create({
+        data: {
+          ...this.toData({ ...dto, customFields, workspaceId, ownerId }),
+          title: dto.title,
+          organizationId: user.organizationId,
+          pipelineId: pipeline.id,
+          stage: stage.key,
+          status: 'OPEN',
+          probability: dto.probability ?? stage.probability,
+        },
+      });
+
+      await this.events.emit(
+        { organizationId: user.organizationId, type: 'deal.created', data: created },
+        tx,
+      );
+      return created;
+    });
+
+    this.logger.log(`Created deal ${deal.id} in stage ${deal.stage}`);
+    this.leadScoring.recomputeInBackground(user.organizationId, [deal.contactId]);
+    return deal;
+  }
+
+  /**
+   * Update deal details. Stage and status are changed via transitionStage.
+   */
+  async update(user: AuthUser, id: string, dto: UpdateDealDto): Promise<Deal> {
+    const existing = await this.findOrThrow(user, id);
+    await this.ownership.assertCanEdit(user, existing);
+    await this.assertLinksInTenant(user, dto);
+    const customFields = await this.customFieldValues.validateForUpdate(
+      user.organizationId,
+      'DEAL',
+      dto.customFields,
+      existing.customFields,
+    );
+    const ownerId =
+      dto.ownerId !== undefined
+        ? await this.ownership.resolveOwnerId(user, dto.ownerId)
+        : undefined;
+
+    const deal = await this.prisma.$transaction(async (tx) => {
+      const updated = await tx.deal.update({
+        where: { id },
+        data: this.toData({
+          ...dto,
+          customFields,
+          ...(dto.workspaceId !== undefined
+            ? { workspaceId: resolveWorkspaceId(user, dto.workspaceId) }
+            : {}),
+          ownerId,
+        }),
+      });
+
+      await this.events.emit(
+        {
+          organizationId: user.organizationId,
+          type: 'deal.updated',
+          data: updated,
+          previous: existing,
+        },
+        tx,
+      );
+      return updated;
+    });
+
+    this.leadScoring.recomputeInBackground(user.organizationId, [
+      existing.contactId,
+      deal.contactId,
+    ]);
+    return deal;
+  }
+
+  /**
+   * Delete a deal. Linked activities are detached.
+   */
+  async remove(user: AuthUser, id: string): Promise<void> {
+    const existing = await this.findOrThrow(user, id);
+    await this.ownership.assertCanEdit(user, existing);
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.activity.updateMany({
+        where: { dealId: id },
+        data: { dealId: null },
+      });
+      await tx.deal.delete({ where: { id } });
+
+      await this.events.emit(
+        { organizationId: user.organizationId, type: 'deal.deleted', data: existing },
+        tx,
+      );
+    });
+
+    this.logger.log(`Deleted deal ${id}`);
+    this.leadScoring.recomputeInBackground(user.organizationId, [existing.contactId]);
+  }
+
+  /**
+   * Move a deal to another stage and record the move as an activity.
+   */
+  async transitionStage(
+    user: AuthUser,
+    id: string,
+    dto: TransitionDealStageDto,
+  ): Promise<Deal> {
+    const deal = await this.findOrThrow(user, id);
+    await this.ownership.assertCanEdit(user, deal);
+
+    // Deals created before pipelines existed are adopted by the default one
+    const pipeline = await this.pipelinesService.resolvePipeline(
+      user.organizationId,
+      deal.pipelineId,
+      deal.workspaceId,
+    );
+
+    const target = pipeline.stages.find((stage) => stage.key === dto.stage);
+    if (!target) {
+      throw new BadRequestException(
+        `Unknown stage ${dto.stage} for pipeline ${pipeline.name}`,
+      );
+    }
+    const targetStatus = this.pipelinesService.getStageStatus(target);
+    if (deal.stage === target.key) {
+      throw new BadRequestException(`Deal is already in stage ${target.key}`);
+    }
+    this.assertStageOrder(pipeline, deal, target, dto.reopen ?? false);
+
+    const now = new Date();
+    const closing = targetStatus !== 'OPEN';
+
+    const updated = await this.prisma.$transaction(async (tx) => {
+      // Only move the deal from where it was checked, so concurrent moves can't skip the rules
+      const { count } = await tx.deal.updateMany({
+        where: { id, stage: deal.stage, status: deal.status },
+        data: {
+          pipelineId: pipeline.id,
+          stage: target.key,
+          status: targetStatus,
+          probability: target.probability,
+          actualCloseDate: closing ? now : null,
+        },
+      });
+      if (count === 0) {
+        throw new ConflictException('Deal was moved by another request; reload it and retry');
+      }
+      const moved = await tx.deal.findUniqueOrThrow({ where: { id } });
+      const note = await tx.activity.create({
+        data: {
+          organizationId: user.organizationId,
+          workspaceId: deal.workspaceId,
+          ownerId: user.userId,
+          type: 'NOTE',
+          title: `Deal moved from ${deal.stage} to ${target.key}`,
+          description: dto.note ?? null,
+          status: 'COMPLETED',
+          completedAt: now,
+          dealId: deal.id,
+          contactId: deal.contactId,
+          companyId: deal.companyId,
+          customFields: {
+            source: 'DEAL_STAGE_CHANGE',
+            fromStage: deal.stage,
+            toStage: target.key,
+            changedBy: user.userId,
+          },
+        },
+      });
+
+      await this.events.emit(
+        {
+          organizationId: user.organizationId,
+          type: 'deal.stage_changed',
+          data: moved,
+          previous: deal,
+        },
+        tx,
+      );
+      await this.events.emit(
+        { organizationId: user.organizationId, type: 'activity.created', data: note },
+        tx,
+      );
+      return moved;
+    });
+
+    this.logger.log(`Deal ${id} moved from ${deal.stage} to ${target.key}`);
+    this.leadScoring.recomputeInBackground(user.organizationId, [deal.contactId]);
+    return updated;
+  }
+
+  private async findOrThrow(user: AuthUser, id: string): Promise<Deal> {
+    const deal = await this.prisma.deal.findFirst({
+      where: { id, organizationId: user.organizationId, ...workspaceCondition(user) },
+    });
+
+    if (!deal) {
+      throw new NotFoundException('Deal not found');
+    }
+
+    return deal;
+  }
+
+  /**
+   * Make sure linked contact/company belong to the caller's organization.
+   */
+  private async assertLinksInTenant(
+    user: AuthUser,
+    dto: UpdateDealDto,
+  ): Promise<void> {
+    const { organizationId } = user;
+    const visible = workspaceCondition(user);
+
+    if (dto.contactId) {
+      const contact = await this.prisma.contact.findFirst({
+        where: { id: dto.contactId, organizationId, ...visible },
+        select: { id: true },
+      });
+      if (!contact) {
+        throw new BadRequestException('Contact not found');
+      }
+    }
+
+    if (dto.companyId) {
+      const company = await this.prisma.company.findFirst({
+        where: { id: dto.companyId, organizationId, ...visible },
+        select: { id: true },
+      });
+      if (!company) {
+        throw new BadRequestException('Company not found');
+      }
+    }
+  }
+
+  /**
+   * Enforce the stage rules for moving `deal` to `target`.
+   */
+  private assertStageOrder(
+    pipeline: PipelineWithStages,
+    deal: Deal,
+    target: PipelineStage,
+    reopen: boolean,
+  ): void {
+    const targetOpen = this.pipelinesService.getStageStatus(target) === 'OPEN';
+
+    if (deal.status !== 'OPEN') {
+      if (!reopen) {
+        throw new ConflictException(
+          `Deal is closed (${deal.status}); pass reopen: true to move it back to an open stage`,
+        );
+      }
+      if (!targetOpen) {
+        throw new BadRequestException('A closed deal can only be reopened to an open stage');
+      }
+      return;
+    }
+
+    const openStages = pipeline.stages.filter(
+      (stage) => this.pipelinesService.getStageStatus(stage) === 'OPEN',
+    );
+    const current = openStages.findIndex((stage) => stage.key === deal.stage);
+    if (!targetOpen || current === -1) {
+      return;
+    }
+
+    const next = openStages.findIndex((stage) => stage.key === target.key);
+    if (next > current + 1) {
+      throw new BadRequestException(
+        `Deal can only move forward to ${openStages[current + 1].key}, not skip to ${target.key}`,
+      );
+    }
+  }
+
+  /**
+   * Build the where clause for list queries. Also used by exports.
+   */
+  async buildWhere(
+    user: AuthUser,
+    query: Omit<ListDealsQueryDto, 'cursor' | 'limit' | 'sort'>,
+  ): Promise<Prisma.DealWhereInput> {
+    const where: Prisma.DealWhereInput = {
+      organizationId: user.organizationId,
+    };
+
+    if (query.pipelineId) where.pipelineId = query.pipelineId;
+    if (query.stage) where.stage = query.stage;
+    if (query.status) where.status = query.status;
+    if (query.contactId) where.contactId = query.contactId;
+    if (query.companyId) where.companyId = query.companyId;
+    if (query.ownerId) where.ownerId = query.ownerId;
+    if (query.search) {
+      where.title = { contains: query.search, mode: 'insensitive' };
+    }
+
+    const customFieldFilters = await this.customFieldValues.buildFilters(
+      user.organizationId,
+      'DEAL',
+      query.cf,
+    );
+    where.AND = [workspaceCondition(user), ...customFieldFilters];
+
+    return where;
+  }
+
+  /**
+   * buildWhere() as SQL conditions on crm.deals aliased `t`, for lists
+   * sorted by a custom field.
+   */
+  private async buildSqlConditions(
+    user: AuthUser,
+    query: ListDealsQueryDto,
+  ): Promise<Prisma.Sql[]> {
+    const conditions = [workspaceSqlCondition(user, 't')];
+
+    if (query.pipelineId) conditions.push(Prisma.sql`t.pipeline_id = ${query.pipelineId}::uuid`);
+    if (query.stage) conditions.push(Prisma.sql`t.stage = ${query.stage}`);
+    if (query.status) conditions.push(Prisma.sql`t.status = ${query.status}`);
+    if (query.contactId) conditions.push(Prisma.sql`t.contact_id = ${query.contactId}::uuid`);
+    if (query.companyId) conditions.push(Prisma.sql`t.company_id = ${query.companyId}::uuid`);
+    if (query.ownerId) conditions.push(Prisma.sql`t.owner_id = ${query.ownerId}::uuid`);
+    if (query.search) conditions.push(Prisma.sql`t.title ILIKE ${`%${query.search}%`}`);
+
+    const customFieldFilters = await this.customFieldValues.buildSqlFilters(
+      user.organizationId,
+      'DEAL',
+      query.cf,
+      't',
+    );
+    return [...conditions, ...customFieldFilters];
+  }
+
+  /**
+   * Map a validated DTO to Prisma data.
+   */
+  private toData(
+    dto: UpdateDealDto,
+  ): Partial<Omit<Prisma.DealUncheckedCreateInput, 'organizationId'>> {
+    const { customFields, ...rest } = dto;
+
+    return {
+      ...rest,
+      ...(customFields !== undefined
+        ? { customFields: customFields ?? Prisma.DbNull }
+        : {}),
+    };
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * DEAL DTOs
+ * =========
+ * Request schemas for the deals REST API.
+ */
+
+import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+import { CustomFieldListQuerySchema } from '../../custom-fields/dto/custom-field.dto';
+
+// Create deal request
+export const CreateDealSchema = z.object({
+  workspaceId: z.string().uuid().nullable().optional(),
+  // Defaults to the caller; see OwnershipService for who can be assigned
+  ownerId: z.string().uuid().nullable().optional(),
+  title: z.string().trim().min(1, 'Deal title is required').max(255),
+  value: z.number().nonnegative().nullable().optional(),
+  currency: z.string().length(3).toUpperCase().optional(),
+  pipelineId: z.string().uuid().optional(),
+  stage: z.string().trim().toUpperCase().optional(),
+  probability: z.number().int().min(0).max(100).nullable().optional(),
+  expectedCloseDate: z.coerce.date().nullable().optional(),
+  contactId: z.string().uuid().nullable().optional(),
+  companyId: z.string().uuid().nullable().optional(),
+  customFields: z.record(z.any()).nullable().optional(),
+});
+
+export type CreateDealDto = z.infer<typeof CreateDealSchema>;
+
+// Update deal request - stage changes go through the transition endpoint
+export const UpdateDealSchema = CreateDealSchema.omit({
+  pipelineId: true,
+  stage: true,
+}).partial();
+
+export type UpdateDealDto = z.infer<typeof UpdateDealSchema>;
+
+// Stage transition request
+export const TransitionDealStageSchema = z.object({
+  stage: z.string().trim().toUpperCase().min(1, 'Stage is required'),
+  note: z.string().max(2000).optional(),
+  // Required to move a won or lost deal back to an open stage
+  reopen: z.boolean().optional(),
+});
+
+export type TransitionDealStageDto = z.infer<typeof TransitionDealStageSchema>;
+
+// List deals query
+export const ListDealsQuerySchema = CursorPaginationSchema.extend({
+  search: z.string().trim().min(1).optional(),
+  pipelineId: z.string().uuid().optional(),
+  stage: z.string().trim().toUpperCase().optional(),
+  status: z.enum(['OPEN', 'WON', 'LOST']).optional(),
+  contactId: z.string().uuid().optional(),
+  companyId: z.string().uuid().optional(),
+  ownerId: z.string().uuid().optional(),
+}).merge(CustomFieldListQuerySchema);
+
+export type ListDealsQueryDto = z.infer<typeof ListDealsQuerySchema>;
@@ -0,0 +1,69 @@
+/**
+ * CRM EVENTS SERVICE
+ * ==================
+ * Publishes CRM change events to the organization's webhook subscriptions.
+ *
+ * emit() writes one pending delivery per matching subscription. Pass the
+ * transaction client of the write being published, so the deliveries are
+ * committed (or rolled back) together with the change itself;
+ * WebhookDispatcherService sends them afterwards.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { ALL_EVENTS, CrmEventPayload, CrmEventType } from './dto/webhook-subscription.dto';
+
+export interface CrmEvent {
+  organizationId: string;
+  type: CrmEventType;
+  data: unknown;
+  previous?: unknown;
+}
+
+@Injectable()
+export class CrmEventsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Queue an event for every active subscription that wants it.
+   */
+  async emit(
+    event: CrmEvent,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<void> {
+    const subscriptions = await client.webhookSubscription.findMany({
+      where: {
+        organizationId: event.organizationId,
+        active: true,
+        eventTypes: { hasSome: [event.type, ALL_EVENTS] },
+      },
+      select: { id: true },
+    });
+    if (subscriptions.length === 0) {
+      return;
+    }
+
+    const payload: CrmEventPayload = {
+      id: randomUUID(),
+      type: event.type,
+      organizationId: event.organizationId,
+      occurredAt: new Date().toISOString(),
+      data: event.data,
+      ...(event.previous !== undefined ? { previous: event.previous } : {}),
+    };
+    // Dates and decimals as they will be sent
+    const json = JSON.parse(JSON.stringify(payload)) as Prisma.InputJsonValue;
+
+    await client.webhookDelivery.createMany({
+      data: subscriptions.map((subscription) => ({
+        organizationId: event.organizationId,
+        subscriptionId: subscription.id,
+        eventId: payload.id,
+        eventType: event.type,
+        payload: json,
+      })),
+    });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * WEBHOOK SUBSCRIPTION DTOs
+ * =========================
+ * CRM event types, outbound webhook subscriptions and their delivery log.
+ */
+
+import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+
+export const CRM_EVENT_TYPES = [
+  'contact.created',
+  'contact.updated',
+  'contact.deleted',
+  'company.created',
+  'company.updated',
+  'company.deleted',
+  'deal.created',
+  'deal.updated',
+  'deal.deleted',
+  'deal.stage_changed',
+  'activity.created',
+  'activity.updated',
+  'activity.deleted',
+] as const;
+
+export type CrmEventType = (typeof CRM_EVENT_TYPES)[number];
+
+// Subscribes to every event type
+export const ALL_EVENTS = '*';
+
+export const DELIVERY_STATUSES = ['PENDING', 'DELIVERING', 'SUCCEEDED', 'FAILED'] as const;
+
+const WebhookUrlSchema = z
+  .string()
+  .url()
+  .max(2000)
+  .refine((url) => /^https?:\/\//i.test(url), { message: 'URL must use http or https' });
+
+const EventTypesSchema = z
+  .array(z.enum([ALL_EVENTS, ...CRM_EVENT_TYPES]))
+  .min(1, 'Subscribe to at least one event type')
+  .transform((types) => [...new Set(types)]);
+
+// Create subscription request
+export const CreateWebhookSubscriptionSchema = z.object({
+  url: WebhookUrlSchema,
+  description: z.string().trim().max(500).nullable().optional(),
+  eventTypes: EventTypesSchema,
+  active: z.boolean().default(true),
+});
+
+export type CreateWebhookSubscriptionDto = z.infer<typeof CreateWebhookSubscriptionSchema>;
+
+// Update subscription request - every field optional
+export const UpdateWebhookSubscriptionSchema = z.object({
+  url: WebhookUrlSchema.optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+  eventTypes: EventTypesSchema.optional(),
+  active: z.boolean().optional(),
+});
+
+export type UpdateWebhookSubscriptionDto = z.infer<typeof UpdateWebhookSubscriptionSchema>;
+
+// Delivery log query
+export const ListWebhookDeliveriesQuerySchema = CursorPaginationSchema.extend({
+  status: z.enum(DELIVERY_STATUSES).optional(),
+  eventType: z.enum(CRM_EVENT_TYPES).optional(),
+});
+
+export type ListWebhookDeliveriesQueryDto = z.infer<typeof ListWebhookDeliveriesQuerySchema>;
+
+// Body sent to subscribers
+export interface CrmEventPayload {
+  id: string;
+  type: CrmEventType;
+  organizationId: string;
+  occurredAt: string;
+  data: unknown;
+  // State before the change, for updated and stage_changed events
+  previous?: unknown;
+}
+
+// Subscription as returned by the API; the secret is only shown on create and rotate
+export interface WebhookSubscriptionDto {
+  id: string;
+  url: string;
+  description: string | null;
+  eventTypes: string[];
+  active: boolean;
+  secret?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
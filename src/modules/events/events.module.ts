@@ -0,0 +1,21 @@
+/**
+ * EVENTS MODULE
+ * =============
+ * CRM change events (contacts, companies, deals, activities) delivered
+ * to outbound webhook subscriptions.
+ */
+
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { WebhookSubscriptionsController } from './webhook-subscriptions.controller';
+import { WebhookSubscriptionsService } from './webhook-subscriptions.service';
+import { WebhookDispatcherService } from './webhook-dispatcher.service';
+import { CrmEventsService } from './crm-events.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [WebhookSubscriptionsController],
+  providers: [CrmEventsService, WebhookDispatcherService, WebhookSubscriptionsService],
+  exports: [CrmEventsService],
+})
+export class EventsModule {}
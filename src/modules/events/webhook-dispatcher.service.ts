@@ -0,0 +1,216 @@
+/**
+ * WEBHOOK DISPATCHER SERVICE
+ * ==========================
+ * Sends pending webhook deliveries to subscriber endpoints.
+ *
+ * - Due deliveries are polled every WEBHOOK_DELIVERY_INTERVAL_SECONDS
+ *   (default 5; 0 disables) and sent with bounded concurrency
+ * - Requests are signed like the outreach webhooks we receive:
+ *   X-GenSales-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+ *   with the subscription secret, and X-GenSales-Timestamp in unix seconds
+ * - URLs resolving to private or reserved addresses are not called
+ *   (see webhook-url.ts); response bodies are not kept
+ * - Any 2xx response is a success; anything else is retried with
+ *   exponential backoff (30s, 1m, 2m, ... capped at 6h) until
+ *   WEBHOOK_MAX_ATTEMPTS (default 8) is reached
+ * - Deliveries left DELIVERING well past the request timeout were
+ *   interrupted mid-send (their replica stopped) and are retried
+ */
+
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import { createHmac } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { runWithConcurrency } from '../../common/utils/concurrency';
+import { checkWebhookUrl } from './webhook-url';
+
+export const EVENT_HEADER = 'x-gensales-event';
+export const DELIVERY_HEADER = 'x-gensales-delivery';
+export const SIGNATURE_HEADER = 'x-gensales-signature';
+export const TIMESTAMP_HEADER = 'x-gensales-timestamp';
+
+const DEFAULT_INTERVAL_SECONDS = 5;
+const DEFAULT_MAX_ATTEMPTS = 8;
+const BATCH_SIZE = 50;
+const CONCURRENCY = 5;
+const REQUEST_TIMEOUT_MS = 10_000;
+// Claims older than this belong to a replica that stopped mid-send
+const STALE_DELIVERY_MS = 5 * 60 * 1000;
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+type DueDelivery = WebhookDelivery & { subscription: WebhookSubscription };
+
+@Injectable()
+export class WebhookDispatcherService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(WebhookDispatcherService.name);
+  private readonly intervalMs: number;
+  private readonly maxAttempts: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private readonly prisma: PrismaService) {
+    const seconds = Number(
+      process.env.WEBHOOK_DELIVERY_INTERVAL_SECONDS ?? DEFAULT_INTERVAL_SECONDS,
+    );
+    this.intervalMs = Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+
+    const attempts = Number(process.env.WEBHOOK_MAX_ATTEMPTS);
+    this.maxAttempts =
+      Number.isInteger(attempts) && attempts > 0 ? attempts : DEFAULT_MAX_ATTEMPTS;
+  }
+
+  onApplicationBootstrap(): void {
+    if (this.intervalMs > 0) {
+      this.timer = setInterval(() => this.dispatchInBackground(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Compute the signature header value for a body.
+   */
+  sign(secret: string, timestamp: string, body: string): string {
+    const digest = createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+    return `sha256=${digest}`;
+  }
+
+  private dispatchInBackground(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.dispatchDue()
+      .catch((error) => this.logger.error(`Webhook dispatch failed: ${error}`))
+      .finally(() => {
+        this.running = false;
+      });
+  }
+
+  /**
+   * Send every due delivery, a batch at a time.
+   */
+  private async dispatchDue(): Promise<void> {
+    await this.requeueInterrupted();
+    let due: DueDelivery[];
+
+    do {
+      due = await this.prisma.webhookDelivery.findMany({
+        where: { status: 'PENDING', nextAttemptAt: { lte: new Date() } },
+        include: { subscription: true },
+        orderBy: { nextAttemptAt: 'asc' },
+        take: BATCH_SIZE,
+      });
+
+      await runWithConcurrency(due, CONCURRENCY, (delivery) => this.deliver(delivery));
+    } while (due.length === BATCH_SIZE);
+  }
+
+  private async deliver(delivery: DueDelivery): Promise<void> {
+    // Claim the delivery so it is only sent once
+    const claimed = await this.prisma.webhookDelivery.updateMany({
+      where: { id: delivery.id, status: 'PENDING' },
+      data: { status: 'DELIVERING' },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+
+    if (!delivery.subscription.active) {
+      await this.prisma.webhookDelivery.update({
+        where: { id: delivery.id },
+        data: { status: 'FAILED', nextAttemptAt: null, lastError: 'Subscription is disabled' },
+      });
+      return;
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const startedAt = Date.now();
+    let responseStatus: number | null = null;
+    // Checked again in case the host's DNS changed since it was saved
+    let error = await checkWebhookUrl(delivery.subscription.url);
+
+    if (error === null) {
+      try {
+        const response = await fetch(delivery.subscription.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'GenSales-Webhooks/1.0',
+            [EVENT_HEADER]: delivery.eventType,
+            [DELIVERY_HEADER]: delivery.id,
+            [TIMESTAMP_HEADER]: timestamp,
+            [SIGNATURE_HEADER]: this.sign(delivery.subscription.secret, timestamp, body),
+          },
+          body,
+          redirect: 'manual',
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+
+        responseStatus = response.status;
+        await response.body?.cancel();
+        if (!response.ok) {
+          error = `Endpoint responded with ${response.status}`;
+        }
+      } catch (requestError) {
+        error = requestError instanceof Error ? requestError.message : 'Request failed';
+      }
+    }
+
+    const attempts = delivery.attempts + 1;
+    const retry = error !== null && attempts < this.maxAttempts;
+
+    await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: error === null ? 'SUCCEEDED' : retry ? 'PENDING' : 'FAILED',
+        attempts,
+        nextAttemptAt: retry ? new Date(Date.now() + this.retryDelay(attempts)) : null,
+        responseStatus,
+        lastError: error,
+        durationMs: Date.now() - startedAt,
+        ...(error === null ? { deliveredAt: new Date() } : {}),
+      },
+    });
+
+    if (error !== null && !retry) {
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} to ${delivery.subscription.url} failed after ${attempts} attempts: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Put deliveries whose send was interrupted back in the queue. Sends
+   * in flight on other replicas are much younger than STALE_DELIVERY_MS.
+   */
+  private async requeueInterrupted(): Promise<void> {
+    const interrupted = await this.prisma.webhookDelivery.updateMany({
+      where: {
+        status: 'DELIVERING',
+        updatedAt: { lt: new Date(Date.now() - STALE_DELIVERY_MS) },
+      },
+      data: { status: 'PENDING', nextAttemptAt: new Date() },
+    });
+    if (interrupted.count > 0) {
+      this.logger.warn(`Requeued ${interrupted.count} interrupted webhook deliveries`);
+    }
+  }
+
+  private retryDelay(attempts: number): number {
+    return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  }
+}
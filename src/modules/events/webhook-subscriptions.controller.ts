@@ -0,0 +1,143 @@
+/**
+ * WEBHOOK SUBSCRIPTIONS CONTROLLER
+ * ================================
+ * Register endpoints for CRM change events, inspect their delivery log
+ * and redeliver events. Admins only.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { WebhookSubscriptionsService } from './webhook-subscriptions.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  CreateWebhookSubscriptionSchema,
+  ListWebhookDeliveriesQuerySchema,
+  UpdateWebhookSubscriptionSchema,
+} from './dto/webhook-subscription.dto';
+import type {
+  CreateWebhookSubscriptionDto,
+  ListWebhookDeliveriesQueryDto,
+  UpdateWebhookSubscriptionDto,
+} from './dto/webhook-subscription.dto';
+
+@Controller('webhook-subscriptions')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN')
+export class WebhookSubscriptionsController {
+  constructor(private readonly subscriptionsService: WebhookSubscriptionsService) {}
+
+  /**
+   * GET /webhook-subscriptions
+   */
+  @Get()
+  async list(@CurrentUser() user: AuthUser) {
+    return this.subscriptionsService.list(user);
+  }
+
+  /**
+   * GET /webhook-subscriptions/:id
+   */
+  @Get(':id')
+  async get(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.subscriptionsService.get(user, id);
+  }
+
+  /**
+   * POST /webhook-subscriptions
+   *
+   * The response includes the signing secret; it isn't shown again.
+   */
+  @Post()
+  async create(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(CreateWebhookSubscriptionSchema))
+    body: CreateWebhookSubscriptionDto,
+  ) {
+    return this.subscriptionsService.create(user, body);
+  }
+
+  /**
+   * PATCH /webhook-subscriptions/:id
+   */
+  @Patch(':id')
+  async update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(UpdateWebhookSubscriptionSchema))
+    body: UpdateWebhookSubscriptionDto,
+  ) {
+    return this.subscriptionsService.update(user, id, body);
+  }
+
+  /**
+   * DELETE /webhook-subscriptions/:id
+   */
+  @Delete(':id')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.subscriptionsService.remove(user, id);
+  }
+
+  /**
+   * POST /webhook-subscriptions/:id/rotate-secret
+   */
+  @Post(':id/rotate-secret')
+  @HttpCode(HttpStatus.OK)
+  async rotateSecret(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.subscriptionsService.rotateSecret(user, id);
+  }
+
+  /**
+   * GET /webhook-subscriptions/:id/deliveries
+   *
+   * Delivery log with the latest attempt's response or error.
+   */
+  @Get(':id/deliveries')
+  async listDeliveries(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query(new ZodValidationPipe(ListWebhookDeliveriesQuerySchema))
+    query: ListWebhookDeliveriesQueryDto,
+  ) {
+    return this.subscriptionsService.listDeliveries(user, id, query);
+  }
+
+  /**
+   * POST /webhook-subscriptions/:id/deliveries/:deliveryId/redeliver
+   */
+  @Post(':id/deliveries/:deliveryId/redeliver')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async redeliver(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Param('deliveryId', ParseUUIDPipe) deliveryId: string,
+  ) {
+    return this.subscriptionsService.redeliver(user, id, deliveryId);
+  }
+}
@@ -0,0 +1,208 @@
+/**
+ * WEBHOOK SUBSCRIPTIONS SERVICE
+ * =============================
+ * Tenant-scoped management of outbound webhook subscriptions and their
+ * delivery log. Secrets are generated here and only returned when a
+ * subscription is created or its secret is rotated. URLs must be public
+ * (see webhook-url.ts).
+ */
+
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import {
+  cursorArgs,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import {
+  CreateWebhookSubscriptionDto,
+  ListWebhookDeliveriesQueryDto,
+  UpdateWebhookSubscriptionDto,
+  WebhookSubscriptionDto,
+} from './dto/webhook-subscription.dto';
+import { checkWebhookUrl } from './webhook-url';
+
+@Injectable()
+export class WebhookSubscriptionsService {
+  private readonly logger = new Logger(WebhookSubscriptionsService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async list(user: AuthUser): Promise<WebhookSubscriptionDto[]> {
+    const subscriptions = await this.prisma.webhookSubscription.findMany({
+      where: { organizationId: user.organizationId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return subscriptions.map((subscription) => this.toDto(subscription));
+  }
+
+  async get(user: AuthUser, id: string): Promise<WebhookSubscriptionDto> {
+    return this.toDto(await this.findOrThrow(user, id));
+  }
+
+  async create(
+    user: AuthUser,
+    dto: CreateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionDto> {
+    await this.assertPublicUrl(dto.url);
+
+    const subscription = await this.prisma.webhookSubscription.create({
+      data: {
+        organizationId: user.organizationId,
+        url: dto.url,
+        description: dto.description ?? null,
+        eventTypes: dto.eventTypes,
+        active: dto.active,
+        secret: this.generateSecret(),
+        createdBy: user.userId,
+      },
+    });
+
+    this.logger.log(`Created webhook subscription ${subscription.id} for ${subscription.url}`);
+    return this.toDto(subscription, true);
+  }
+
+  async update(
+    user: AuthUser,
+    id: string,
+    dto: UpdateWebhookSubscriptionDto,
+  ): Promise<WebhookSubscriptionDto> {
+    await this.findOrThrow(user, id);
+    if (dto.url !== undefined) {
+      await this.assertPublicUrl(dto.url);
+    }
+
+    const subscription = await this.prisma.webhookSubscription.update({
+      where: { id },
+      data: dto,
+    });
+
+    return this.toDto(subscription);
+  }
+
+  /**
+   * Delete a subscription and its delivery log.
+   */
+  async remove(user: AuthUser, id: string): Promise<void> {
+    await this.findOrThrow(user, id);
+    await this.prisma.webhookSubscription.delete({ where: { id } });
+
+    this.logger.log(`Deleted webhook subscription ${id}`);
+  }
+
+  /**
+   * Replace the signing secret. Deliveries sent from now on use the new one.
+   */
+  async rotateSecret(user: AuthUser, id: string): Promise<WebhookSubscriptionDto> {
+    await this.findOrThrow(user, id);
+
+    const subscription = await this.prisma.webhookSubscription.update({
+      where: { id },
+      data: { secret: this.generateSecret() },
+    });
+
+    this.logger.log(`Rotated secret of webhook subscription ${id}`);
+    return this.toDto(subscription, true);
+  }
+
+  /**
+   * A subscription's deliveries, newest first.
+   */
+  async listDeliveries(
+    user: AuthUser,
+    id: string,
+    query: ListWebhookDeliveriesQueryDto,
+  ): Promise<PaginatedResult<WebhookDelivery>> {
+    await this.findOrThrow(user, id);
+
+    const rows = await this.prisma.webhookDelivery.findMany({
+      where: {
+        subscriptionId: id,
+        ...(query.status ? { status: query.status } : {}),
+        ...(query.eventType ? { eventType: query.eventType } : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPaginatedResult(rows, query.limit);
+  }
+
+  /**
+   * Send a delivery's event again as a new delivery. The original stays
+   * in the log unchanged.
+   */
+  async redeliver(
+    user: AuthUser,
+    id: string,
+    deliveryId: string,
+  ): Promise<WebhookDelivery> {
+    await this.findOrThrow(user, id);
+
+    const original = await this.prisma.webhookDelivery.findFirst({
+      where: { id: deliveryId, subscriptionId: id },
+    });
+    if (!original) {
+      throw new NotFoundException('Delivery not found');
+    }
+
+    const delivery = await this.prisma.webhookDelivery.create({
+      data: {
+        organizationId: original.organizationId,
+        subscriptionId: id,
+        eventId: original.eventId,
+        eventType: original.eventType,
+        payload: original.payload ?? {},
+        redeliveryOfId: original.id,
+      },
+    });
+
+    this.logger.log(`Queued redelivery ${delivery.id} of delivery ${original.id}`);
+    return delivery;
+  }
+
+  private async findOrThrow(user: AuthUser, id: string): Promise<WebhookSubscription> {
+    const subscription = await this.prisma.webhookSubscription.findFirst({
+      where: { id, organizationId: user.organizationId },
+    });
+
+    if (!subscription) {
+      throw new NotFoundException('Webhook subscription not found');
+    }
+
+    return subscription;
+  }
+
+  private async assertPublicUrl(url: string): Promise<void> {
+    const problem = await checkWebhookUrl(url);
+    if (problem) {
+      throw new BadRequestException(`url: ${problem}`);
+    }
+  }
+
+  private generateSecret(): string {
+    return `whsec_${randomBytes(24).toString('hex')}`;
+  }
+
+  private toDto(subscription: WebhookSubscription, withSecret = false): WebhookSubscriptionDto {
+    return {
+      id: subscription.id,
+      url: subscription.url,
+      description: subscription.description,
+      eventTypes: subscription.eventTypes,
+      active: subscription.active,
+      ...(withSecret ? { secret: subscription.secret } : {}),
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    };
+  }
+}
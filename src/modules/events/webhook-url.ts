@@ -0,0 +1,71 @@
+/**
+ * WEBHOOK URL CHECK
+ * =================
+ * Subscriber URLs must point at the public internet, so tenants can't make
+ * the service call its own network (loopback, private ranges, link-local
+ * cloud metadata, cluster-internal hosts). The host is resolved and every
+ * address it resolves to is checked, when a subscription is saved and
+ * again before each delivery, since DNS can change in between.
+ *
+ * WEBHOOK_ALLOW_PRIVATE_URLS=true turns the check off for local development.
+ */
+
+import { BlockList, isIP } from 'net';
+import { lookup } from 'dns/promises';
+
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16], // link-local, including cloud metadata
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Why the service must not call `url`, or null when it may.
+ */
+export async function checkWebhookUrl(url: string): Promise<string | null> {
+  if (process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true') {
+    return null;
+  }
+
+  let host: string;
+  try {
+    host = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return 'Invalid URL';
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(host)
+      ? [host]
+      : (await lookup(host, { all: true, verbatim: true })).map((entry) => entry.address);
+  } catch {
+    return `Could not resolve ${host}`;
+  }
+
+  const blocked = addresses.find((address) =>
+    BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4'),
+  );
+  return blocked ? `${host} resolves to a private or reserved address (${blocked})` : null;
+}
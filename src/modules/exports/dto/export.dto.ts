@@ -0,0 +1,56 @@
+/**
+ * EXPORT DTOs
+ * ===========
+ * Query schemas for the export endpoints. Each takes the same filters
+ * as the entity's list query, plus the output format and the
+ * customFields keys to flatten into CSV columns.
+ */
+
+import { z } from 'zod';
+import { ListContactsQuerySchema } from '../../contacts/dto/contact.dto';
+import { ListCompaniesQuerySchema } from '../../companies/dto/company.dto';
+import { ListDealsQuerySchema } from '../../deals/dto/deal.dto';
+import { ListActivitiesQuerySchema } from '../../activities/dto/activity.dto';
+
+export const EXPORT_FORMATS = ['csv', 'ndjson'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+const ExportOptionsSchema = z.object({
+  format: z.enum(EXPORT_FORMATS).default('csv'),
+  // Comma-separated customFields keys, each exported as a `customFields.<key>` column
+  customFields: z
+    .string()
+    .transform((value) => value.split(',').map((key) => key.trim()).filter(Boolean))
+    .pipe(z.array(z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'Invalid customFields key')).max(50))
+    .optional(),
+});
+
+export type ExportOptionsDto = z.infer<typeof ExportOptionsSchema>;
+
+// Exports stream every match, newest first
+const LIST_ONLY = { cursor: true, limit: true, sort: true } as const;
+
+export const ExportContactsQuerySchema = ListContactsQuerySchema.omit(LIST_ONLY).merge(
+  ExportOptionsSchema,
+);
+
+export type ExportContactsQueryDto = z.infer<typeof ExportContactsQuerySchema>;
+
+export const ExportCompaniesQuerySchema = ListCompaniesQuerySchema.omit(LIST_ONLY).merge(
+  ExportOptionsSchema,
+);
+
+export type ExportCompaniesQueryDto = z.infer<typeof ExportCompaniesQuerySchema>;
+
+export const ExportDealsQuerySchema = ListDealsQuerySchema.omit(LIST_ONLY).merge(
+  ExportOptionsSchema,
+);
+
+export type ExportDealsQueryDto = z.infer<typeof ExportDealsQuerySchema>;
+
+export const ExportActivitiesQuerySchema = ListActivitiesQuerySchema.omit(LIST_ONLY).merge(
+  ExportOptionsSchema,
+);
+
+export type ExportActivitiesQueryDto = z.infer<typeof ExportActivitiesQuerySchema>;
@@ -0,0 +1,83 @@
+/**
+ * EXPORTS CONTROLLER
+ * ==================
+ * Streaming CSV / NDJSON downloads of the caller's CRM data.
+ */
+
+import { Controller, Get, Query, StreamableFile, UseGuards } from '@nestjs/common';
+import { ExportsService } from './exports.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  ExportActivitiesQuerySchema,
+  ExportCompaniesQuerySchema,
+  ExportContactsQuerySchema,
+  ExportDealsQuerySchema,
+} from './dto/export.dto';
+import type {
+  ExportActivitiesQueryDto,
+  ExportCompaniesQueryDto,
+  ExportContactsQueryDto,
+  ExportDealsQueryDto,
+} from './dto/export.dto';
+
+@Controller('exports')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ExportsController {
+  constructor(private readonly exportsService: ExportsService) {}
+
+  /**
+   * GET /exports/contacts?format=csv&customFields=region,segment
+   *
+   * Takes the same filters as GET /contacts.
+   */
+  @Get('contacts')
+  async exportContacts(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ExportContactsQuerySchema)) query: ExportContactsQueryDto,
+  ): Promise<StreamableFile> {
+    return this.exportsService.exportContacts(user, query);
+  }
+
+  /**
+   * GET /exports/companies
+   *
+   * Takes the same filters as GET /companies.
+   */
+  @Get('companies')
+  async exportCompanies(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ExportCompaniesQuerySchema)) query: ExportCompaniesQueryDto,
+  ): Promise<StreamableFile> {
+    return this.exportsService.exportCompanies(user, query);
+  }
+
+  /**
+   * GET /exports/deals
+   *
+   * Takes the same filters as GET /deals.
+   */
+  @Get('deals')
+  async exportDeals(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ExportDealsQuerySchema)) query: ExportDealsQueryDto,
+  ): Promise<StreamableFile> {
+    return this.exportsService.exportDeals(user, query);
+  }
+
+  /**
+   * GET /exports/activities
+   *
+   * Takes the same filters as GET /activities.
+   */
+  @Get('activities')
+  async exportActivities(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ExportActivitiesQuerySchema)) query: ExportActivitiesQueryDto,
+  ): Promise<StreamableFile> {
+    return this.exportsService.exportActivities(user, query);
+  }
+}
@@ -0,0 +1,21 @@
+/**
+ * EXPORTS MODULE
+ * ==============
+ * Streaming CSV / NDJSON exports of contacts, companies, deals and activities.
+ */
+
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { ActivitiesModule } from '../activities/activities.module';
+import { CompaniesModule } from '../companies/companies.module';
+import { ContactsModule } from '../contacts/contacts.module';
+import { DealsModule } from '../deals/deals.module';
+import { ExportsController } from './exports.controller';
+import { ExportsService } from './exports.service';
+
+@Module({
+  imports: [AuthModule, ActivitiesModule, CompaniesModule, ContactsModule, DealsModule],
+  controllers: [ExportsController],
+  providers: [ExportsService],
+})
+export class ExportsModule {}
@@ -0,0 +1,226 @@
+/**
+ * EXPORTS SERVICE
+ * ===============
+ * Streams contacts, companies, deals and activities as CSV or NDJSON.
+ *
+ * Rows are read in keyset-paginated batches and written as the client
+ * reads them, so memory stays flat however large the tenant is.
+ * Filters are the entity's list filters (the service's buildWhere).
+ *
+ * CSV columns are the model's scalar fields; JSON values (customFields,
+ * leadScoreExplanation) are written as JSON text and string arrays (tags)
+ * joined with ";", the separator CSV imports split on. Chosen customFields
+ * keys are added as `customFields.<key>` columns (NDJSON properties).
+ */
+
+import { Injectable, Logger, StreamableFile } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { Readable } from 'stream';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { toCsvLine } from '../../common/utils/csv';
+import { ContactsService } from '../contacts/contacts.service';
+import { CompaniesService } from '../companies/companies.service';
+import { DealsService } from '../deals/deals.service';
+import { ActivitiesService } from '../activities/activities.service';
+import {
+  ExportActivitiesQueryDto,
+  ExportCompaniesQueryDto,
+  ExportContactsQueryDto,
+  ExportDealsQueryDto,
+  ExportOptionsDto,
+} from './dto/export.dto';
+
+const BATCH_SIZE = 500;
+
+const CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8',
+};
+
+const ORDER_BY = [{ createdAt: 'desc' as const }, { id: 'desc' as const }];
+
+type Row = Record<string, unknown> & { id: string };
+
+interface PageArgs {
+  take: number;
+  skip?: number;
+  cursor?: { id: string };
+}
+
+@Injectable()
+export class ExportsService {
+  private readonly logger = new Logger(ExportsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly contactsService: ContactsService,
+    private readonly companiesService: CompaniesService,
+    private readonly dealsService: DealsService,
+    private readonly activitiesService: ActivitiesService,
+  ) {}
+
+  async exportContacts(
+    user: AuthUser,
+    query: ExportContactsQueryDto,
+  ): Promise<StreamableFile> {
+    const { format, customFields, ...filters } = query;
+    const where = await this.contactsService.buildWhere(user, filters);
+
+    return this.stream(
+      user,
+      'contacts',
+      Object.values(Prisma.ContactScalarFieldEnum),
+      { format, customFields },
+      (page) => this.prisma.contact.findMany({ where, orderBy: ORDER_BY, ...page }),
+    );
+  }
+
+  async exportCompanies(
+    user: AuthUser,
+    query: ExportCompaniesQueryDto,
+  ): Promise<StreamableFile> {
+    const { format, customFields, ...filters } = query;
+    const where = await this.companiesService.buildWhere(user, filters);
+
+    return this.stream(
+      user,
+      'companies',
+      Object.values(Prisma.CompanyScalarFieldEnum),
+      { format, customFields },
+      (page) => this.prisma.company.findMany({ where, orderBy: ORDER_BY, ...page }),
+    );
+  }
+
+  async exportDeals(
+    user: AuthUser,
+    query: ExportDealsQueryDto,
+  ): Promise<StreamableFile> {
+    const { format, customFields, ...filters } = query;
+    const where = await this.dealsService.buildWhere(user, filters);
+
+    return this.stream(
+      user,
+      'deals',
+      Object.values(Prisma.DealScalarFieldEnum),
+      { format, customFields },
+      (page) => this.prisma.deal.findMany({ where, orderBy: ORDER_BY, ...page }),
+    );
+  }
+
+  async exportActivities(
+    user: AuthUser,
+    query: ExportActivitiesQueryDto,
+  ): Promise<StreamableFile> {
+    const { format, customFields, ...filters } = query;
+    const where = await this.activitiesService.buildWhere(user, filters);
+
+    return this.stream(
+      user,
+      'activities',
+      Object.values(Prisma.ActivityScalarFieldEnum),
+      { format, customFields },
+      (page) => this.prisma.activity.findMany({ where, orderBy: ORDER_BY, ...page }),
+    );
+  }
+
+  private stream(
+    user: AuthUser,
+    name: string,
+    columns: string[],
+    options: ExportOptionsDto,
+    fetchPage: (page: PageArgs) => Promise<Row[]>,
+  ): StreamableFile {
+    const date = new Date().toISOString().slice(0, 10);
+    this.logger.log(
+      `Exporting ${name} for organization ${user.organizationId} as ${options.format}`,
+    );
+
+    const body = Readable.from(this.encode(this.paginate(fetchPage), columns, options));
+    return new StreamableFile(body, {
+      type: CONTENT_TYPES[options.format],
+      disposition: `attachment; filename="${name}-${date}.${options.format}"`,
+    });
+  }
+
+  /**
+   * Yield pages until a short page shows the end was reached.
+   */
+  private async *paginate(fetchPage: (page: PageArgs) => Promise<Row[]>): AsyncGenerator<Row[]> {
+    let cursor: string | undefined;
+
+    do {
+      const rows = await fetchPage({
+        take: BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+      if (rows.length > 0) {
+        yield rows;
+      }
+      cursor = rows.length === BATCH_SIZE ? rows[rows.length - 1].id : undefined;
+    } while (cursor);
+  }
+
+  /**
+   * One output chunk per page.
+   */
+  private async *encode(
+    pages: AsyncIterable<Row[]>,
+    columns: string[],
+    options: ExportOptionsDto,
+  ): AsyncGenerator<string> {
+    const customKeys = options.customFields ?? [];
+    const customColumns = customKeys.map((key) => `customFields.${key}`);
+
+    if (options.format === 'csv') {
+      yield toCsvLine([...columns, ...customColumns]);
+    }
+
+    for await (const rows of pages) {
+      let chunk = '';
+
+      for (const row of rows) {
+        const custom = this.asObject(row.customFields);
+
+        if (options.format === 'csv') {
+          chunk += toCsvLine([
+            ...columns.map((column) => this.toCsvValue(row[column])),
+            ...customKeys.map((key) => this.toCsvValue(custom[key])),
+          ]);
+        } else {
+          const flattened = Object.fromEntries(
+            customKeys.map((key, index) => [customColumns[index], custom[key] ?? null]),
+          );
+          chunk += JSON.stringify({ ...row, ...flattened }) + '\n';
+        }
+      }
+
+      yield chunk;
+    }
+  }
+
+  private toCsvValue(value: unknown): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (Prisma.Decimal.isDecimal(value)) {
+      return value.toString();
+    }
+    if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+      return value.join(';');
+    }
+    if (typeof value === 'object') {
+      return JSON.stringify(value);
+    }
+    return String(value);
+  }
+
+  private asObject(value: unknown): Record<string, unknown> {
+    return value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+  }
+}
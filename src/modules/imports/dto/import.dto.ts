@@ -0,0 +1,158 @@
+/**
+ * IMPORT DTOs
+ * ===========
+ * CSV import of contacts and companies: column mapping, dry-run results
+ * and import job status.
+ */
+
+import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+
+export const IMPORT_ENTITIES = ['CONTACT', 'COMPANY'] as const;
+
+export type ImportEntity = (typeof IMPORT_ENTITIES)[number];
+
+export const CONTACT_IMPORT_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'phone',
+  'jobTitle',
+  'linkedinUrl',
+  'twitterUrl',
+  'websiteUrl',
+  'profileImageUrl',
+  'leadSource',
+  'leadStatus',
+  'priority',
+  'tags',
+] as const;
+
+export const COMPANY_IMPORT_FIELDS = [
+  'name',
+  'industry',
+  'size',
+  'website',
+  'phone',
+  'email',
+  'address',
+  'city',
+  'country',
+] as const;
+
+// Mapping targets besides plain fields
+export const CUSTOM_FIELD_TARGET = /^customFields\.[A-Za-z0-9_-]{1,64}$/;
+export const COMPANY_TARGET_PREFIX = 'company.';
+
+/**
+ * Whether `target` is a valid mapping target for the entity. Contact
+ * imports can also map `company.<field>` to link or create the company.
+ */
+export function isImportTarget(entity: ImportEntity, target: string): boolean {
+  if (CUSTOM_FIELD_TARGET.test(target)) {
+    return true;
+  }
+  if (entity === 'COMPANY') {
+    return (COMPANY_IMPORT_FIELDS as readonly string[]).includes(target);
+  }
+  if (target.startsWith(COMPANY_TARGET_PREFIX)) {
+    return (COMPANY_IMPORT_FIELDS as readonly string[]).includes(
+      target.slice(COMPANY_TARGET_PREFIX.length),
+    );
+  }
+  return (CONTACT_IMPORT_FIELDS as readonly string[]).includes(target);
+}
+
+// Upload query (the body is the CSV file, sent as text/csv)
+export const UploadImportQuerySchema = z.object({
+  entity: z.enum(IMPORT_ENTITIES).default('CONTACT'),
+  fileName: z.string().trim().min(1).max(255).optional(),
+});
+
+export type UploadImportQueryDto = z.infer<typeof UploadImportQuerySchema>;
+
+// Column mapping used by dry-run and commit
+export const ImportMappingSchema = z.object({
+  // CSV column -> target field; unmapped columns are ignored
+  mapping: z.record(z.string(), z.string()).refine((mapping) => Object.keys(mapping).length > 0, {
+    message: 'Map at least one column',
+  }),
+  // What to do with rows that match an existing record
+  onMatch: z.enum(['SKIP', 'UPDATE']).default('SKIP'),
+});
+
+export type ImportMappingDto = z.infer<typeof ImportMappingSchema>;
+
+// List imports query
+export const ListImportsQuerySchema = CursorPaginationSchema.extend({
+  status: z
+    .enum([
+      'UPLOADED',
+      'QUEUED',
+      'RUNNING',
+      'COMPLETED',
+      'FAILED',
+      'UNDOING',
+      'UNDONE',
+      'PARTIALLY_UNDONE',
+    ])
+    .optional(),
+});
+
+export type ListImportsQueryDto = z.infer<typeof ListImportsQuerySchema>;
+
+export interface ImportUploadDto {
+  id: string;
+  entity: ImportEntity;
+  columns: string[];
+  rowCount: number;
+  sampleRows: Record<string, string>[];
+  suggestedMapping: Record<string, string>;
+}
+
+// Planned or applied outcome for one CSV row (row 1 is the header)
+export interface ImportRowResultDto {
+  row: number;
+  action: 'CREATE' | 'UPDATE' | 'SKIP' | 'ERROR';
+  matchType?: string;
+  recordId?: string;
+  company?: { action: 'LINK' | 'CREATE'; name: string; companyId?: string };
+  reason?: string;
+  errors: string[];
+}
+
+export interface ImportDryRunDto {
+  total: number;
+  create: number;
+  update: number;
+  skip: number;
+  error: number;
+  rows: ImportRowResultDto[];
+}
+
+export interface ImportJobErrorDto {
+  row: number;
+  errors: string[];
+}
+
+export interface ImportJobStatusDto {
+  id: string;
+  entity: string;
+  status: string;
+  fileName: string | null;
+  columns: string[];
+  mapping: Record<string, string> | null;
+  total: number;
+  processed: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+  errors: ImportJobErrorDto[];
+  // Rows the undo left as they were: changed since the import, or failed
+  undoErrors: ImportJobErrorDto[];
+  startedAt: Date | null;
+  finishedAt: Date | null;
+  undoneAt: Date | null;
+  createdAt: Date;
+}
@@ -0,0 +1,492 @@
+/**
+ * IMPORT PLANNER SERVICE
+ * ======================
+ * Turns one mapped CSV row into a planned outcome: validation errors,
+ * in-file duplicates, and whether it creates, updates or skips a record.
+ * Used by both the dry-run and the import job, so they always agree.
+ *
+ * Contacts are matched with ContactMatcherService (LinkedIn URL, then
+ * email); companies with CompanyLinkerService (domain, then name).
+ * Custom fields are checked against the organization's definitions;
+ * required ones only when the row creates a record. Rows matching a
+ * record outside the uploader's workspaces, or updating one the uploader
+ * can't change (see OwnershipService), are rejected. Contacts only link
+ * to companies in their own workspace or shared ones.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { CustomFieldDefinition } from '@prisma/client';
+import { ZodError } from 'zod';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { canAccessWorkspace } from '../auth/workspace-scope';
+import { OwnershipService } from '../auth/ownership.service';
+import { ContactMatcherService } from '../webhooks/services/contact-matcher.service';
+import { CompanyLinkerService } from '../webhooks/services/company-linker.service';
+import { CustomFieldsService } from '../custom-fields/custom-fields.service';
+import { CustomFieldValuesService } from '../custom-fields/custom-field-values.service';
+import { normalizeLinkedInUrl } from '../../common/utils/linkedin.util';
+import { CreateContactSchema } from '../contacts/dto/contact.dto';
+import type { CreateContactDto } from '../contacts/dto/contact.dto';
+import { CreateCompanySchema } from '../companies/dto/company.dto';
+import type { CreateCompanyDto } from '../companies/dto/company.dto';
+import {
+  COMPANY_TARGET_PREFIX,
+  CUSTOM_FIELD_TARGET,
+  ImportEntity,
+  ImportMappingDto,
+  ImportRowResultDto,
+} from './dto/import.dto';
+
+// Normalized CSV header -> target, for the suggested mapping
+const HEADER_ALIASES: Record<ImportEntity, Record<string, string>> = {
+  CONTACT: {
+    firstname: 'firstName',
+    first: 'firstName',
+    givenname: 'firstName',
+    lastname: 'lastName',
+    last: 'lastName',
+    surname: 'lastName',
+    familyname: 'lastName',
+    email: 'email',
+    emailaddress: 'email',
+    mail: 'email',
+    phone: 'phone',
+    phonenumber: 'phone',
+    mobile: 'phone',
+    jobtitle: 'jobTitle',
+    title: 'jobTitle',
+    position: 'jobTitle',
+    role: 'jobTitle',
+    linkedin: 'linkedinUrl',
+    linkedinurl: 'linkedinUrl',
+    linkedinprofile: 'linkedinUrl',
+    twitter: 'twitterUrl',
+    twitterurl: 'twitterUrl',
+    website: 'websiteUrl',
+    websiteurl: 'websiteUrl',
+    leadsource: 'leadSource',
+    source: 'leadSource',
+    leadstatus: 'leadStatus',
+    status: 'leadStatus',
+    priority: 'priority',
+    tags: 'tags',
+    labels: 'tags',
+    company: 'company.name',
+    companyname: 'company.name',
+    organization: 'company.name',
+    account: 'company.name',
+    companywebsite: 'company.website',
+    companydomain: 'company.website',
+    domain: 'company.website',
+    industry: 'company.industry',
+    companysize: 'company.size',
+    employees: 'company.size',
+  },
+  COMPANY: {
+    name: 'name',
+    company: 'name',
+    companyname: 'name',
+    account: 'name',
+    industry: 'industry',
+    size: 'size',
+    companysize: 'size',
+    employees: 'size',
+    website: 'website',
+    domain: 'website',
+    url: 'website',
+    phone: 'phone',
+    email: 'email',
+    address: 'address',
+    street: 'address',
+    city: 'city',
+    country: 'country',
+  },
+};
+
+export interface PlannedImportRow extends ImportRowResultDto {
+  contactData?: CreateContactDto;
+  companyData?: CreateCompanyDto;
+  // Workspace of the contact; companies the row creates go there too
+  workspaceId?: string | null;
+}
+
+export interface ImportPlanContext {
+  organizationId: string;
+  // Whose workspaces and records the import can update
+  user: AuthUser;
+  entity: ImportEntity;
+  mapping: ImportMappingDto;
+  customFieldDefinitions: CustomFieldDefinition[];
+  // Dry-runs can't look up companies created by earlier rows
+  dryRun: boolean;
+  // In-file identifiers (email, LinkedIn URL, company name) -> first row
+  seen: Map<string, number>;
+  // Companies a dry-run would create (workspace and name) -> first row
+  plannedCompanies: Map<string, number>;
+}
+
+@Injectable()
+export class ImportPlannerService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly ownership: OwnershipService,
+    private readonly contactMatcher: ContactMatcherService,
+    private readonly companyLinker: CompanyLinkerService,
+    private readonly customFields: CustomFieldsService,
+    private readonly customFieldValues: CustomFieldValuesService,
+  ) {}
+
+  async createContext(
+    user: AuthUser,
+    entity: ImportEntity,
+    mapping: ImportMappingDto,
+    dryRun: boolean,
+  ): Promise<ImportPlanContext> {
+    const { organizationId } = user;
+
+    return {
+      organizationId,
+      user,
+      entity,
+      mapping,
+      customFieldDefinitions: await this.customFields.getDefinitions(organizationId, entity),
+      dryRun,
+      seen: new Map(),
+      plannedCompanies: new Map(),
+    };
+  }
+
+  /**
+   * Mapping guessed from the CSV headers.
+   */
+  suggestMapping(entity: ImportEntity, columns: string[]): Record<string, string> {
+    const aliases = HEADER_ALIASES[entity];
+    const suggested: Record<string, string> = {};
+    const used = new Set<string>();
+
+    for (const column of columns) {
+      const target = aliases[column.toLowerCase().replace(/[^a-z0-9]/g, '')];
+      if (target && !used.has(target)) {
+        suggested[column] = target;
+        used.add(target);
+      }
+    }
+
+    return suggested;
+  }
+
+  async planRow(
+    context: ImportPlanContext,
+    record: Record<string, string>,
+    row: number,
+  ): Promise<PlannedImportRow> {
+    const values = this.mapRecord(context, record);
+
+    return context.entity === 'CONTACT'
+      ? this.planContact(context, values, row)
+      : this.planCompany(context, values, row);
+  }
+
+  private async planContact(
+    context: ImportPlanContext,
+    values: MappedValues,
+    row: number,
+  ): Promise<PlannedImportRow> {
+    const errors: string[] = [];
+    const input: Record<string, unknown> = { ...values.fields };
+    if (Object.keys(values.customFields).length > 0) {
+      input.customFields = this.checkCustomFields(context, values.customFields, errors);
+    }
+    if (typeof input.linkedinUrl === 'string') {
+      input.linkedinUrl = normalizeLinkedInUrl(input.linkedinUrl);
+    }
+    if (typeof input.leadStatus === 'string') {
+      input.leadStatus = input.leadStatus.toUpperCase();
+    }
+
+    const parsed = CreateContactSchema.safeParse(input);
+    if (!parsed.success) {
+      errors.push(...this.formatErrors(parsed.error));
+    }
+    if (!input.firstName && !input.lastName && !input.email && !input.linkedinUrl) {
+      errors.push('Row needs a name, email or LinkedIn URL');
+    }
+    if (input.leadStatus === 'CONVERTED') {
+      errors.push('leadStatus: Leads are converted with POST /contacts/:id/convert');
+    }
+
+    let companyData: CreateCompanyDto | undefined;
+    if (Object.keys(values.company).length > 0) {
+      const company = CreateCompanySchema.safeParse(values.company);
+      if (company.success) {
+        companyData = company.data;
+      } else {
+        errors.push(...this.formatErrors(company.error, COMPANY_TARGET_PREFIX));
+      }
+    }
+
+    if (!parsed.success || errors.length > 0) {
+      return { row, action: 'ERROR', errors };
+    }
+
+    const contactData = parsed.data;
+    const email = contactData.email?.toLowerCase() ?? null;
+    const linkedinUrl = contactData.linkedinUrl ?? null;
+
+    const duplicateOf = this.checkSeen(context, row, [
+      email && `email:${email}`,
+      linkedinUrl && `linkedin:${linkedinUrl.toLowerCase()}`,
+    ]);
+    if (duplicateOf) {
+      return { row, action: 'SKIP', reason: `Duplicate of row ${duplicateOf}`, errors: [] };
+    }
+
+    const match = await this.contactMatcher.findByIdentifiers(context.organizationId, {
+      linkedinUrl,
+      email,
+    });
+
+    const matchedWorkspaceId = match.existing_data?.workspaceId ?? null;
+    if (match.found && !canAccessWorkspace(context.user, matchedWorkspaceId)) {
+      return { row, action: 'ERROR', errors: ['Matches a contact outside your workspaces'] };
+    }
+    const matchedOwnerId = match.existing_data?.ownerId ?? null;
+    const updatesMatch = match.found && context.mapping.onMatch !== 'SKIP';
+    if (updatesMatch && !(await this.ownership.canEdit(context.user, matchedOwnerId))) {
+      return { row, action: 'ERROR', errors: ['Matches a contact you cannot change'] };
+    }
+
+    const workspaceId = match.found ? matchedWorkspaceId : (context.user.workspaceId ?? null);
+    const company = companyData
+      ? await this.planCompanyLink(context, companyData, workspaceId, row)
+      : undefined;
+
+    if (match.found) {
+      const skip = context.mapping.onMatch === 'SKIP';
+      return {
+        row,
+        action: skip ? 'SKIP' : 'UPDATE',
+        matchType: match.match_type,
+        recordId: match.contact_id,
+        reason: skip ? 'Matches an existing contact' : undefined,
+        company,
+        errors: [],
+        contactData,
+        companyData,
+        workspaceId,
+      };
+    }
+
+    const missing = this.missingCustomFields(context, contactData.customFields);
+    if (missing.length > 0) {
+      return { row, action: 'ERROR', errors: missing };
+    }
+
+    return {
+      row,
+      action: 'CREATE',
+      company,
+      errors: [],
+      contactData,
+      companyData,
+      workspaceId,
+    };
+  }
+
+  private async planCompany(
+    context: ImportPlanContext,
+    values: MappedValues,
+    row: number,
+  ): Promise<PlannedImportRow> {
+    const errors: string[] = [];
+    const input: Record<string, unknown> = { ...values.fields };
+    if (Object.keys(values.customFields).length > 0) {
+      input.customFields = this.checkCustomFields(context, values.customFields, errors);
+    }
+
+    const parsed = CreateCompanySchema.safeParse(input);
+    if (!parsed.success) {
+      errors.push(...this.formatErrors(parsed.error));
+    }
+    if (!parsed.success || errors.length > 0) {
+      return { row, action: 'ERROR', errors };
+    }
+
+    const companyData = parsed.data;
+    const duplicateOf = this.checkSeen(context, row, [
+      `company:${this.companyLinker.normalizeCompanyName(companyData.name)}`,
+    ]);
+    if (duplicateOf) {
+      return { row, action: 'SKIP', reason: `Duplicate of row ${duplicateOf}`, errors: [] };
+    }
+
+    const existingId = await this.companyLinker.linkCompany(
+      { organizationId: context.organizationId, workspaceId: context.user.workspaceId ?? null },
+      companyData.name,
+      companyData.website ?? undefined,
+      { createMissing: false },
+    );
+
+    const matchError = existingId ? await this.checkMatchedCompany(context, existingId) : null;
+    if (matchError) {
+      return { row, action: 'ERROR', errors: [matchError] };
+    }
+    if (existingId) {
+      const skip = context.mapping.onMatch === 'SKIP';
+      return {
+        row,
+        action: skip ? 'SKIP' : 'UPDATE',
+        matchType: 'COMPANY',
+        recordId: existingId,
+        reason: skip ? 'Matches an existing company' : undefined,
+        errors: [],
+        companyData,
+      };
+    }
+
+    const missing = this.missingCustomFields(context, companyData.customFields);
+    if (missing.length > 0) {
+      return { row, action: 'ERROR', errors: missing };
+    }
+
+    return { row, action: 'CREATE', errors: [], companyData };
+  }
+
+  /**
+   * Link the row's company from the contact's workspace, or plan to
+   * create it there.
+   */
+  private async planCompanyLink(
+    context: ImportPlanContext,
+    companyData: CreateCompanyDto,
+    workspaceId: string | null,
+    row: number,
+  ): Promise<PlannedImportRow['company']> {
+    const companyId = await this.companyLinker.linkCompany(
+      { organizationId: context.organizationId, workspaceId },
+      companyData.name,
+      companyData.website ?? undefined,
+      { createMissing: false },
+    );
+    if (companyId) {
+      return { action: 'LINK', name: companyData.name, companyId };
+    }
+
+    if (context.dryRun) {
+      const key = `${workspaceId}:${this.companyLinker.normalizeCompanyName(companyData.name)}`;
+      if (context.plannedCompanies.has(key)) {
+        return { action: 'LINK', name: companyData.name };
+      }
+      context.plannedCompanies.set(key, row);
+    }
+
+    return { action: 'CREATE', name: companyData.name };
+  }
+
+  /**
+   * Why a row can't use the matched company, if it can't.
+   */
+  private async checkMatchedCompany(
+    context: ImportPlanContext,
+    id: string,
+  ): Promise<string | null> {
+    const company = await this.prisma.company.findUniqueOrThrow({
+      where: { id },
+      select: { workspaceId: true, ownerId: true },
+    });
+
+    if (!canAccessWorkspace(context.user, company.workspaceId)) {
+      return 'Matches a company outside your workspaces';
+    }
+    const updates = context.mapping.onMatch !== 'SKIP';
+    if (updates && !(await this.ownership.canEdit(context.user, company.ownerId))) {
+      return 'Matches a company you cannot change';
+    }
+    return null;
+  }
+
+  /**
+   * Normalized custom field values; problems are added to `errors`.
+   */
+  private checkCustomFields(
+    context: ImportPlanContext,
+    customFields: Record<string, string>,
+    errors: string[],
+  ): Record<string, unknown> {
+    const checked = this.customFieldValues.check(
+      context.customFieldDefinitions,
+      context.entity,
+      customFields,
+      false,
+    );
+    errors.push(...checked.errors);
+    return checked.value;
+  }
+
+  /**
+   * Errors for required custom fields a new record would be missing.
+   */
+  private missingCustomFields(
+    context: ImportPlanContext,
+    customFields: Record<string, unknown> | null | undefined,
+  ): string[] {
+    return context.customFieldDefinitions
+      .filter((definition) => definition.required && customFields?.[definition.key] == null)
+      .map((definition) => `customFields.${definition.key}: Required`);
+  }
+
+  /**
+   * First row that used any of the keys, or null; records the keys otherwise.
+   */
+  private checkSeen(
+    context: ImportPlanContext,
+    row: number,
+    keys: Array<string | null | false>,
+  ): number | null {
+    const present = keys.filter((key): key is string => !!key);
+
+    for (const key of present) {
+      const firstRow = context.seen.get(key);
+      if (firstRow !== undefined) {
+        return firstRow;
+      }
+    }
+    for (const key of present) {
+      context.seen.set(key, row);
+    }
+
+    return null;
+  }
+
+  private mapRecord(context: ImportPlanContext, record: Record<string, string>): MappedValues {
+    const values: MappedValues = { fields: {}, customFields: {}, company: {} };
+
+    for (const [column, target] of Object.entries(context.mapping.mapping)) {
+      const value = (record[column] ?? '').trim();
+      if (!value) continue;
+
+      if (CUSTOM_FIELD_TARGET.test(target)) {
+        values.customFields[target.slice('customFields.'.length)] = value;
+      } else if (context.entity === 'CONTACT' && target.startsWith(COMPANY_TARGET_PREFIX)) {
+        values.company[target.slice(COMPANY_TARGET_PREFIX.length)] = value;
+      } else if (target === 'tags') {
+        values.fields.tags = value.split(/[;,|]/).map((tag) => tag.trim()).filter(Boolean);
+      } else {
+        values.fields[target] = value;
+      }
+    }
+
+    return values;
+  }
+
+  private formatErrors(error: ZodError, prefix = ''): string[] {
+    return error.errors.map((issue) => `${prefix}${issue.path.join('.')}: ${issue.message}`);
+  }
+}
+
+interface MappedValues {
+  fields: Record<string, unknown>;
+  customFields: Record<string, string>;
+  company: Record<string, string>;
+}
@@ -0,0 +1,124 @@
+/**
+ * IMPORTS CONTROLLER
+ * ==================
+ * CSV import of contacts and companies: upload, map columns, dry-run,
+ * commit in the background, and undo.
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ImportsService } from './imports.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  ImportMappingSchema,
+  ListImportsQuerySchema,
+  UploadImportQuerySchema,
+} from './dto/import.dto';
+import type {
+  ImportMappingDto,
+  ListImportsQueryDto,
+  UploadImportQueryDto,
+} from './dto/import.dto';
+
+@Controller('imports')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class ImportsController {
+  constructor(private readonly importsService: ImportsService) {}
+
+  /**
+   * POST /imports?entity=CONTACT&fileName=leads.csv
+   *
+   * Upload a CSV file (Content-Type: text/csv). Returns the columns,
+   * sample rows and a suggested column mapping.
+   */
+  @Post()
+  async upload(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(UploadImportQuerySchema)) query: UploadImportQueryDto,
+    @Body() body: unknown,
+  ) {
+    return this.importsService.upload(user, query, body);
+  }
+
+  /**
+   * GET /imports
+   */
+  @Get()
+  async list(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ListImportsQuerySchema)) query: ListImportsQueryDto,
+  ) {
+    return this.importsService.list(user, query);
+  }
+
+  /**
+   * GET /imports/:id
+   *
+   * Progress, counters and per-row errors.
+   */
+  @Get(':id')
+  async get(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.importsService.get(user, id);
+  }
+
+  /**
+   * POST /imports/:id/dry-run
+   *
+   * What each row would do with this mapping. Nothing is written.
+   */
+  @Post(':id/dry-run')
+  @HttpCode(HttpStatus.OK)
+  async dryRun(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(ImportMappingSchema)) body: ImportMappingDto,
+  ) {
+    return this.importsService.dryRun(user, id, body);
+  }
+
+  /**
+   * POST /imports/:id/commit
+   *
+   * Run the import in the background; poll GET /imports/:id for progress.
+   */
+  @Post(':id/commit')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async commit(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(ImportMappingSchema)) body: ImportMappingDto,
+  ) {
+    return this.importsService.commit(user, id, body);
+  }
+
+  /**
+   * POST /imports/:id/undo
+   *
+   * Delete what the import created and restore what it updated.
+   */
+  @Post(':id/undo')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async undo(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.importsService.undo(user, id);
+  }
+}
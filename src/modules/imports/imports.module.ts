@@ -0,0 +1,33 @@
+/**
+ * IMPORTS MODULE
+ * ==============
+ * CSV import of contacts and companies with column mapping, dry-run
+ * and undo.
+ */
+
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { CustomFieldsModule } from '../custom-fields/custom-fields.module';
+import { EventsModule } from '../events/events.module';
+import { CompaniesModule } from '../companies/companies.module';
+import { ContactsModule } from '../contacts/contacts.module';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
+import { WebhooksModule } from '../webhooks/webhooks.module';
+import { ImportsController } from './imports.controller';
+import { ImportsService } from './imports.service';
+import { ImportPlannerService } from './import-planner.service';
+
+@Module({
+  imports: [
+    AuthModule,
+    CustomFieldsModule,
+    EventsModule,
+    CompaniesModule,
+    ContactsModule,
+    LeadScoringModule,
+    WebhooksModule,
+  ],
+  controllers: [ImportsController],
+  providers: [ImportsService, ImportPlannerService],
+})
+export class ImportsModule {}
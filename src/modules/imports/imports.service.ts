@@ -0,0 +1,1012 @@
+/**
+ * IMPORTS SERVICE
+ * ===============
+ * CSV imports of contacts and companies.
+ *
+ * - upload() stores the file and suggests a column mapping
+ * - dryRun() plans every row without writing anything
+ * - commit() queues the import; rows are applied one by one in the background,
+ *   each in its own transaction, and every created or updated record is logged
+ * - undo() walks that log backwards: created records are deleted, updated
+ *   records get their previous values back. Records changed since the import
+ *   (or merged into) are left alone and reported, and the import ends up
+ *   PARTIALLY_UNDONE
+ * - Running imports and undos keep a heartbeat (see job-heartbeat.ts). On
+ *   startup and then periodically, every replica resumes queued imports and
+ *   undos left behind, and fails imports whose replica stopped mid-run (what
+ *   they wrote can still be undone); undos are claimed so only one replica
+ *   runs each
+ *
+ * Imported and restored records are published as CRM events like any other write.
+ * Imports run with the uploader's workspace access and role, and create
+ * records in the uploader's current workspace, owned by the uploader. Only
+ * the uploader, managers and admins can commit or undo an import.
+ * Companies created for an updated contact go to that contact's workspace.
+ */
+
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ImportJob, ImportRecord, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { resolveWorkspaceId, workspaceCondition } from '../auth/workspace-scope';
+import { isRole } from '../auth/roles';
+import { parseCsv } from '../../common/utils/csv';
+import {
+  startHeartbeat,
+  staleJobCondition,
+  STALE_JOB_MS,
+} from '../../common/utils/job-heartbeat';
+import {
+  cursorArgs,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import { ContactsService } from '../contacts/contacts.service';
+import { ContactHistoryService } from '../contacts/contact-history.service';
+import { LinkedInProfileService } from '../contacts/linkedin-profile.service';
+import { canTransitionLeadStatus, toLeadStatus } from '../contacts/lead-status';
+import { CompaniesService } from '../companies/companies.service';
+import { LeadScoringService } from '../lead-scoring/lead-scoring.service';
+import { CrmEventsService } from '../events/crm-events.service';
+import { isReservedCustomField } from '../custom-fields/reserved-custom-fields';
+import { ImportPlannerService, PlannedImportRow } from './import-planner.service';
+import {
+  CUSTOM_FIELD_TARGET,
+  ImportDryRunDto,
+  ImportEntity,
+  ImportJobErrorDto,
+  ImportJobStatusDto,
+  ImportMappingDto,
+  ImportMappingSchema,
+  ImportUploadDto,
+  isImportTarget,
+  ListImportsQueryDto,
+  UploadImportQueryDto,
+} from './dto/import.dto';
+
+const MAX_IMPORT_ROWS = 10000;
+const SAMPLE_ROWS = 5;
+
+// Counters are written every this many rows while an import runs
+const PROGRESS_INTERVAL = 50;
+
+// Per-row errors kept on the job; later ones are only counted
+const MAX_STORED_ERRORS = 500;
+
+type Tx = Prisma.TransactionClient;
+
+@Injectable()
+export class ImportsService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(ImportsService.name);
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly planner: ImportPlannerService,
+    private readonly contactsService: ContactsService,
+    private readonly companiesService: CompaniesService,
+    private readonly contactHistory: ContactHistoryService,
+    private readonly linkedInProfiles: LinkedInProfileService,
+    private readonly leadScoring: LeadScoringService,
+    private readonly events: CrmEventsService,
+  ) {}
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.recover();
+
+    this.timer = setInterval(() => this.recover(), STALE_JOB_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Fail imports whose replica stopped, and start queued imports and
+   * abandoned undos. Running ones elsewhere keep their heartbeat fresh.
+   */
+  private async recover(): Promise<void> {
+    try {
+      const interrupted = await this.prisma.importJob.updateMany({
+        where: { status: 'RUNNING', ...staleJobCondition() },
+        data: { status: 'FAILED', finishedAt: new Date() },
+      });
+      if (interrupted.count > 0) {
+        this.logger.warn(`Marked ${interrupted.count} interrupted imports as failed`);
+      }
+
+      const pending = await this.prisma.importJob.findMany({
+        where: {
+          OR: [{ status: 'QUEUED' }, { status: 'UNDOING', ...staleJobCondition() }],
+        },
+        select: { id: true, status: true },
+        orderBy: { createdAt: 'asc' },
+      });
+      for (const job of pending) {
+        if (job.status === 'QUEUED') {
+          this.start(job.id);
+        } else {
+          this.startUndo(job.id);
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Failed to resume imports: ${error}`);
+    }
+  }
+
+  /**
+   * Store an uploaded CSV file. Nothing is imported until the mapping
+   * is committed.
+   */
+  async upload(
+    user: AuthUser,
+    query: UploadImportQueryDto,
+    body: unknown,
+  ): Promise<ImportUploadDto> {
+    if (typeof body !== 'string' || !body.trim()) {
+      throw new BadRequestException('Send the CSV file as the request body with Content-Type: text/csv');
+    }
+
+    const [header, ...rows] = parseCsv(body);
+    if (!header || rows.length === 0) {
+      throw new BadRequestException('CSV needs a header row and at least one data row');
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(`CSV has ${rows.length} rows; the limit is ${MAX_IMPORT_ROWS}`);
+    }
+
+    const columns = this.toColumns(header);
+    const job = await this.prisma.importJob.create({
+      data: {
+        organizationId: user.organizationId,
+        userId: user.userId,
+        workspaceId: resolveWorkspaceId(user, undefined),
+        workspaceIds: user.workspaceIds,
+        orgWide: user.orgWide,
+        role: user.role,
+        teamId: user.teamId ?? null,
+        entity: query.entity,
+        fileName: query.fileName ?? null,
+        csv: body,
+        columns,
+        total: rows.length,
+      },
+    });
+
+    this.logger.log(`Uploaded import ${job.id} with ${rows.length} rows`);
+
+    return {
+      id: job.id,
+      entity: query.entity,
+      columns,
+      rowCount: rows.length,
+      sampleRows: rows.slice(0, SAMPLE_ROWS).map((row) => this.toRecord(columns, row)),
+      suggestedMapping: this.planner.suggestMapping(query.entity, columns),
+    };
+  }
+
+  /**
+   * List imports, newest first, using cursor pagination.
+   */
+  async list(
+    user: AuthUser,
+    query: ListImportsQueryDto,
+  ): Promise<PaginatedResult<ImportJobStatusDto>> {
+    const rows = await this.prisma.importJob.findMany({
+      where: {
+        organizationId: user.organizationId,
+        ...workspaceCondition(user),
+        ...(query.status ? { status: query.status } : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    const page = toPaginatedResult(rows, query.limit);
+    return { ...page, data: page.data.map((job) => this.toStatus(job)) };
+  }
+
+  /**
+   * Current status of an import.
+   */
+  async get(user: AuthUser, id: string): Promise<ImportJobStatusDto> {
+    return this.toStatus(await this.findOrThrow(user, id));
+  }
+
+  /**
+   * Plan every row with the given mapping without writing anything.
+   */
+  async dryRun(user: AuthUser, id: string, dto: ImportMappingDto): Promise<ImportDryRunDto> {
+    const job = await this.findOrThrow(user, id);
+    if (job.status !== 'UPLOADED') {
+      throw new ConflictException(`Import is ${job.status.toLowerCase()}`);
+    }
+    this.assertMapping(job, dto);
+
+    const context = await this.planner.createContext(
+      this.jobUser(job),
+      job.entity as ImportEntity,
+      dto,
+      true,
+    );
+    const result: ImportDryRunDto = { total: 0, create: 0, update: 0, skip: 0, error: 0, rows: [] };
+
+    const records = this.readRecords(job);
+    for (const [index, record] of records.entries()) {
+      const { contactData, companyData, workspaceId, ...row } = await this.planner.planRow(
+        context,
+        record,
+        index + 2,
+      );
+
+      result.total++;
+      result[row.action.toLowerCase() as 'create' | 'update' | 'skip' | 'error']++;
+      result.rows.push(row);
+    }
+
+    return result;
+  }
+
+  /**
+   * Queue the import with the given mapping and start it in the background.
+   */
+  async commit(user: AuthUser, id: string, dto: ImportMappingDto): Promise<ImportJobStatusDto> {
+    const job = await this.findOrThrow(user, id);
+    this.assertCanRun(user, job);
+    this.assertMapping(job, dto);
+
+    const queued = await this.prisma.importJob.updateMany({
+      where: { id, status: 'UPLOADED' },
+      data: {
+        status: 'QUEUED',
+        mapping: dto.mapping,
+        options: { onMatch: dto.onMatch },
+      },
+    });
+    if (queued.count === 0) {
+      throw new ConflictException(`Import is ${job.status.toLowerCase()}`);
+    }
+
+    this.logger.log(`Queued import ${id}`);
+    this.start(id);
+
+    return this.get(user, id);
+  }
+
+  /**
+   * Revert a finished import and start it in the background.
+   */
+  async undo(user: AuthUser, id: string): Promise<ImportJobStatusDto> {
+    const job = await this.findOrThrow(user, id);
+    this.assertCanRun(user, job);
+
+    const claimed = await this.prisma.importJob.updateMany({
+      where: { id, status: { in: ['COMPLETED', 'FAILED'] } },
+      data: { status: 'UNDOING', heartbeatAt: null },
+    });
+    if (claimed.count === 0) {
+      throw new ConflictException(
+        `Only completed or failed imports can be undone; this one is ${job.status.toLowerCase()}`,
+      );
+    }
+
+    this.logger.log(`Undoing import ${id}`);
+    this.startUndo(id);
+
+    return this.get(user, id);
+  }
+
+  /**
+   * Fire-and-forget wrapper around run().
+   */
+  private start(jobId: string): void {
+    setImmediate(() => {
+      this.run(jobId).catch((error) => {
+        this.logger.error(`Import ${jobId} crashed: ${error}`);
+      });
+    });
+  }
+
+  /**
+   * Fire-and-forget wrapper around runUndo().
+   */
+  private startUndo(jobId: string): void {
+    setImmediate(() => {
+      this.runUndo(jobId).catch((error) => {
+        this.logger.error(`Undo of import ${jobId} crashed: ${error}`);
+      });
+    });
+  }
+
+  private async run(jobId: string): Promise<void> {
+    // Claim the job so it only runs once
+    const claimed = await this.prisma.importJob.updateMany({
+      where: { id: jobId, status: 'QUEUED' },
+      data: { status: 'RUNNING', startedAt: new Date(), heartbeatAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+    const stopHeartbeat = this.startJobHeartbeat(jobId);
+
+    try {
+      await this.importRows(jobId);
+    } finally {
+      stopHeartbeat();
+    }
+  }
+
+  private async importRows(jobId: string): Promise<void> {
+    const job = await this.prisma.importJob.findUniqueOrThrow({ where: { id: jobId } });
+    const mapping = ImportMappingSchema.parse({ ...(job.options as object), mapping: job.mapping });
+    const context = await this.planner.createContext(
+      this.jobUser(job),
+      job.entity as ImportEntity,
+      mapping,
+      false,
+    );
+    const counters = { processed: 0, created: 0, updated: 0, skipped: 0, failed: 0 };
+    const errors: ImportJobErrorDto[] = [];
+    const contactIds: string[] = [];
+
+    try {
+      const records = this.readRecords(job);
+      for (const [index, record] of records.entries()) {
+        const row = index + 2;
+
+        try {
+          const plan = await this.planner.planRow(context, record, row);
+
+          if (plan.action === 'ERROR') {
+            counters.failed++;
+            this.recordError(errors, row, plan.errors);
+          } else if (plan.action === 'SKIP') {
+            counters.skipped++;
+          } else {
+            const recordId = await this.apply(job, plan);
+            counters[plan.action === 'CREATE' ? 'created' : 'updated']++;
+            if (job.entity === 'CONTACT') {
+              contactIds.push(recordId);
+            }
+          }
+        } catch (error) {
+          counters.failed++;
+          this.recordError(errors, row, [error instanceof Error ? error.message : 'Unknown error']);
+        }
+
+        counters.processed++;
+        if (counters.processed % PROGRESS_INTERVAL === 0) {
+          // Stop writing rows once the job was failed as stale; it may be undoing by now
+          const progress = await this.prisma.importJob.updateMany({
+            where: { id: jobId, status: 'RUNNING' },
+            data: counters,
+          });
+          if (progress.count === 0) {
+            break;
+          }
+        }
+      }
+
+      const finished = await this.prisma.importJob.updateMany({
+        where: { id: jobId, status: 'RUNNING' },
+        data: {
+          ...counters,
+          status: 'COMPLETED',
+          finishedAt: new Date(),
+          errors: errors as unknown as Prisma.InputJsonValue,
+        },
+      });
+      if (finished.count === 0) {
+        this.logger.warn(`Import ${jobId} was failed as stale while running; stopped`);
+      } else {
+        this.logger.log(
+          `Import ${jobId} completed: ${counters.created} created, ${counters.updated} updated, ${counters.skipped} skipped, ${counters.failed} failed`,
+        );
+      }
+    } catch (error) {
+      this.logger.error(`Import ${jobId} failed: ${error}`);
+      await this.prisma.importJob.updateMany({
+        where: { id: jobId, status: 'RUNNING' },
+        data: {
+          ...counters,
+          status: 'FAILED',
+          finishedAt: new Date(),
+          errors: errors as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+
+    if (contactIds.length > 0) {
+      this.leadScoring.recomputeInBackground(job.organizationId, contactIds);
+    }
+  }
+
+  /**
+   * Write one planned row and log what it created or updated.
+   * Returns the id of the imported record.
+   */
+  private async apply(job: ImportJob, plan: PlannedImportRow): Promise<string> {
+    return this.prisma.$transaction(async (tx) => {
+      if (job.entity === 'COMPANY') {
+        return this.applyCompany(tx, job, plan);
+      }
+
+      let companyId: string | undefined;
+      if (plan.company?.companyId) {
+        companyId = plan.company.companyId;
+      } else if (plan.companyData) {
+        const { customFields, ...companyFields } = plan.companyData;
+        const company = await tx.company.create({
+          data: {
+            ...companyFields,
+            customFields: customFields ?? Prisma.DbNull,
+            organizationId: job.organizationId,
+            workspaceId: plan.workspaceId ?? null,
+            ownerId: job.userId,
+          },
+        });
+        await this.logRecord(tx, job, plan.row, 'COMPANY', company, 'CREATED');
+        await this.events.emit(
+          { organizationId: job.organizationId, type: 'company.created', data: company },
+          tx,
+        );
+        companyId = company.id;
+      }
+
+      return this.applyContact(tx, job, plan, companyId);
+    });
+  }
+
+  private async applyContact(
+    tx: Tx,
+    job: ImportJob,
+    plan: PlannedImportRow,
+    companyId: string | undefined,
+  ): Promise<string> {
+    const { customFields, email, tags, ...fields } = plan.contactData!;
+
+    if (plan.action === 'CREATE') {
+      const data = {
+        ...fields,
+        email: email?.toLowerCase() ?? null,
+        tags: tags ?? [],
+        leadSource: fields.leadSource ?? 'CSV_IMPORT',
+        ...(customFields ? { customFields } : {}),
+        ...(companyId ? { companyId } : {}),
+      };
+      const created = await tx.contact.create({
+        data: {
+          ...data,
+          organizationId: job.organizationId,
+          workspaceId: job.workspaceId,
+          ownerId: job.userId,
+        },
+      });
+
+      await this.contactHistory.recordChanges(
+        {
+          organizationId: job.organizationId,
+          contactId: created.id,
+          source: 'IMPORT',
+          actorId: job.userId,
+          before: {},
+          data,
+        },
+        tx,
+      );
+      await this.linkedInProfiles.syncFromContact(created, tx);
+      await this.logRecord(tx, job, plan.row, 'CONTACT', created, 'CREATED');
+      await this.events.emit(
+        { organizationId: job.organizationId, type: 'contact.created', data: created },
+        tx,
+      );
+
+      return created.id;
+    }
+
+    const existing = await tx.contact.findFirstOrThrow({
+      where: { id: plan.recordId, organizationId: job.organizationId },
+    });
+
+    if (fields.leadStatus && fields.leadStatus !== toLeadStatus(existing.leadStatus)) {
+      if (!canTransitionLeadStatus(existing.leadStatus, fields.leadStatus)) {
+        throw new Error(
+          `Cannot change lead status from ${toLeadStatus(existing.leadStatus)} to ${fields.leadStatus}`,
+        );
+      }
+    }
+
+    // Imported tags and custom fields are added to the existing ones
+    const data: Record<string, unknown> = {
+      ...fields,
+      ...(email ? { email: email.toLowerCase() } : {}),
+      ...(tags ? { tags: [...new Set([...existing.tags, ...tags])] } : {}),
+      ...(customFields
+        ? { customFields: { ...(existing.customFields as Record<string, unknown> | null), ...customFields } }
+        : {}),
+      ...(companyId ? { companyId } : {}),
+    };
+    const previousValues = Object.fromEntries(
+      Object.keys(data).map((field) => [field, existing[field as keyof typeof existing] ?? null]),
+    );
+
+    const updated = await tx.contact.update({
+      where: { id: existing.id },
+      data: data as Prisma.ContactUncheckedUpdateInput,
+    });
+
+    await this.contactHistory.recordChanges(
+      {
+        organizationId: job.organizationId,
+        contactId: existing.id,
+        source: 'IMPORT',
+        actorId: job.userId,
+        before: existing,
+        data,
+      },
+      tx,
+    );
+    if (customFields) {
+      await this.linkedInProfiles.syncFromContact(updated, tx);
+    }
+    await this.logRecord(tx, job, plan.row, 'CONTACT', updated, 'UPDATED', previousValues);
+    await this.events.emit(
+      {
+        organizationId: job.organizationId,
+        type: 'contact.updated',
+        data: updated,
+        previous: existing,
+      },
+      tx,
+    );
+
+    return existing.id;
+  }
+
+  private async applyCompany(tx: Tx, job: ImportJob, plan: PlannedImportRow): Promise<string> {
+    const { customFields, ...fields } = plan.companyData!;
+
+    if (plan.action === 'CREATE') {
+      const created = await tx.company.create({
+        data: {
+          ...fields,
+          customFields: customFields ?? Prisma.DbNull,
+          organizationId: job.organizationId,
+          workspaceId: job.workspaceId,
+          ownerId: job.userId,
+        },
+      });
+      await this.logRecord(tx, job, plan.row, 'COMPANY', created, 'CREATED');
+      await this.events.emit(
+        { organizationId: job.organizationId, type: 'company.created', data: created },
+        tx,
+      );
+
+      return created.id;
+    }
+
+    const existing = await tx.company.findFirstOrThrow({
+      where: { id: plan.recordId, organizationId: job.organizationId },
+    });
+
+    const data: Record<string, unknown> = {
+      ...fields,
+      ...(customFields
+        ? { customFields: { ...(existing.customFields as Record<string, unknown> | null), ...customFields } }
+        : {}),
+    };
+    const previousValues = Object.fromEntries(
+      Object.keys(data).map((field) => [field, existing[field as keyof typeof existing] ?? null]),
+    );
+
+    const updated = await tx.company.update({
+      where: { id: existing.id },
+      data: data as Prisma.CompanyUncheckedUpdateInput,
+    });
+    await this.logRecord(tx, job, plan.row, 'COMPANY', updated, 'UPDATED', previousValues);
+    await this.events.emit(
+      {
+        organizationId: job.organizationId,
+        type: 'company.updated',
+        data: updated,
+        previous: existing,
+      },
+      tx,
+    );
+
+    return existing.id;
+  }
+
+  /**
+   * Revert what the import logged. Undone records are marked, so an undo
+   * whose replica stopped resumes where it left off.
+   */
+  private async runUndo(jobId: string): Promise<void> {
+    // Claim the undo so only one replica runs it
+    const claimed = await this.prisma.importJob.updateMany({
+      where: { id: jobId, status: 'UNDOING', ...staleJobCondition() },
+      data: { heartbeatAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+    const stopHeartbeat = this.startJobHeartbeat(jobId);
+
+    try {
+      await this.undoRecords(jobId);
+    } finally {
+      stopHeartbeat();
+    }
+  }
+
+  private async undoRecords(jobId: string): Promise<void> {
+    const job = await this.prisma.importJob.findUniqueOrThrow({ where: { id: jobId } });
+    const user = this.jobUser(job);
+    const records = await this.prisma.importRecord.findMany({
+      where: { importJobId: jobId, undoneAt: null },
+      // CONTACT sorts after COMPANY, so within a row the contact goes first
+      orderBy: [{ row: 'desc' }, { entity: 'desc' }, { createdAt: 'desc' }],
+    });
+    const restoredContactIds: string[] = [];
+    const undoErrors: ImportJobErrorDto[] = [];
+    let leftAlone = 0;
+
+    // Newest first, so a row's contact goes before the company it created
+    for (const record of records) {
+      try {
+        if (await this.changedSinceImport(job, record)) {
+          const entity = record.entity === 'CONTACT' ? 'Contact' : 'Company';
+          leftAlone++;
+          this.recordError(undoErrors, record.row, [
+            `${entity} ${record.recordId} changed after the import`,
+          ]);
+          continue;
+        }
+
+        if (record.action === 'CREATED') {
+          if (record.entity === 'CONTACT') {
+            await this.contactsService.remove(user, record.recordId);
+          } else {
+            await this.companiesService.remove(user, record.recordId);
+          }
+        } else if (record.entity === 'CONTACT') {
+          if (await this.restoreContact(job, record.recordId, record.previousValues)) {
+            restoredContactIds.push(record.recordId);
+          }
+        } else {
+          await this.restoreCompany(job, record.recordId, record.previousValues);
+        }
+        await this.markUndone(record);
+      } catch (error) {
+        // Records deleted since the import are already gone
+        if (error instanceof NotFoundException) {
+          await this.markUndone(record);
+        } else {
+          this.logger.error(`Import ${jobId}: failed to undo row ${record.row}: ${error}`);
+          leftAlone++;
+          this.recordError(undoErrors, record.row, [
+            error instanceof Error ? error.message : 'Unknown error',
+          ]);
+        }
+      }
+    }
+
+    await this.prisma.importJob.update({
+      where: { id: jobId },
+      data: {
+        status: leftAlone > 0 ? 'PARTIALLY_UNDONE' : 'UNDONE',
+        undoneAt: new Date(),
+        undoErrors: undoErrors as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    this.logger.log(
+      `Undid import ${jobId} (${records.length} records, ${leftAlone} left as they were)`,
+    );
+    if (restoredContactIds.length > 0) {
+      this.leadScoring.recomputeInBackground(job.organizationId, restoredContactIds);
+    }
+  }
+
+  /**
+   * Put an updated contact's previous values back, recorded as an IMPORT
+   * change. Returns false when the contact no longer exists.
+   */
+  private async restoreContact(
+    job: ImportJob,
+    contactId: string,
+    previousValues: Prisma.JsonValue,
+  ): Promise<boolean> {
+    return this.prisma.$transaction(async (tx) => {
+      const existing = await tx.contact.findFirst({
+        where: { id: contactId, organizationId: job.organizationId },
+      });
+      if (!existing) {
+        return false;
+      }
+
+      const data = this.toRestoreData(previousValues);
+      const restored = await tx.contact.update({
+        where: { id: contactId },
+        data: data as Prisma.ContactUncheckedUpdateInput,
+      });
+
+      await this.contactHistory.recordChanges(
+        {
+          organizationId: job.organizationId,
+          contactId,
+          source: 'IMPORT',
+          actorId: job.userId,
+          before: existing,
+          data,
+        },
+        tx,
+      );
+      if ('customFields' in data) {
+        await this.linkedInProfiles.syncFromContact(restored, tx);
+      }
+      await this.events.emit(
+        {
+          organizationId: job.organizationId,
+          type: 'contact.updated',
+          data: restored,
+          previous: existing,
+        },
+        tx,
+      );
+
+      return true;
+    });
+  }
+
+  /**
+   * Put an updated company's previous values back, unless it was deleted.
+   */
+  private async restoreCompany(
+    job: ImportJob,
+    companyId: string,
+    previousValues: Prisma.JsonValue,
+  ): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const existing = await tx.company.findFirst({
+        where: { id: companyId, organizationId: job.organizationId },
+      });
+      if (!existing) {
+        return;
+      }
+
+      const restored = await tx.company.update({
+        where: { id: companyId },
+        data: this.toRestoreData(previousValues) as Prisma.CompanyUncheckedUpdateInput,
+      });
+      await this.events.emit(
+        {
+          organizationId: job.organizationId,
+          type: 'company.updated',
+          data: restored,
+          previous: existing,
+        },
+        tx,
+      );
+    });
+  }
+
+  /**
+   * Whether a record was written (or merged into) after the import wrote
+   * it. A created company still linked to anything once the import's own
+   * contacts are gone has been adopted, and counts as changed too.
+   * Records logged before updatedAt was kept count as unchanged.
+   */
+  private async changedSinceImport(job: ImportJob, record: ImportRecord): Promise<boolean> {
+    if (!record.recordUpdatedAt) {
+      return false;
+    }
+
+    const where = { id: record.recordId, organizationId: job.organizationId };
+    const current =
+      record.entity === 'CONTACT'
+        ? await this.prisma.contact.findFirst({ where, select: { updatedAt: true } })
+        : await this.prisma.company.findFirst({ where, select: { updatedAt: true } });
+    if (!current) {
+      return false;
+    }
+    if (current.updatedAt.getTime() !== record.recordUpdatedAt.getTime()) {
+      return true;
+    }
+    if (record.entity === 'CONTACT' || record.action !== 'CREATED') {
+      return false;
+    }
+
+    const linked = { companyId: record.recordId };
+    const [contacts, deals, activities] = await Promise.all([
+      this.prisma.contact.count({ where: linked }),
+      this.prisma.deal.count({ where: linked }),
+      this.prisma.activity.count({ where: linked }),
+    ]);
+    return contacts + deals + activities > 0;
+  }
+
+  private async markUndone(record: ImportRecord): Promise<void> {
+    await this.prisma.importRecord.update({
+      where: { id: record.id },
+      data: { undoneAt: new Date() },
+    });
+  }
+
+  private startJobHeartbeat(jobId: string): () => void {
+    return startHeartbeat(
+      () =>
+        this.prisma.importJob.update({ where: { id: jobId }, data: { heartbeatAt: new Date() } }),
+      (error) => this.logger.warn(`Import ${jobId}: heartbeat failed: ${error}`),
+    );
+  }
+
+  private toRestoreData(previousValues: Prisma.JsonValue): Record<string, unknown> {
+    const values = (previousValues ?? {}) as Record<string, unknown>;
+
+    return Object.fromEntries(
+      Object.entries(values).map(([field, value]) => [
+        field,
+        field === 'customFields' && value === null ? Prisma.DbNull : value,
+      ]),
+    );
+  }
+
+  private async logRecord(
+    tx: Tx,
+    job: ImportJob,
+    row: number,
+    entity: ImportEntity,
+    record: { id: string; updatedAt: Date },
+    action: 'CREATED' | 'UPDATED',
+    previousValues?: Record<string, unknown>,
+  ): Promise<void> {
+    await tx.importRecord.create({
+      data: {
+        importJobId: job.id,
+        row,
+        entity,
+        recordId: record.id,
+        action,
+        previousValues: previousValues
+          ? (previousValues as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+        recordUpdatedAt: record.updatedAt,
+      },
+    });
+  }
+
+  /**
+   * Every mapped column must exist in the file and target a known field.
+   */
+  private assertMapping(job: ImportJob, dto: ImportMappingDto): void {
+    const problems: string[] = [];
+    const targets = new Set<string>();
+
+    for (const [column, target] of Object.entries(dto.mapping)) {
+      if (!job.columns.includes(column)) {
+        problems.push(`Unknown column "${column}"`);
+      } else if (!isImportTarget(job.entity as ImportEntity, target)) {
+        problems.push(`Column "${column}" maps to unknown field "${target}"`);
+      } else if (targets.has(target)) {
+        problems.push(`Field "${target}" is mapped more than once`);
+      } else if (
+        CUSTOM_FIELD_TARGET.test(target) &&
+        isReservedCustomField(job.entity as ImportEntity, target.slice('customFields.'.length))
+      ) {
+        problems.push(`Field "${target}" is reserved for the system`);
+      }
+      targets.add(target);
+    }
+
+    if (job.entity === 'COMPANY' && !targets.has('name')) {
+      problems.push('Map a column to "name"');
+    }
+
+    if (problems.length > 0) {
+      throw new BadRequestException({ message: 'Invalid mapping', errors: problems });
+    }
+  }
+
+  private readRecords(job: ImportJob): Record<string, string>[] {
+    const [, ...rows] = parseCsv(job.csv);
+    return rows.map((row) => this.toRecord(job.columns, row));
+  }
+
+  private toRecord(columns: string[], row: string[]): Record<string, string> {
+    return Object.fromEntries(columns.map((column, index) => [column, row[index] ?? '']));
+  }
+
+  /**
+   * Column names from the header row. Blank headers become `column_<n>`
+   * and repeated ones get a `_2`, `_3`, ... suffix.
+   */
+  private toColumns(header: string[]): string[] {
+    const counts = new Map<string, number>();
+
+    return header.map((value, index) => {
+      const name = value.trim() || `column_${index + 1}`;
+      const count = (counts.get(name) ?? 0) + 1;
+      counts.set(name, count);
+      return count === 1 ? name : `${name}_${count}`;
+    });
+  }
+
+  private recordError(errors: ImportJobErrorDto[], row: number, messages: string[]): void {
+    if (errors.length < MAX_STORED_ERRORS) {
+      errors.push({ row, errors: messages });
+    }
+  }
+
+  private async findOrThrow(user: AuthUser, id: string): Promise<ImportJob> {
+    const job = await this.prisma.importJob.findFirst({
+      where: { id, organizationId: user.organizationId, ...workspaceCondition(user) },
+    });
+
+    if (!job) {
+      throw new NotFoundException('Import not found');
+    }
+
+    return job;
+  }
+
+  /**
+   * Imports run as the uploader, so only they, managers and admins may
+   * commit or undo one.
+   */
+  private assertCanRun(user: AuthUser, job: ImportJob): void {
+    if (job.userId !== user.userId && user.role !== 'ADMIN' && user.role !== 'MANAGER') {
+      throw new ForbiddenException('Only the uploader, managers and admins can run this import');
+    }
+  }
+
+  /**
+   * The uploader, with the workspace access and role they had at upload time.
+   */
+  private jobUser(job: ImportJob): AuthUser {
+    return {
+      userId: job.userId,
+      organizationId: job.organizationId,
+      role: isRole(job.role) ? job.role : 'READ_ONLY',
+      teamId: job.teamId ?? undefined,
+      workspaceId: job.workspaceId ?? undefined,
+      workspaceIds: job.workspaceIds,
+      orgWide: job.orgWide,
+    };
+  }
+
+  private toStatus(job: ImportJob): ImportJobStatusDto {
+    return {
+      id: job.id,
+      entity: job.entity,
+      status: job.status,
+      fileName: job.fileName,
+      columns: job.columns,
+      mapping: job.mapping as Record<string, string> | null,
+      total: job.total,
+      processed: job.processed,
+      created: job.created,
+      updated: job.updated,
+      skipped: job.skipped,
+      failed: job.failed,
+      errors: (job.errors ?? []) as unknown as ImportJobErrorDto[],
+      undoErrors: (job.undoErrors ?? []) as unknown as ImportJobErrorDto[],
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+      undoneAt: job.undoneAt,
+      createdAt: job.createdAt,
+    };
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * DEFAULT SCORING MODEL
+ * =====================
+ * Rules used by organizations that haven't configured their own.
+ */
+
+import { ScoringRule } from './dto/lead-scoring.dto';
+
+export const DEFAULT_SCORING_RULES: ScoringRule[] = [
+  {
+    type: 'JOB_TITLE',
+    label: 'Executive or founder',
+    points: 30,
+    keywords: ['chief', 'ceo', 'cto', 'cfo', 'coo', 'cmo', 'founder', 'owner', 'president'],
+  },
+  {
+    type: 'JOB_TITLE',
+    label: 'VP, head or director',
+    points: 20,
+    keywords: ['vp', 'vice president', 'head of', 'director'],
+  },
+  {
+    type: 'JOB_TITLE',
+    label: 'Manager or lead',
+    points: 10,
+    keywords: ['manager', 'lead'],
+  },
+  {
+    type: 'ACTIVITY_COUNT',
+    label: 'Had a meeting',
+    points: 15,
+    activityType: 'MEETING',
+    minCount: 1,
+    withinDays: 90,
+  },
+  {
+    type: 'ACTIVITY_COUNT',
+    label: 'Had a call',
+    points: 10,
+    activityType: 'CALL',
+    minCount: 1,
+    withinDays: 30,
+  },
+  {
+    type: 'ACTIVITY_COUNT',
+    label: 'Email thread',
+    points: 10,
+    activityType: 'EMAIL',
+    minCount: 3,
+    withinDays: 30,
+  },
+  {
+    type: 'RECENT_ACTIVITY',
+    label: 'Engaged in the last two weeks',
+    points: 10,
+    activityTypes: ['CALL', 'EMAIL', 'MEETING'],
+    withinDays: 14,
+  },
+  {
+    type: 'OPEN_DEALS',
+    label: 'Has an open deal',
+    points: 20,
+    minCount: 1,
+  },
+];
+
+export const MIN_LEAD_SCORE = 0;
+export const MAX_LEAD_SCORE = 100;
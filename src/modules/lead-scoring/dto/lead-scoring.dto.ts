@@ -0,0 +1,77 @@
+/**
+ * LEAD SCORING DTOs
+ * =================
+ * Rule definitions for an organization's lead scoring model and the
+ * explanation stored with each contact's score.
+ */
+
+import { z } from 'zod';
+import { ACTIVITY_TYPES } from '../../activities/dto/activity.dto';
+
+const ruleBase = {
+  label: z.string().trim().min(1).max(100),
+  points: z.number().int().min(-100).max(100),
+};
+
+const valueList = z.array(z.string().trim().min(1).max(100)).min(1).max(50);
+const withinDays = z.number().int().min(1).max(365);
+
+export const ScoringRuleSchema = z.discriminatedUnion('type', [
+  // Job title contains any keyword (case-insensitive)
+  z.object({ ...ruleBase, type: z.literal('JOB_TITLE'), keywords: valueList }),
+  // Company or LinkedIn industry is one of the values
+  z.object({ ...ruleBase, type: z.literal('INDUSTRY'), values: valueList }),
+  // Company size is one of the values (e.g. "51-200")
+  z.object({ ...ruleBase, type: z.literal('COMPANY_SIZE'), values: valueList }),
+  // At least minCount activities of a type in the window
+  z.object({
+    ...ruleBase,
+    type: z.literal('ACTIVITY_COUNT'),
+    activityType: z.enum(ACTIVITY_TYPES),
+    minCount: z.number().int().min(1),
+    withinDays,
+  }),
+  // Any activity of the given types in the window
+  z.object({
+    ...ruleBase,
+    type: z.literal('RECENT_ACTIVITY'),
+    activityTypes: z.array(z.enum(ACTIVITY_TYPES)).min(1),
+    withinDays,
+  }),
+  // At least minCount open deals
+  z.object({
+    ...ruleBase,
+    type: z.literal('OPEN_DEALS'),
+    minCount: z.number().int().min(1),
+  }),
+]);
+
+export type ScoringRule = z.infer<typeof ScoringRuleSchema>;
+
+// Replace scoring model request
+export const UpdateScoringModelSchema = z.object({
+  rules: z.array(ScoringRuleSchema).max(100),
+});
+
+export type UpdateScoringModelDto = z.infer<typeof UpdateScoringModelSchema>;
+
+export interface ScoringModelDto {
+  rules: ScoringRule[];
+  isDefault: boolean;
+  updatedAt: Date | null;
+}
+
+// One matched rule in a score explanation
+export interface ScoreReasonDto {
+  label: string;
+  type: ScoringRule['type'];
+  points: number;
+  detail: string;
+}
+
+// Stored in Contact.leadScoreExplanation
+export interface LeadScoreExplanationDto {
+  score: number;
+  rawScore: number;
+  reasons: ScoreReasonDto[];
+}
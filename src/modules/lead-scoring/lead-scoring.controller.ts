@@ -0,0 +1,77 @@
+/**
+ * LEAD SCORING CONTROLLER
+ * =======================
+ * Endpoints for the organization's scoring model and rescoring.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { LeadScoringService } from './lead-scoring.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import { UpdateScoringModelSchema } from './dto/lead-scoring.dto';
+import type { ScoringModelDto, UpdateScoringModelDto } from './dto/lead-scoring.dto';
+
+@Controller('lead-scoring')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class LeadScoringController {
+  constructor(private readonly leadScoringService: LeadScoringService) {}
+
+  /**
+   * GET /lead-scoring/model
+   */
+  @Get('model')
+  async getModel(@CurrentUser() user: AuthUser): Promise<ScoringModelDto> {
+    return this.leadScoringService.getModel(user.organizationId);
+  }
+
+  /**
+   * PUT /lead-scoring/model
+   *
+   * Replace the rules. Contacts are rescored in the background.
+   */
+  @Put('model')
+  @Roles('ADMIN')
+  async updateModel(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(UpdateScoringModelSchema)) body: UpdateScoringModelDto,
+  ): Promise<ScoringModelDto> {
+    return this.leadScoringService.updateModel(user, body);
+  }
+
+  /**
+   * DELETE /lead-scoring/model
+   *
+   * Go back to the default rules.
+   */
+  @Delete('model')
+  @Roles('ADMIN')
+  async resetModel(@CurrentUser() user: AuthUser): Promise<ScoringModelDto> {
+    return this.leadScoringService.resetModel(user);
+  }
+
+  /**
+   * POST /lead-scoring/recompute
+   *
+   * Rescore every contact in the organization in the background.
+   */
+  @Post('recompute')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async recompute(@CurrentUser() user: AuthUser): Promise<void> {
+    this.leadScoringService.recomputeOrganizationInBackground(user.organizationId);
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * LEAD SCORING MODULE
+ * ===================
+ * Rule-based contact scoring, recomputed on writes and on a schedule.
+ */
+
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { LeadScoringController } from './lead-scoring.controller';
+import { LeadScoringService } from './lead-scoring.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [LeadScoringController],
+  providers: [LeadScoringService],
+  exports: [LeadScoringService],
+})
+export class LeadScoringModule {}
@@ -0,0 +1,394 @@
+/**
+ * LEAD SCORING SERVICE
+ * ====================
+ * Rule-based lead scoring. Each organization has a model (or the default
+ * one) whose rules add points for profile attributes and engagement.
+ * The score is written to Contact.leadScore, clamped to 0-100, with an
+ * explanation of every matched rule in Contact.leadScoreExplanation.
+ *
+ * - Contact, activity and deal writes recompute the affected contacts
+ *   in the background
+ * - Every contact is recomputed on a schedule so time windows roll over
+ *   (LEAD_SCORE_INTERVAL_MINUTES, default 60; 0 disables). Each replica
+ *   checks the schedule, and the one that claims the ScheduledRun row runs it
+ * - Unchanged scores are not written, and scoring doesn't touch updatedAt
+ */
+
+import {
+  Injectable,
+  Logger,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { Activity, Company, Contact, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { runWithConcurrency } from '../../common/utils/concurrency';
+import {
+  DEFAULT_SCORING_RULES,
+  MAX_LEAD_SCORE,
+  MIN_LEAD_SCORE,
+} from './default-scoring-model';
+import {
+  LeadScoreExplanationDto,
+  ScoreReasonDto,
+  ScoringModelDto,
+  ScoringRule,
+  ScoringRuleSchema,
+  UpdateScoringModelDto,
+} from './dto/lead-scoring.dto';
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+const CONCURRENCY = 5;
+const PAGE_SIZE = 500;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCHEDULED_RUN_NAME = 'lead-scoring';
+
+interface ScoringInput {
+  contact: Contact & { company: Pick<Company, 'industry' | 'size'> | null };
+  activities: Pick<Activity, 'type' | 'createdAt' | 'completedAt'>[];
+  openDeals: number;
+  now: Date;
+}
+
+@Injectable()
+export class LeadScoringService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(LeadScoringService.name);
+  private readonly intervalMs: number;
+  private timer?: NodeJS.Timeout;
+  private running = false;
+
+  constructor(private readonly prisma: PrismaService) {
+    const minutes = Number(process.env.LEAD_SCORE_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES);
+    this.intervalMs = Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : 0;
+  }
+
+  onApplicationBootstrap(): void {
+    if (this.intervalMs > 0) {
+      this.timer = setInterval(() => this.recomputeAllInBackground(), this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * The organization's scoring model, or the default one.
+   */
+  async getModel(organizationId: string): Promise<ScoringModelDto> {
+    const model = await this.prisma.leadScoringModel.findUnique({
+      where: { organizationId },
+    });
+
+    if (!model) {
+      return { rules: DEFAULT_SCORING_RULES, isDefault: true, updatedAt: null };
+    }
+
+    return {
+      rules: this.parseRules(model.rules),
+      isDefault: false,
+      updatedAt: model.updatedAt,
+    };
+  }
+
+  /**
+   * Replace the organization's rules and rescore its contacts.
+   */
+  async updateModel(user: AuthUser, dto: UpdateScoringModelDto): Promise<ScoringModelDto> {
+    const rules = dto.rules as Prisma.InputJsonValue;
+    await this.prisma.leadScoringModel.upsert({
+      where: { organizationId: user.organizationId },
+      create: { organizationId: user.organizationId, rules, updatedBy: user.userId },
+      update: { rules, updatedBy: user.userId },
+    });
+
+    this.recomputeOrganizationInBackground(user.organizationId);
+    return this.getModel(user.organizationId);
+  }
+
+  /**
+   * Go back to the default model and rescore the organization's contacts.
+   */
+  async resetModel(user: AuthUser): Promise<ScoringModelDto> {
+    await this.prisma.leadScoringModel.deleteMany({
+      where: { organizationId: user.organizationId },
+    });
+
+    this.recomputeOrganizationInBackground(user.organizationId);
+    return this.getModel(user.organizationId);
+  }
+
+  /**
+   * Fire-and-forget rescore of contacts touched by a write.
+   */
+  recomputeInBackground(
+    organizationId: string,
+    contactIds: Array<string | null | undefined>,
+  ): void {
+    const ids = [...new Set(contactIds.filter((id): id is string => !!id))];
+    if (ids.length === 0) {
+      return;
+    }
+
+    setImmediate(() => {
+      this.recompute(organizationId, ids).catch((error) => {
+        this.logger.error(`Failed to rescore contacts ${ids.join(', ')}: ${error}`);
+      });
+    });
+  }
+
+  /**
+   * Fire-and-forget rescore of a whole organization.
+   */
+  recomputeOrganizationInBackground(organizationId: string): void {
+    setImmediate(() => {
+      this.recomputeOrganization(organizationId).catch((error) => {
+        this.logger.error(`Failed to rescore organization ${organizationId}: ${error}`);
+      });
+    });
+  }
+
+  async recompute(organizationId: string, contactIds: string[]): Promise<void> {
+    const { rules } = await this.getModel(organizationId);
+    await runWithConcurrency(contactIds, CONCURRENCY, (contactId) =>
+      this.scoreContact(organizationId, contactId, rules),
+    );
+  }
+
+  /**
+   * Rescore every contact in an organization, a page at a time.
+   */
+  async recomputeOrganization(organizationId: string): Promise<number> {
+    const { rules } = await this.getModel(organizationId);
+    let cursor: string | undefined;
+    let scored = 0;
+
+    for (;;) {
+      const page = await this.prisma.contact.findMany({
+        where: { organizationId },
+        select: { id: true },
+        orderBy: { id: 'asc' },
+        take: PAGE_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+      if (page.length === 0) {
+        break;
+      }
+
+      await runWithConcurrency(page, CONCURRENCY, ({ id }) =>
+        this.scoreContact(organizationId, id, rules),
+      );
+      scored += page.length;
+      cursor = page[page.length - 1].id;
+    }
+
+    this.logger.log(`Rescored ${scored} contacts in organization ${organizationId}`);
+    return scored;
+  }
+
+  private recomputeAllInBackground(): void {
+    if (this.running) {
+      this.logger.warn('Previous scheduled scoring run is still in progress; skipping');
+      return;
+    }
+
+    this.running = true;
+    this.claimScheduledRun()
+      .then((claimed) => (claimed ? this.recomputeAll() : undefined))
+      .catch((error) => this.logger.error(`Scheduled scoring run failed: ${error}`))
+      .finally(() => {
+        this.running = false;
+      });
+  }
+
+  /**
+   * Claim this cycle's run, so only one replica rescores. False when
+   * another replica already ran it.
+   */
+  private async claimScheduledRun(): Promise<boolean> {
+    const now = new Date();
+    await this.prisma.scheduledRun.createMany({
+      data: [{ name: SCHEDULED_RUN_NAME, nextRunAt: now }],
+      skipDuplicates: true,
+    });
+
+    // A little slack so replicas whose timers fire just early still match
+    const claimed = await this.prisma.scheduledRun.updateMany({
+      where: {
+        name: SCHEDULED_RUN_NAME,
+        nextRunAt: { lte: new Date(now.getTime() + this.intervalMs / 10) },
+      },
+      data: { nextRunAt: new Date(now.getTime() + this.intervalMs), lastRunAt: now },
+    });
+    return claimed.count > 0;
+  }
+
+  private async recomputeAll(): Promise<void> {
+    // groupBy runs the distinct in Postgres; findMany's distinct reads every contact
+    const organizations = await this.prisma.contact.groupBy({ by: ['organizationId'] });
+
+    for (const { organizationId } of organizations) {
+      await this.recomputeOrganization(organizationId);
+    }
+  }
+
+  private async scoreContact(
+    organizationId: string,
+    contactId: string,
+    rules: ScoringRule[],
+  ): Promise<void> {
+    const contact = await this.prisma.contact.findFirst({
+      where: { id: contactId, organizationId },
+      include: { company: { select: { industry: true, size: true } } },
+    });
+    if (!contact) {
+      return;
+    }
+
+    const now = new Date();
+    const windowDays = Math.max(
+      0,
+      ...rules.map((rule) => ('withinDays' in rule ? rule.withinDays : 0)),
+    );
+    const since = new Date(now.getTime() - windowDays * DAY_MS);
+
+    const activities = windowDays
+      ? await this.prisma.activity.findMany({
+          where: {
+            contactId,
+            status: { not: 'CANCELLED' },
+            OR: [
+              { completedAt: { gte: since } },
+              { completedAt: null, createdAt: { gte: since } },
+            ],
+          },
+          select: { type: true, createdAt: true, completedAt: true },
+        })
+      : [];
+
+    const openDeals = rules.some((rule) => rule.type === 'OPEN_DEALS')
+      ? await this.prisma.deal.count({ where: { contactId, status: 'OPEN' } })
+      : 0;
+
+    const explanation = this.evaluate(rules, { contact, activities, openDeals, now });
+
+    const unchanged =
+      contact.leadScore === explanation.score &&
+      JSON.stringify(contact.leadScoreExplanation) === JSON.stringify(explanation);
+    if (unchanged) {
+      return;
+    }
+
+    await this.prisma.contact.update({
+      where: { id: contactId },
+      data: {
+        leadScore: explanation.score,
+        leadScoreExplanation: explanation as unknown as Prisma.InputJsonValue,
+        leadScoredAt: now,
+        // Scoring is not a user edit
+        updatedAt: contact.updatedAt,
+      },
+    });
+  }
+
+  private evaluate(rules: ScoringRule[], input: ScoringInput): LeadScoreExplanationDto {
+    const reasons: ScoreReasonDto[] = [];
+
+    for (const rule of rules) {
+      const detail = this.match(rule, input);
+      if (detail) {
+        reasons.push({ label: rule.label, type: rule.type, points: rule.points, detail });
+      }
+    }
+
+    const rawScore = reasons.reduce((sum, reason) => sum + reason.points, 0);
+    const score = Math.min(MAX_LEAD_SCORE, Math.max(MIN_LEAD_SCORE, rawScore));
+
+    return { score, rawScore, reasons };
+  }
+
+  /**
+   * Why a rule matched, or null if it didn't.
+   */
+  private match(rule: ScoringRule, input: ScoringInput): string | null {
+    const { contact, activities, openDeals, now } = input;
+
+    switch (rule.type) {
+      case 'JOB_TITLE': {
+        const title = contact.jobTitle ?? '';
+        const keyword = rule.keywords.find((word) =>
+          new RegExp(`\\b${this.escapeRegExp(word)}\\b`, 'i').test(title),
+        );
+        return keyword ? `Job title "${title}" matches "${keyword}"` : null;
+      }
+
+      case 'INDUSTRY': {
+        const customFields = (contact.customFields || {}) as Record<string, any>;
+        const industry = [contact.company?.industry, customFields.linkedinIndustry].find(
+          (value) => typeof value === 'string' && this.includesIgnoreCase(rule.values, value),
+        );
+        return industry ? `Industry is ${industry}` : null;
+      }
+
+      case 'COMPANY_SIZE': {
+        const size = contact.company?.size;
+        return size && this.includesIgnoreCase(rule.values, size)
+          ? `Company size is ${size}`
+          : null;
+      }
+
+      case 'ACTIVITY_COUNT': {
+        const since = now.getTime() - rule.withinDays * DAY_MS;
+        const count = activities.filter(
+          (activity) =>
+            activity.type === rule.activityType && this.activityTime(activity) >= since,
+        ).length;
+        return count >= rule.minCount
+          ? `${count} ${rule.activityType} activities in the last ${rule.withinDays} days`
+          : null;
+      }
+
+      case 'RECENT_ACTIVITY': {
+        const since = now.getTime() - rule.withinDays * DAY_MS;
+        const latest = Math.max(
+          0,
+          ...activities
+            .filter((activity) => (rule.activityTypes as string[]).includes(activity.type))
+            .map((activity) => this.activityTime(activity)),
+        );
+        return latest >= since && latest > 0
+          ? `Last activity on ${new Date(latest).toISOString().slice(0, 10)}`
+          : null;
+      }
+
+      case 'OPEN_DEALS':
+        return openDeals >= rule.minCount ? `${openDeals} open deal(s)` : null;
+    }
+  }
+
+  private parseRules(value: Prisma.JsonValue): ScoringRule[] {
+    const parsed = ScoringRuleSchema.array().safeParse(value);
+    if (!parsed.success) {
+      this.logger.warn('Stored scoring model is invalid; using the default rules');
+      return DEFAULT_SCORING_RULES;
+    }
+    return parsed.data;
+  }
+
+  private activityTime(activity: Pick<Activity, 'createdAt' | 'completedAt'>): number {
+    return (activity.completedAt ?? activity.createdAt).getTime();
+  }
+
+  private includesIgnoreCase(values: string[], value: string): boolean {
+    const needle = value.trim().toLowerCase();
+    return values.some((candidate) => candidate.toLowerCase() === needle);
+  }
+
+  private escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  }
+}
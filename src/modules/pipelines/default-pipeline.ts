@@ -0,0 +1,26 @@
+/**
+ * DEFAULT PIPELINE
+ * ================
+ * Stages seeded for an organization's first pipeline.
+ * Open stages are listed in the order a deal normally moves through them;
+ * WON and LOST close the deal.
+ */
+
+export interface PipelineStageTemplate {
+  key: string;
+  name: string;
+  probability: number;
+  isWon: boolean;
+  isLost: boolean;
+}
+
+export const DEFAULT_PIPELINE_NAME = 'Sales Pipeline';
+
+export const DEFAULT_PIPELINE_STAGES: readonly PipelineStageTemplate[] = [
+  { key: 'LEAD', name: 'Lead', probability: 10, isWon: false, isLost: false },
+  { key: 'QUALIFIED', name: 'Qualified', probability: 25, isWon: false, isLost: false },
+  { key: 'PROPOSAL', name: 'Proposal', probability: 50, isWon: false, isLost: false },
+  { key: 'NEGOTIATION', name: 'Negotiation', probability: 75, isWon: false, isLost: false },
+  { key: 'WON', name: 'Won', probability: 100, isWon: true, isLost: false },
+  { key: 'LOST', name: 'Lost', probability: 0, isWon: false, isLost: true },
+];
@@ -0,0 +1,78 @@
+/**
+ * PIPELINE DTOs
+ * =============
+ * Request schemas for per-organization pipeline and stage definitions.
+ */
+
+import { z } from 'zod';
+
+// A single stage; order is taken from its position in the list
+export const PipelineStageSchema = z
+  .object({
+    key: z
+      .string()
+      .trim()
+      .toUpperCase()
+      .regex(/^[A-Z0-9_]+$/, 'Stage key may only contain letters, digits and underscores')
+      .max(50),
+    name: z.string().trim().min(1, 'Stage name is required').max(100),
+    probability: z.number().int().min(0).max(100),
+    isWon: z.boolean().optional().default(false),
+    isLost: z.boolean().optional().default(false),
+  })
+  .refine((stage) => !(stage.isWon && stage.isLost), {
+    message: 'A stage cannot be both won and lost',
+  });
+
+export const PipelineStagesSchema = z
+  .array(PipelineStageSchema)
+  .min(1, 'At least one stage is required')
+  .superRefine((stages, ctx) => {
+    const keys = stages.map((stage) => stage.key);
+    if (new Set(keys).size !== keys.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Stage keys must be unique' });
+    }
+    if (!stages.some((stage) => !stage.isWon && !stage.isLost)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'At least one open stage is required' });
+    }
+    if (!stages.some((stage) => stage.isWon)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A won stage is required' });
+    }
+    if (!stages.some((stage) => stage.isLost)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'A lost stage is required' });
+    }
+  });
+
+export type PipelineStageDto = z.infer<typeof PipelineStageSchema>;
+
+// Create pipeline request
+export const CreatePipelineSchema = z.object({
+  workspaceId: z.string().uuid().nullable().optional(),
+  name: z.string().trim().min(1, 'Pipeline name is required').max(100),
+  isDefault: z.boolean().optional().default(false),
+  stages: PipelineStagesSchema,
+});
+
+export type CreatePipelineDto = z.infer<typeof CreatePipelineSchema>;
+
+// Update pipeline request
+export const UpdatePipelineSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  isDefault: z.boolean().optional(),
+});
+
+export type UpdatePipelineDto = z.infer<typeof UpdatePipelineSchema>;
+
+// Replace stages request
+export const ReplacePipelineStagesSchema = z.object({
+  stages: PipelineStagesSchema,
+});
+
+export type ReplacePipelineStagesDto = z.infer<typeof ReplacePipelineStagesSchema>;
+
+// List pipelines query
+export const ListPipelinesQuerySchema = z.object({
+  workspaceId: z.string().uuid().optional(),
+});
+
+export type ListPipelinesQueryDto = z.infer<typeof ListPipelinesQuerySchema>;
@@ -0,0 +1,122 @@
+/**
+ * PIPELINES CONTROLLER
+ * ====================
+ * REST endpoints for pipeline and stage definitions,
+ * scoped to the caller's tenant. Only admins change them.
+ */
+
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { PipelinesService } from './pipelines.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import {
+  CreatePipelineSchema,
+  ListPipelinesQuerySchema,
+  ReplacePipelineStagesSchema,
+  UpdatePipelineSchema,
+} from './dto/pipeline.dto';
+import type {
+  CreatePipelineDto,
+  ListPipelinesQueryDto,
+  ReplacePipelineStagesDto,
+  UpdatePipelineDto,
+} from './dto/pipeline.dto';
+
+@Controller('pipelines')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class PipelinesController {
+  constructor(private readonly pipelinesService: PipelinesService) {}
+
+  /**
+   * GET /pipelines
+   */
+  @Get()
+  async list(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ListPipelinesQuerySchema)) query: ListPipelinesQueryDto,
+  ) {
+    return this.pipelinesService.list(user, query);
+  }
+
+  /**
+   * GET /pipelines/:id
+   */
+  @Get(':id')
+  async get(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.pipelinesService.get(user, id);
+  }
+
+  /**
+   * POST /pipelines
+   */
+  @Post()
+  @Roles('ADMIN')
+  async create(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(CreatePipelineSchema)) body: CreatePipelineDto,
+  ) {
+    return this.pipelinesService.create(user, body);
+  }
+
+  /**
+   * PATCH /pipelines/:id
+   */
+  @Patch(':id')
+  @Roles('ADMIN')
+  async update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(UpdatePipelineSchema)) body: UpdatePipelineDto,
+  ) {
+    return this.pipelinesService.update(user, id, body);
+  }
+
+  /**
+   * PUT /pipelines/:id/stages
+   *
+   * Replace the stage list. Order follows the array order.
+   */
+  @Put(':id/stages')
+  @Roles('ADMIN')
+  async replaceStages(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(ReplacePipelineStagesSchema)) body: ReplacePipelineStagesDto,
+  ) {
+    return this.pipelinesService.replaceStages(user, id, body);
+  }
+
+  /**
+   * DELETE /pipelines/:id
+   */
+  @Delete(':id')
+  @Roles('ADMIN')
+  @HttpCode(HttpStatus.NO_CONTENT)
+  async remove(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ): Promise<void> {
+    await this.pipelinesService.remove(user, id);
+  }
+}
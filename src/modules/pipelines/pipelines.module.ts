@@ -0,0 +1,18 @@
+/**
+ * PIPELINES MODULE
+ * ================
+ * Per-organization pipeline and stage definitions used by deals.
+ */
+
+import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { PipelinesController } from './pipelines.controller';
+import { PipelinesService } from './pipelines.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [PipelinesController],
+  providers: [PipelinesService],
+  exports: [PipelinesService],
+})
+export class PipelinesModule {}
@@ -0,0 +1,374 @@
+/**
+ * PIPELINES SERVICE
+ * =================
+ * Per-organization pipeline and stage definitions.
+ *
+ * - An organization can have several pipelines, optionally per workspace
+ * - Each workspace scope has at most one default pipeline, enforced by a
+ *   partial unique index; default changes and seeding hold a per-organization
+ *   lock so concurrent requests don't trip it
+ * - Callers see organization-wide pipelines and their workspaces' ones;
+ *   deals only use pipelines of their own workspace or organization-wide ones
+ * - Organizations without a pipeline get DEFAULT_PIPELINE_STAGES seeded
+ *   the first time one is needed, once even under concurrent requests
+ */
+
+import {
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { PipelineStage, Prisma } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { canAccessWorkspace, workspaceCondition } from '../auth/workspace-scope';
+import {
+  DEFAULT_PIPELINE_NAME,
+  DEFAULT_PIPELINE_STAGES,
+} from './default-pipeline';
+import {
+  CreatePipelineDto,
+  ListPipelinesQueryDto,
+  PipelineStageDto,
+  ReplacePipelineStagesDto,
+  UpdatePipelineDto,
+} from './dto/pipeline.dto';
+
+export type PipelineWithStages = Prisma.PipelineGetPayload<{
+  include: { stages: true };
+}>;
+
+const withStages = {
+  stages: { orderBy: { order: 'asc' } },
+} satisfies Prisma.PipelineInclude;
+
+@Injectable()
+export class PipelinesService {
+  private readonly logger = new Logger(PipelinesService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * List pipelines visible to the caller. Workspace pipelines are listed
+   * alongside the organization-wide ones.
+   */
+  async list(
+    user: AuthUser,
+    query: ListPipelinesQueryDto,
+  ): Promise<PipelineWithStages[]> {
+    if (query.workspaceId) {
+      this.assertWorkspaceAccess(user, query.workspaceId);
+    }
+
+    // Make sure there is always something to show
+    await this.getDefaultPipeline(user.organizationId, query.workspaceId);
+
+    return this.prisma.pipeline.findMany({
+      where: {
+        organizationId: user.organizationId,
+        ...(query.workspaceId
+          ? { OR: [{ workspaceId: query.workspaceId }, { workspaceId: null }] }
+          : workspaceCondition(user)),
+      },
+      include: withStages,
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Get a pipeline with its ordered stages.
+   */
+  async get(user: AuthUser, id: string): Promise<PipelineWithStages> {
+    const pipeline = await this.prisma.pipeline.findFirst({
+      where: { id, organizationId: user.organizationId, ...workspaceCondition(user) },
+      include: withStages,
+    });
+
+    if (!pipeline) {
+      throw new NotFoundException('Pipeline not found');
+    }
+
+    return pipeline;
+  }
+
+  /**
+   * Create a pipeline with its stages.
+   */
+  async create(
+    user: AuthUser,
+    dto: CreatePipelineDto,
+  ): Promise<PipelineWithStages> {
+    const workspaceId = dto.workspaceId ?? null;
+    if (workspaceId) {
+      this.assertWorkspaceAccess(user, workspaceId);
+    }
+
+    const pipeline = await this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault) {
+        await this.lockPipelines(tx, user.organizationId);
+        await this.clearDefault(tx, user.organizationId, workspaceId);
+      }
+
+      return tx.pipeline.create({
+        data: {
+          organizationId: user.organizationId,
+          workspaceId,
+          name: dto.name,
+          isDefault: dto.isDefault,
+          stages: { create: this.toStageData(dto.stages) },
+        },
+        include: withStages,
+      });
+    });
+
+    this.logger.log(`Created pipeline ${pipeline.id} (${pipeline.name})`);
+    return pipeline;
+  }
+
+  /**
+   * Rename a pipeline or make it the default for its workspace scope.
+   */
+  async update(
+    user: AuthUser,
+    id: string,
+    dto: UpdatePipelineDto,
+  ): Promise<PipelineWithStages> {
+    const pipeline = await this.get(user, id);
+
+    if (dto.isDefault === false && pipeline.isDefault) {
+      throw new ConflictException(
+        'Make another pipeline the default instead of unsetting it',
+      );
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      if (dto.isDefault && !pipeline.isDefault) {
+        await this.lockPipelines(tx, user.organizationId);
+        await this.clearDefault(tx, user.organizationId, pipeline.workspaceId);
+      }
+
+      return tx.pipeline.update({
+        where: { id },
+        data: dto,
+        include: withStages,
+      });
+    });
+  }
+
+  /**
+   * Replace a pipeline's stage list. Stages that deals still sit in
+   * can't be removed.
+   */
+  async replaceStages(
+    user: AuthUser,
+    id: string,
+    dto: ReplacePipelineStagesDto,
+  ): Promise<PipelineWithStages> {
+    const pipeline = await this.get(user, id);
+    const keys = dto.stages.map((stage) => stage.key);
+
+    const removedKeys = pipeline.stages
+      .map((stage) => stage.key)
+      .filter((key) => !keys.includes(key));
+
+    if (removedKeys.length > 0) {
+      const inUse = await this.prisma.deal.groupBy({
+        by: ['stage'],
+        where: { pipelineId: id, stage: { in: removedKeys } },
+      });
+      if (inUse.length > 0) {
+        throw new ConflictException(
+          `Stages still have deals: ${inUse.map((row) => row.stage).join(', ')}`,
+        );
+      }
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.pipelineStage.deleteMany({
+        where: { pipelineId: id, key: { in: removedKeys } },
+      }),
+      ...this.toStageData(dto.stages).map((stage) =>
+        this.prisma.pipelineStage.upsert({
+          where: { pipelineId_key: { pipelineId: id, key: stage.key } },
+          create: { ...stage, pipelineId: id },
+          update: stage,
+        }),
+      ),
+    ]);
+
+    this.logger.log(`Replaced stages of pipeline ${id}`);
+    return this.get(user, id);
+  }
+
+  /**
+   * Delete a pipeline that no deals use.
+   */
+  async remove(user: AuthUser, id: string): Promise<void> {
+    const pipeline = await this.get(user, id);
+
+    if (pipeline.isDefault) {
+      throw new ConflictException(
+        'Make another pipeline the default before deleting this one',
+      );
+    }
+
+    const dealCount = await this.prisma.deal.count({ where: { pipelineId: id } });
+    if (dealCount > 0) {
+      throw new ConflictException(`Pipeline still has ${dealCount} deals`);
+    }
+
+    await this.prisma.pipeline.delete({ where: { id } });
+    this.logger.log(`Deleted pipeline ${id}`);
+  }
+
+  /**
+   * Resolve the pipeline a deal belongs to: the given one if set (it must
+   * be organization-wide or in the deal's workspace), otherwise the
+   * default for the deal's workspace.
+   */
+  async resolvePipeline(
+    organizationId: string,
+    pipelineId?: string | null,
+    workspaceId?: string | null,
+  ): Promise<PipelineWithStages> {
+    if (!pipelineId) {
+      return this.getDefaultPipeline(organizationId, workspaceId);
+    }
+
+    const pipeline = await this.prisma.pipeline.findFirst({
+      where: {
+        id: pipelineId,
+        organizationId,
+        OR: [{ workspaceId: workspaceId ?? null }, { workspaceId: null }],
+      },
+      include: withStages,
+    });
+
+    if (!pipeline) {
+      throw new NotFoundException('Pipeline not found');
+    }
+
+    return pipeline;
+  }
+
+  /**
+   * Default pipeline for a workspace, falling back to the organization-wide
+   * default. Seeds the default pipeline when the organization has none.
+   */
+  async getDefaultPipeline(
+    organizationId: string,
+    workspaceId?: string | null,
+  ): Promise<PipelineWithStages> {
+    const existing = await this.findDefaultPipeline(this.prisma, organizationId, workspaceId);
+    if (existing) {
+      return existing;
+    }
+
+    // Check again under the lock: a concurrent request may have seeded it
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockPipelines(tx, organizationId);
+
+      const pipeline = await this.findDefaultPipeline(tx, organizationId, workspaceId);
+      if (pipeline) {
+        return pipeline;
+      }
+
+      const seeded = await tx.pipeline.create({
+        data: {
+          organizationId,
+          name: DEFAULT_PIPELINE_NAME,
+          isDefault: true,
+          stages: {
+            create: DEFAULT_PIPELINE_STAGES.map((stage, index) => ({
+              ...stage,
+              order: index,
+            })),
+          },
+        },
+        include: withStages,
+      });
+
+      this.logger.log(`Seeded default pipeline for organization ${organizationId}`);
+      return seeded;
+    });
+  }
+
+  /**
+   * First open stage of a pipeline - where new deals start.
+   */
+  getFirstOpenStage(pipeline: PipelineWithStages): PipelineStage | undefined {
+    return pipeline.stages.find((stage) => !stage.isWon && !stage.isLost);
+  }
+
+  /**
+   * Deal status implied by a stage.
+   */
+  getStageStatus(stage: PipelineStage): 'OPEN' | 'WON' | 'LOST' {
+    if (stage.isWon) return 'WON';
+    if (stage.isLost) return 'LOST';
+    return 'OPEN';
+  }
+
+  private async findDefaultPipeline(
+    client: Prisma.TransactionClient,
+    organizationId: string,
+    workspaceId?: string | null,
+  ): Promise<PipelineWithStages | undefined> {
+    const pipelines = await client.pipeline.findMany({
+      where: {
+        organizationId,
+        OR: [{ workspaceId: workspaceId ?? null }, { workspaceId: null }],
+      },
+      include: withStages,
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    return (
+      pipelines.find((p) => p.isDefault && p.workspaceId === (workspaceId ?? null)) ??
+      pipelines.find((p) => p.isDefault && p.workspaceId === null) ??
+      pipelines[0]
+    );
+  }
+
+  /**
+   * Serialize default changes and seeding within an organization until
+   * the transaction ends.
+   */
+  private async lockPipelines(
+    tx: Prisma.TransactionClient,
+    organizationId: string,
+  ): Promise<void> {
+    const key = `pipelines:${organizationId}`;
+    await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${key}))`;
+  }
+
+  private async clearDefault(
+    tx: Prisma.TransactionClient,
+    organizationId: string,
+    workspaceId: string | null,
+  ): Promise<void> {
+    await tx.pipeline.updateMany({
+      where: { organizationId, workspaceId, isDefault: true },
+      data: { isDefault: false },
+    });
+  }
+
+  private toStageData(stages: PipelineStageDto[]) {
+    return stages.map((stage, index) => ({
+      key: stage.key,
+      name: stage.name,
+      probability: stage.probability,
+      isWon: stage.isWon,
+      isLost: stage.isLost,
+      order: index,
+    }));
+  }
+
+  private assertWorkspaceAccess(user: AuthUser, workspaceId: string): void {
+    if (!canAccessWorkspace(user, workspaceId)) {
+      throw new ForbiddenException(`No access to workspace ${workspaceId}`);
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * USER DTOs
+ * =========
+ * Request schemas for the CRM users API.
+ */
+
+import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+import { ROLES } from '../../auth/roles';
+
+// List users query
+export const ListUsersQuerySchema = CursorPaginationSchema.extend({
+  role: z.enum(ROLES).optional(),
+  teamId: z.string().uuid().optional(),
+});
+
+export type ListUsersQueryDto = z.infer<typeof ListUsersQuerySchema>;
+
+// Update user request - role and team are managed by admins
+export const UpdateUserSchema = z
+  .object({
+    role: z.enum(ROLES).optional(),
+    teamId: z.string().uuid().nullable().optional(),
+  })
+  .refine((dto) => Object.keys(dto).length > 0, { message: 'Nothing to update' });
+
+export type UpdateUserDto = z.infer<typeof UpdateUserSchema>;
@@ -0,0 +1,77 @@
+/**
+ * USERS CONTROLLER
+ * ================
+ * CRM users of the caller's organization. Everyone can list them (e.g.
+ * to pick a record owner); only admins change roles and teams.
+ */
+
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
+  Patch,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { UsersService } from './users.service';
+import { JwtAuthGuard } from '../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../auth/guards/roles.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { CurrentUser } from '../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../common/pipes/zod-validation.pipe';
+import { ListUsersQuerySchema, UpdateUserSchema } from './dto/user.dto';
+import type { ListUsersQueryDto, UpdateUserDto } from './dto/user.dto';
+
+@Controller('users')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class UsersController {
+  constructor(private readonly usersService: UsersService) {}
+
+  /**
+   * GET /users?role=MANAGER&teamId=...
+   */
+  @Get()
+  async list(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ListUsersQuerySchema))
+    query: ListUsersQueryDto,
+  ) {
+    return this.usersService.list(user, query);
+  }
+
+  /**
+   * GET /users/me
+   */
+  @Get('me')
+  async me(@CurrentUser() user: AuthUser) {
+    return this.usersService.get(user, user.userId);
+  }
+
+  /**
+   * GET /users/:id
+   */
+  @Get(':id')
+  async get(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.usersService.get(user, id);
+  }
+
+  /**
+   * PATCH /users/:id
+   */
+  @Patch(':id')
+  @Roles('ADMIN')
+  async update(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body(new ZodValidationPipe(UpdateUserSchema))
+    body: UpdateUserDto,
+  ) {
+    return this.usersService.update(user, id, body);
+  }
+}
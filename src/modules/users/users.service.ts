@@ -0,0 +1,82 @@
+/**
+ * USERS SERVICE
+ * =============
+ * CRM users of an organization. Users are created on their first login
+ * (see AuthService); admins set their role and team here. Changes apply
+ * from the user's next token refresh.
+ *
+ * An organization always keeps at least one admin.
+ */
+
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { User } from '@prisma/client';
+import { PrismaService } from '../../prisma/prisma.service';
+import { AuthUser } from '../auth/interfaces/auth-user.interface';
+import {
+  cursorArgs,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../common/dto/pagination.dto';
+import { ListUsersQueryDto, UpdateUserDto } from './dto/user.dto';
+
+@Injectable()
+export class UsersService {
+  private readonly logger = new Logger(UsersService.name);
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * List users, newest first, using cursor pagination.
+   */
+  async list(user: AuthUser, query: ListUsersQueryDto): Promise<PaginatedResult<User>> {
+    const rows = await this.prisma.user.findMany({
+      where: {
+        organizationId: user.organizationId,
+        ...(query.role ? { role: query.role } : {}),
+        ...(query.teamId ? { teamId: query.teamId } : {}),
+      },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPaginatedResult(rows, query.limit);
+  }
+
+  async get(user: AuthUser, id: string): Promise<User> {
+    const found = await this.prisma.user.findFirst({
+      where: { id, organizationId: user.organizationId },
+    });
+
+    if (!found) {
+      throw new NotFoundException('User not found');
+    }
+
+    return found;
+  }
+
+  /**
+   * Change a user's role or team.
+   */
+  async update(user: AuthUser, id: string, dto: UpdateUserDto): Promise<User> {
+    const existing = await this.get(user, id);
+
+    if (existing.role === 'ADMIN' && dto.role && dto.role !== 'ADMIN') {
+      const admins = await this.prisma.user.count({
+        where: { organizationId: user.organizationId, role: 'ADMIN' },
+      });
+      if (admins <= 1) {
+        throw new ConflictException('The organization needs at least one admin');
+      }
+    }
+
+    const updated = await this.prisma.user.update({ where: { id }, data: dto });
+
+    this.logger.log(`User ${id} updated by ${user.userId}: ${JSON.stringify(dto)}`);
+    return updated;
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * OUTREACH CLIENT
+ * ===============
+ * Fetches connection data from the outreach system (White Walker).
+ * Bound to the OUTREACH_CLIENT token so it can be swapped in tests
+ * or for another transport.
+ *
+ * Configuration (HTTP client):
+ * - OUTREACH_API_URL: base URL of the outreach API
+ * - OUTREACH_API_TOKEN: service token sent as a bearer token
+ *
+ * Requests time out after REQUEST_TIMEOUT_MS (504); network failures are 502.
+ */
+
+import {
+  BadGatewayException,
+  GatewayTimeoutException,
+  Injectable,
+  Logger,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConnectionData, ConnectionDataSchema } from '../dto/outreach-sync.dto';
+
+export const OUTREACH_CLIENT = Symbol('OUTREACH_CLIENT');
+
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export interface OutreachConnectionQuery {
+  connectionId: string;
+  organizationId: string;
+  workspaceId: string;
+}
+
+export interface OutreachClient {
+  /**
+   * Returns the connection, or null when the outreach system doesn't know it.
+   */
+  getConnection(query: OutreachConnectionQuery): Promise<ConnectionData | null>;
+}
+
+@Injectable()
+export class HttpOutreachClient implements OutreachClient {
+  private readonly logger = new Logger(HttpOutreachClient.name);
+  private readonly baseUrl: string;
+  private readonly apiToken: string;
+
+  constructor() {
+    this.baseUrl = (process.env.OUTREACH_API_URL || '').replace(/\/+$/, '');
+    this.apiToken = process.env.OUTREACH_API_TOKEN || '';
+    if (!this.baseUrl) {
+      this.logger.warn('OUTREACH_API_URL not set - manual resync unavailable');
+    }
+  }
+
+  async getConnection(query: OutreachConnectionQuery): Promise<ConnectionData | null> {
+    if (!this.baseUrl) {
+      throw new ServiceUnavailableException('Outreach API not configured');
+    }
+
+    const url = new URL(`${this.baseUrl}/connections/${encodeURIComponent(query.connectionId)}`);
+    url.searchParams.set('organization_id', query.organizationId);
+    url.searchParams.set('workspace_id', query.workspaceId);
+
+    let body: unknown;
+    try {
+      // The signal also bounds reading the body
+      const response = await fetch(url, {
+        headers: {
+          Accept: 'application/json',
+          ...(this.apiToken ? { Authorization: `Bearer ${this.apiToken}` } : {}),
+        },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+
+      if (response.status === 404) {
+        return null;
+      }
+      if (!response.ok) {
+        this.logger.error(`Outreach API returned ${response.status} for ${query.connectionId}`);
+        throw new ServiceUnavailableException('Outreach API request failed');
+      }
+
+      body = await response.json();
+    } catch (error) {
+      if (error instanceof ServiceUnavailableException) {
+        throw error;
+      }
+      if (error instanceof Error && error.name === 'TimeoutError') {
+        this.logger.error(`Outreach API timed out for ${query.connectionId}`);
+        throw new GatewayTimeoutException('Outreach API did not respond in time');
+      }
+      this.logger.error(`Outreach API request for ${query.connectionId} failed: ${error}`);
+      throw new BadGatewayException('Outreach API request failed');
+    }
+
+    const parseResult = ConnectionDataSchema.safeParse(body);
+    if (!parseResult.success) {
+      this.logger.error(`Invalid connection from outreach API: ${parseResult.error.message}`);
+      throw new ServiceUnavailableException('Outreach API returned invalid data');
+    }
+
+    return parseResult.data;
+  }
+}
@@ -0,0 +1,56 @@
+/**
+ * MANUAL SYNC CONTROLLER
+ * ======================
+ * Authenticated endpoint for CRM admins to re-pull a single connection
+ * from the outreach system and re-merge it into its contact. The workspace
+ * must be one the admin can write to.
+ */
+
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  HttpCode,
+  HttpStatus,
+  Post,
+  UseGuards,
+} from '@nestjs/common';
+import { OutreachSyncService } from '../services/outreach-sync.service';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { resolveWorkspaceId } from '../../auth/workspace-scope';
+import { ZodValidationPipe } from '../../../common/pipes/zod-validation.pipe';
+import { ManualSyncRequestSchema } from '../dto/outreach-sync.dto';
+import type { ManualSyncRequest, ManualSyncResultDto } from '../dto/outreach-sync.dto';
+
+@Controller('sync/outreach')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN')
+export class ManualSyncController {
+  constructor(private readonly outreachSync: OutreachSyncService) {}
+
+  /**
+   * POST /sync/outreach/resync
+   *
+   * Re-pull a connection and re-merge it. `force_update` overwrites
+   * every field whose merge policy isn't NEVER; `dry_run` returns
+   * the changes without applying them.
+   */
+  @Post('resync')
+  @HttpCode(HttpStatus.OK)
+  async resync(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(ManualSyncRequestSchema)) body: ManualSyncRequest,
+  ): Promise<ManualSyncResultDto> {
+    if (body.organization_id !== user.organizationId) {
+      throw new ForbiddenException('Cannot sync another organization');
+    }
+    // New contacts are created in this workspace, so the caller must be able to write there
+    resolveWorkspaceId(user, body.workspace_id);
+
+    return this.outreachSync.resyncConnection(body);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * MERGE POLICY CONTROLLER
+ * =======================
+ * Authenticated endpoints for an organization's outreach merge policy.
+ * Only admins change it.
+ */
+
+import { Body, Controller, Get, Put, UseGuards } from '@nestjs/common';
+import { MergePolicyService } from '../services/merge-policy.service';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../../common/pipes/zod-validation.pipe';
+import { UpdateMergePolicySchema } from '../dto/merge-policy.dto';
+import type { MergePolicy, UpdateMergePolicyDto } from '../dto/merge-policy.dto';
+
+@Controller('sync/outreach/merge-policy')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class MergePolicyController {
+  constructor(private readonly mergePolicy: MergePolicyService) {}
+
+  /**
+   * GET /sync/outreach/merge-policy
+   *
+   * Effective strategy per field, including defaults.
+   */
+  @Get()
+  async get(@CurrentUser() user: AuthUser): Promise<MergePolicy> {
+    return this.mergePolicy.getPolicy(user.organizationId);
+  }
+
+  /**
+   * PUT /sync/outreach/merge-policy
+   *
+   * Set strategies for the given fields; null resets a field to its default.
+   */
+  @Put()
+  @Roles('ADMIN')
+  async update(
+    @CurrentUser() user: AuthUser,
+    @Body(new ZodValidationPipe(UpdateMergePolicySchema)) body: UpdateMergePolicyDto,
+  ): Promise<MergePolicy> {
+    return this.mergePolicy.update(user, body);
+  }
+}
@@ -7,39 +7,40 @@
 
 import {
   Controller,
+  Get,
+  Param,
+  ParseUUIDPipe,
   Post,
   Body,
   HttpCode,
   HttpStatus,
   Logger,
-  UnauthorizedException,
   BadRequestException,
+  UseGuards,
 } from '@nestjs/common';
-import { createHmac, timingSafeEqual } from 'crypto';
 import {
-  ConnectionAcceptedPayload,
+  BatchSyncPayloadSchema,
   ConnectionAcceptedPayloadSchema,
+  SyncJobStatusDto,
   SyncResultDto,
 } from '../dto/outreach-sync.dto';
-import { ContactMatcherService } from '../services/contact-matcher.service';
-import { ContactMergerService } from '../services/contact-merger.service';
+import { SyncJobsService } from '../services/sync-jobs.service';
+import { WebhookInboxService } from '../services/webhook-inbox.service';
+import { OutreachWebhookGuard } from '../guards/outreach-webhook.guard';
 
+/**
+ * All endpoints are authenticated by OutreachWebhookGuard
+ * (HMAC-signed requests, see WebhookSignatureService).
+ */
 @Controller('webhooks/outreach')
+@UseGuards(OutreachWebhookGuard)
 export class OutreachSyncController {
   private readonly logger = new Logger(OutreachSyncController.name);
-  private readonly webhookSecret: string;
 
   constructor(
-    private readonly contactMatcher: ContactMatcherService,
-    private readonly contactMerger: ContactMergerService,
-  ) {
-    this.webhookSecret = process.env.OUTREACH_WEBHOOK_SECRET || '';
-    if (!this.webhookSecret) {
-      this.logger.warn(
-        'OUTREACH_WEBHOOK_SECRET not set - webhook authentication disabled',
-      );
-    }
-  }
+    private readonly webhookInbox: WebhookInboxService,
+    private readonly syncJobs: SyncJobsService,
+  ) {}
 
   /**
    * POST /webhooks/outreach/connection-accepted
@@ -63,52 +64,15 @@ export class OutreachSyncController {
 
     const payload = parseResult.data;
 
-    // Verify webhook secret (HMAC authentication)
-    if (this.webhookSecret) {
-      if (!this.verifyWebhookSecret(payload.webhook_secret)) {
-        this.logger.warn('Webhook authentication failed');
-        throw new UnauthorizedException('Invalid webhook secret');
-      }
-    }
+    // Persist before processing so failures can be replayed.
+    // Duplicates of processed events are answered from the stored result.
+    const { event } = await this.webhookInbox.record(payload);
 
     try {
-      const { organization_id } = payload.source;
-      const connectionData = payload.connection;
-
-      // 1. Try to find an existing contact
-      const matchResult = await this.contactMatcher.findMatch(
-        organization_id,
-        connectionData,
-      );
-
-      let result: SyncResultDto;
-
-      // 2. Create or merge based on match result
-      if (matchResult.found) {
-        result = await this.contactMerger.mergeContact(
-          matchResult,
-          connectionData,
-          false, // Don't force update existing data
-        );
-      } else {
-        result = await this.contactMerger.createContact(
-          organization_id,
-          connectionData,
-        );
-      }
-
-      // 3. Create activity log if successful
-      if (result.success && result.contact_id) {
-        await this.contactMerger.createSyncActivity(
-          organization_id,
-          result.contact_id,
-          result.action as 'created' | 'updated',
-          connectionData,
-        );
-      }
+      const result = await this.webhookInbox.process(event);
 
       this.logger.log(
-        `Sync completed: ${result.action} (contact_id: ${result.contact_id})`,
+        `Sync completed: ${result.action} (contact_id: ${result.contact_id}, event: ${event.id})`,
       );
 
       return result;
@@ -127,114 +91,33 @@ export class OutreachSyncController {
    *
    * Batch sync endpoint for syncing multiple connections at once.
    * Useful for initial sync or periodic reconciliation.
+   * The work runs in the background; poll the returned job id for progress.
    */
   @Post('batch-sync')
-  @HttpCode(HttpStatus.OK)
-  async handleBatchSync(
-    @Body()
-    body: {
-      webhook_secret: string;
-      organization_id: string;
-      connections: ConnectionAcceptedPayload['connection'][];
-    },
-  ): Promise<{
-    total: number;
-    created: number;
-    updated: number;
-    skipped: number;
-    results: SyncResultDto[];
-  }> {
-    this.logger.log(`Received batch-sync webhook with ${body.connections?.length || 0} connections`);
-
-    // Verify webhook secret
-    if (this.webhookSecret && !this.verifyWebhookSecret(body.webhook_secret)) {
-      throw new UnauthorizedException('Invalid webhook secret');
-    }
-
-    if (!body.connections || !Array.isArray(body.connections)) {
+  @HttpCode(HttpStatus.ACCEPTED)
+  async handleBatchSync(@Body() rawPayload: unknown): Promise<SyncJobStatusDto> {
+    const parseResult = BatchSyncPayloadSchema.safeParse(rawPayload);
+    if (!parseResult.success) {
+      this.logger.error(`Invalid batch payload: ${parseResult.error.message}`);
       throw new BadRequestException('Invalid batch payload');
     }
 
-    const results: SyncResultDto[] = [];
-    let created = 0;
-    let updated = 0;
-    let skipped = 0;
-
-    for (const connectionData of body.connections) {
-      try {
-        const matchResult = await this.contactMatcher.findMatch(
-          body.organization_id,
-          connectionData,
-        );
-
-        let result: SyncResultDto;
-
-        if (matchResult.found) {
-          result = await this.contactMerger.mergeContact(
-            matchResult,
-            connectionData,
-            false,
-          );
-        } else {
-          result = await this.contactMerger.createContact(
-            body.organization_id,
-            connectionData,
-          );
-        }
-
-        results.push(result);
-
-        if (result.action === 'created') created++;
-        else if (result.action === 'updated') updated++;
-        else skipped++;
-
-        // Create activity for successful syncs
-        if (result.success && result.contact_id) {
-          await this.contactMerger.createSyncActivity(
-            body.organization_id,
-            result.contact_id,
-            result.action as 'created' | 'updated',
-            connectionData,
-          );
-        }
-      } catch (error) {
-        results.push({
-          success: false,
-          action: 'skipped',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-        skipped++;
-      }
-    }
-
     this.logger.log(
-      `Batch sync completed: ${created} created, ${updated} updated, ${skipped} skipped`,
+      `Received batch-sync webhook with ${parseResult.data.connections.length} connections`,
     );
 
-    return {
-      total: body.connections.length,
-      created,
-      updated,
-      skipped,
-      results,
-    };
+    return this.syncJobs.enqueue(parseResult.data);
   }
 
   /**
-   * Verify webhook secret using timing-safe comparison.
+   * GET /webhooks/outreach/batch-sync/:jobId
+   *
+   * Progress of a batch sync job.
    */
-  private verifyWebhookSecret(providedSecret: string): boolean {
-    try {
-      const expected = Buffer.from(this.webhookSecret);
-      const provided = Buffer.from(providedSecret);
-
-      if (expected.length !== provided.length) {
-        return false;
-      }
-
-      return timingSafeEqual(expected, provided);
-    } catch {
-      return false;
-    }
+  @Get('batch-sync/:jobId')
+  async getBatchSyncStatus(
+    @Param('jobId', ParseUUIDPipe) jobId: string,
+  ): Promise<SyncJobStatusDto> {
+    return this.syncJobs.getStatus(jobId);
   }
 }
@@ -0,0 +1,79 @@
+/**
+ * WEBHOOK EVENTS CONTROLLER
+ * =========================
+ * Admin endpoints for the outreach webhook inbox:
+ * inspect received events and replay failed ones.
+ */
+
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { WebhookInboxService } from '../services/webhook-inbox.service';
+import { JwtAuthGuard } from '../../auth/guards/jwt-auth.guard';
+import { RolesGuard } from '../../auth/guards/roles.guard';
+import { Roles } from '../../auth/decorators/roles.decorator';
+import { CurrentUser } from '../../auth/decorators/current-user.decorator';
+import type { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import { ZodValidationPipe } from '../../../common/pipes/zod-validation.pipe';
+import { ListWebhookEventsQuerySchema } from '../dto/outreach-sync.dto';
+import type { ListWebhookEventsQueryDto } from '../dto/outreach-sync.dto';
+
+@Controller('webhook-events')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN')
+export class WebhookEventsController {
+  constructor(private readonly webhookInbox: WebhookInboxService) {}
+
+  /**
+   * GET /webhook-events
+   */
+  @Get()
+  async list(
+    @CurrentUser() user: AuthUser,
+    @Query(new ZodValidationPipe(ListWebhookEventsQuerySchema)) query: ListWebhookEventsQueryDto,
+  ) {
+    return this.webhookInbox.list(user.organizationId, query);
+  }
+
+  /**
+   * POST /webhook-events/replay-failed
+   *
+   * Replay the organization's failed events, oldest first.
+   */
+  @Post('replay-failed')
+  @HttpCode(HttpStatus.OK)
+  async replayFailed(@CurrentUser() user: AuthUser) {
+    return this.webhookInbox.replayFailed(user.organizationId);
+  }
+
+  /**
+   * GET /webhook-events/:id
+   */
+  @Get(':id')
+  async get(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.webhookInbox.get(user.organizationId, id);
+  }
+
+  /**
+   * POST /webhook-events/:id/replay
+   */
+  @Post(':id/replay')
+  @HttpCode(HttpStatus.OK)
+  async replay(
+    @CurrentUser() user: AuthUser,
+    @Param('id', ParseUUIDPipe) id: string,
+  ) {
+    return this.webhookInbox.replay(user.organizationId, id);
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * MERGE POLICY DTOs
+ * =================
+ * Per-organization, per-field strategies for merging outreach data
+ * into existing contacts.
+ */
+
+import { z } from 'zod';
+
+export const MERGE_STRATEGIES = [
+  'NEVER', // The sync never writes the field
+  'FILL_IF_EMPTY', // Written only when the contact has no value
+  'ALWAYS', // Outreach data always wins
+  'NEWEST_WINS', // Written when the outreach data is newer than the last change
+] as const;
+
+export type MergeStrategy = (typeof MERGE_STRATEGIES)[number];
+
+/**
+ * Fields governed by a merge policy. `linkedinProfile` covers the
+ * LinkedIn keys in customFields (headline, location, skills, ...).
+ */
+export const MERGE_POLICY_FIELDS = [
+  'firstName',
+  'lastName',
+  'email',
+  'jobTitle',
+  'companyId',
+  'linkedinUrl',
+  'profileImageUrl',
+  'linkedinProfile',
+] as const;
+
+export type MergePolicyField = (typeof MERGE_POLICY_FIELDS)[number];
+
+export type MergePolicy = Record<MergePolicyField, MergeStrategy>;
+
+/**
+ * Strategy used for fields an organization hasn't configured.
+ * LinkedIn data always wins; basic fields are only filled when empty.
+ */
+export const DEFAULT_MERGE_POLICY: MergePolicy = {
+  firstName: 'FILL_IF_EMPTY',
+  lastName: 'FILL_IF_EMPTY',
+  email: 'FILL_IF_EMPTY',
+  jobTitle: 'FILL_IF_EMPTY',
+  companyId: 'FILL_IF_EMPTY',
+  linkedinUrl: 'ALWAYS',
+  profileImageUrl: 'ALWAYS',
+  linkedinProfile: 'ALWAYS',
+};
+
+// Update merge policy; null resets a field to its default
+const StrategySchema = z.enum(MERGE_STRATEGIES).nullable().optional();
+
+export const UpdateMergePolicySchema = z
+  .object({
+    firstName: StrategySchema,
+    lastName: StrategySchema,
+    email: StrategySchema,
+    jobTitle: StrategySchema,
+    companyId: StrategySchema,
+    linkedinUrl: StrategySchema,
+    profileImageUrl: StrategySchema,
+    linkedinProfile: StrategySchema,
+  })
+  .strict();
+
+export type UpdateMergePolicyDto = z.infer<typeof UpdateMergePolicySchema>;
@@ -5,10 +5,40 @@
  */
 
 import { z } from 'zod';
+import { CursorPaginationSchema } from '../../../common/dto/pagination.dto';
+
+// LinkedIn connection data, shared by single and batch sync
+export const ConnectionDataSchema = z.object({
+  id: z.string().uuid(),
+  urn_id: z.string(),
+  public_id: z.string().optional(),
+  name: z.string(),
+  first_name: z.string().optional(),
+  last_name: z.string().optional(),
+  headline: z.string().optional(),
+  profile_url: z.string(),
+  profile_pic_url: z.string().optional(),
+  company: z.string().optional(),
+  company_website: z.string().optional(),
+  job_title: z.string().optional(),
+  location: z.string().optional(),
+  industry: z.string().optional(),
+  email: z.string().email().optional(),
+  phone: z.string().optional(),
+  connected_on: z.string().datetime(),
+  // Additional enriched data
+  skills: z.array(z.string()).optional(),
+  languages: z.array(z.string()).optional(),
+  work_experience: z.any().optional(),
+  education: z.any().optional(),
+});
+
+export type ConnectionData = z.infer<typeof ConnectionDataSchema>;
 
 // Webhook payload schema for connection accepted events
 export const ConnectionAcceptedPayloadSchema = z.object({
-  webhook_secret: z.string(),
+  // Legacy body-secret auth only; signed requests omit it
+  webhook_secret: z.string().optional(),
   event_type: z.literal('CONNECTION_ACCEPTED'),
   timestamp: z.string().datetime(),
   source: z.object({
@@ -17,29 +47,7 @@ export const ConnectionAcceptedPayloadSchema = z.object({
     integration_id: z.string().uuid(),
     campaign_id: z.string().uuid().optional(),
   }),
-  connection: z.object({
-    id: z.string().uuid(),
-    urn_id: z.string(),
-    public_id: z.string().optional(),
-    name: z.string(),
-    first_name: z.string().optional(),
-    last_name: z.string().optional(),
-    headline: z.string().optional(),
-    profile_url: z.string(),
-    profile_pic_url: z.string().optional(),
-    company: z.string().optional(),
-    job_title: z.string().optional(),
-    location: z.string().optional(),
-    industry: z.string().optional(),
-    email: z.string().email().optional(),
-    phone: z.string().optional(),
-    connected_on: z.string().datetime(),
-    // Additional enriched data
-    skills: z.array(z.string()).optional(),
-    languages: z.array(z.string()).optional(),
-    work_experience: z.any().optional(),
-    education: z.any().optional(),
-  }),
+  connection: ConnectionDataSchema,
 });
 
 export type ConnectionAcceptedPayload = z.infer<
@@ -56,12 +64,63 @@ export interface SyncResultDto {
   error?: string;
 }
 
+// Batch sync request - processed asynchronously as a SyncJob
+export const BatchSyncPayloadSchema = z.object({
+  // Legacy body-secret auth only; signed requests omit it
+  webhook_secret: z.string().optional(),
+  organization_id: z.string().uuid(),
+  workspace_id: z.string().uuid().optional(),
+  connections: z.array(ConnectionDataSchema).min(1).max(10000),
+});
+
+export type BatchSyncPayload = z.infer<typeof BatchSyncPayloadSchema>;
+
+export interface SyncJobErrorDto {
+  index: number;
+  connection_id: string;
+  error: string;
+}
+
+export interface SyncJobStatusDto {
+  job_id: string;
+  status: 'QUEUED' | 'RUNNING' | 'COMPLETED' | 'FAILED';
+  total: number;
+  processed: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: SyncJobErrorDto[];
+  started_at: string | null;
+  finished_at: string | null;
+}
+
 // Manual sync request DTO
 export const ManualSyncRequestSchema = z.object({
   connection_id: z.string().uuid(),
   organization_id: z.string().uuid(),
   workspace_id: z.string().uuid(),
   force_update: z.boolean().optional().default(false),
+  dry_run: z.boolean().optional().default(false),
 });
 
 export type ManualSyncRequest = z.infer<typeof ManualSyncRequestSchema>;
+
+// A single field change a sync would apply
+export interface FieldChangeDto {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface ManualSyncResultDto extends Partial<SyncResultDto> {
+  dry_run: boolean;
+  changes?: FieldChangeDto[];
+}
+
+// Webhook inbox list query
+export const ListWebhookEventsQuerySchema = CursorPaginationSchema.extend({
+  status: z.enum(['RECEIVED', 'PROCESSING', 'PROCESSED', 'FAILED']).optional(),
+  eventType: z.string().optional(),
+});
+
+export type ListWebhookEventsQueryDto = z.infer<typeof ListWebhookEventsQuerySchema>;
@@ -0,0 +1,46 @@
+/**
+ * OUTREACH WEBHOOK GUARD
+ * ======================
+ * Authenticates outreach webhook requests with WebhookSignatureService.
+ * Needs the raw request body (NestFactory `rawBody: true`).
+ */
+
+import {
+  CanActivate,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  RawBodyRequest,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Request } from 'express';
+import {
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  WebhookSignatureService,
+} from '../services/webhook-signature.service';
+
+@Injectable()
+export class OutreachWebhookGuard implements CanActivate {
+  private readonly logger = new Logger(OutreachWebhookGuard.name);
+
+  constructor(private readonly signatureService: WebhookSignatureService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest<RawBodyRequest<Request>>();
+
+    const result = this.signatureService.verify({
+      rawBody: request.rawBody,
+      signature: request.header(SIGNATURE_HEADER),
+      timestamp: request.header(TIMESTAMP_HEADER),
+      bodySecret: request.body?.webhook_secret,
+    });
+
+    if (!result.valid) {
+      this.logger.warn(`Webhook authentication failed: ${result.reason}`);
+      throw new UnauthorizedException(result.reason);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * COMPANY LINKER SERVICE
+ * ======================
+ * Finds or creates the Company for the "company" field of a synced
+ * LinkedIn connection, so contacts don't arrive as orphans.
+ *
+ * Matching order:
+ * 1. Website domain (when the payload carries one)
+ * 2. Normalized name (case, punctuation and legal suffixes ignored)
+ *
+ * Only companies in the contact's workspace or shared with the whole
+ * organization match; missing companies are created in that workspace.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { CrmEventsService } from '../../events/crm-events.service';
+
+// Legal-form suffixes ignored when comparing company names
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'llc', 'llp', 'ltd', 'limited', 'corp', 'corporation',
+  'co', 'company', 'plc', 'gmbh', 'ag', 'sa', 'sas', 'sarl', 'bv', 'nv', 'oy',
+  'ab', 'as', 'pty', 'pvt', 'srl', 'spa', 'kg',
+]);
+
+// How many name candidates to compare in memory per lookup
+const NAME_CANDIDATE_LIMIT = 50;
+
+// Where the contact being linked lives
+export interface CompanyScope {
+  organizationId: string;
+  workspaceId: string | null;
+}
+
+@Injectable()
+export class CompanyLinkerService {
+  private readonly logger = new Logger(CompanyLinkerService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly events: CrmEventsService,
+  ) {}
+
+  /**
+   * Find or create the company and return its id.
+   * Returns null when there is no usable company name or linking fails,
+   * or when no company matches and createMissing is false.
+   */
+  async linkCompany(
+    scope: CompanyScope,
+    companyName?: string,
+    companyWebsite?: string,
+    options: { createMissing?: boolean } = {},
+  ): Promise<string | null> {
+    const displayName = this.cleanCompanyName(companyName);
+    const normalizedName = displayName ? this.normalizeCompanyName(displayName) : '';
+    if (!displayName || !normalizedName) {
+      return null;
+    }
+
+    try {
+      const domain = this.extractDomain(companyWebsite);
+
+      // 1. Match by website domain
+      if (domain) {
+        const byDomain = await this.matchByDomain(scope, domain);
+        if (byDomain) {
+          this.logger.log(`Linked company ${byDomain} by domain ${domain}`);
+          return byDomain;
+        }
+      }
+
+      // 2. Match by normalized name
+      const byName = await this.matchByName(scope, displayName, normalizedName);
+      if (byName) {
+        this.logger.log(`Linked company ${byName} by name "${displayName}"`);
+        return byName;
+      }
+
+      if (options.createMissing === false) {
+        return null;
+      }
+
+      // 3. Create a new company
+      const { organizationId, workspaceId } = scope;
+      const company = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.company.create({
+          data: {
+            organizationId,
+            workspaceId,
+            name: displayName,
+            website: domain ? `https://${domain}` : null,
+            customFields: { source: 'OUTREACH_SYNC' },
+          },
+        });
+
+        await this.events.emit({ organizationId, type: 'company.created', data: created }, tx);
+        return created;
+      });
+
+      this.logger.log(`Created company ${company.id} for "${displayName}"`);
+      return company.id;
+    } catch (error) {
+      // Non-critical - the contact is still synced without a company
+      this.logger.warn(`Failed to link company "${displayName}": ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Normalize a company name for comparison:
+   * "Acme, Inc." and "ACME Inc" both become "acme".
+   */
+  normalizeCompanyName(name: string): string {
+    const tokens = name
+      .normalize('NFKD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/&/g, ' and ')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim()
+      .split(/\s+/)
+      .filter(Boolean);
+
+    // Drop trailing legal suffixes, keeping at least one token
+    while (tokens.length > 1 && LEGAL_SUFFIXES.has(tokens[tokens.length - 1])) {
+      tokens.pop();
+    }
+
+    return tokens.join(' ');
+  }
+
+  /**
+   * Extract a bare domain ("acme.com") from a URL or hostname.
+   */
+  extractDomain(website?: string | null): string | null {
+    if (!website) return null;
+
+    try {
+      const url = new URL(/^https?:\/\//i.test(website) ? website : `https://${website}`);
+      const host = url.hostname.toLowerCase().replace(/^www\./, '');
+      return host.includes('.') ? host : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * LinkedIn company strings can carry employment details,
+   * e.g. "Acme · Full-time" - keep only the company part.
+   */
+  cleanCompanyName(companyName?: string): string | null {
+    if (!companyName) return null;
+
+    const cleaned = companyName.split('·')[0].trim();
+    return cleaned.length > 0 ? cleaned : null;
+  }
+
+  private async matchByDomain(scope: CompanyScope, domain: string): Promise<string | null> {
+    const candidates = await this.prisma.company.findMany({
+      where: {
+        ...this.scopeCondition(scope),
+        website: { contains: domain, mode: 'insensitive' },
+      },
+      select: { id: true, website: true },
+      orderBy: { createdAt: 'asc' },
+      take: NAME_CANDIDATE_LIMIT,
+    });
+
+    const match = candidates.find(
+      (company) => this.extractDomain(company.website) === domain,
+    );
+    return match?.id ?? null;
+  }
+
+  private async matchByName(
+    scope: CompanyScope,
+    displayName: string,
+    normalizedName: string,
+  ): Promise<string | null> {
+    // Narrow with the longest token, then compare normalized names
+    const anchor = normalizedName
+      .split(' ')
+      .reduce((longest, token) => (token.length > longest.length ? token : longest), '');
+
+    const candidates = await this.prisma.company.findMany({
+      where: {
+        ...this.scopeCondition(scope),
+        OR: [
+          { name: { equals: displayName, mode: 'insensitive' } },
+          { name: { contains: anchor, mode: 'insensitive' } },
+        ],
+      },
+      select: { id: true, name: true },
+      orderBy: { createdAt: 'asc' },
+      take: NAME_CANDIDATE_LIMIT,
+    });
+
+    const match = candidates.find(
+      (company) => this.normalizeCompanyName(company.name) === normalizedName,
+    );
+    return match?.id ?? null;
+  }
+
+  /**
+   * Companies in the scope's workspace, or shared with the organization.
+   */
+  private scopeCondition(scope: CompanyScope): Prisma.CompanyWhereInput {
+    return {
+      organizationId: scope.organizationId,
+      AND: [{ OR: [{ workspaceId: scope.workspaceId }, { workspaceId: null }] }],
+    };
+  }
+}
@@ -12,6 +12,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
 import { ConnectionAcceptedPayload } from '../dto/outreach-sync.dto';
+import { normalizeLinkedInUrl } from '../../../common/utils/linkedin.util';
 
 export interface MatchResult {
   found: boolean;
@@ -23,6 +24,9 @@ export interface MatchResult {
     lastName: string | null;
     email: string | null;
     linkedinUrl: string | null;
+    companyId: string | null;
+    workspaceId: string | null;
+    ownerId: string | null;
     customFields: any;
   };
 }
@@ -42,20 +46,41 @@ export class ContactMatcherService {
   ): Promise<MatchResult> {
     const { urn_id, public_id, profile_url, email } = connectionData;
 
-    // 1. Try matching by LinkedIn URN ID stored in customFields
-    const urnMatch = await this.matchByUrnId(organizationId, urn_id);
-    if (urnMatch) {
-      this.logger.log(`Found contact match by URN ID: ${urnMatch.id}`);
-      return {
-        found: true,
-        contact_id: urnMatch.id,
-        match_type: 'URN_ID',
-        existing_data: urnMatch,
-      };
+    return this.findByIdentifiers(organizationId, {
+      urnId: urn_id,
+      linkedinUrl: normalizeLinkedInUrl(profile_url, public_id),
+      email,
+    });
+  }
+
+  /**
+   * Find an existing contact by LinkedIn URN, LinkedIn URL or email,
+   * in that order. Also used by CSV imports, which rarely have a URN.
+   */
+  async findByIdentifiers(
+    organizationId: string,
+    identifiers: { urnId?: string | null; linkedinUrl?: string | null; email?: string | null },
+  ): Promise<MatchResult> {
+    const { urnId, email } = identifiers;
+
+    // 1. Try matching by LinkedIn URN ID
+    if (urnId) {
+      const urnMatch = await this.matchByUrnId(organizationId, urnId);
+      if (urnMatch) {
+        this.logger.log(`Found contact match by URN ID: ${urnMatch.id}`);
+        return {
+          found: true,
+          contact_id: urnMatch.id,
+          match_type: 'URN_ID',
+          existing_data: urnMatch,
+        };
+      }
     }
 
     // 2. Try matching by LinkedIn URL
-    const normalizedUrl = this.normalizeLinkedInUrl(profile_url, public_id);
+    const normalizedUrl = identifiers.linkedinUrl
+      ? normalizeLinkedInUrl(identifiers.linkedinUrl)
+      : null;
     if (normalizedUrl) {
       const urlMatch = await this.matchByLinkedInUrl(
         organizationId,
@@ -87,7 +112,7 @@ export class ContactMatcherService {
     }
 
     // No match found
-    this.logger.log(`No existing contact found for URN: ${urn_id}`);
+    this.logger.log(`No existing contact found for URN: ${urnId ?? 'n/a'}`);
     return {
       found: false,
       match_type: 'NEW',
@@ -95,43 +120,35 @@ export class ContactMatcherService {
   }
 
   /**
-   * Match by LinkedIn URN ID stored in customFields.linkedinUrnId
+   * Match by LinkedIn URN ID via the unique (organization, urn) profile index
    */
   private async matchByUrnId(
     organizationId: string,
     urnId: string,
   ): Promise<MatchResult['existing_data'] | null> {
     try {
-      // Query contacts where customFields contains the LinkedIn URN ID
-      const contacts = await this.prisma.$queryRaw<
-        Array<{
-          id: string;
-          first_name: string;
-          last_name: string;
-          email: string | null;
-          linkedin_url: string | null;
-          custom_fields: any;
-        }>
-      >`
-        SELECT id, first_name, last_name, email, linkedin_url, custom_fields
-        FROM crm.contacts
-        WHERE organization_id = ${organizationId}::uuid
-          AND custom_fields->>'linkedinUrnId' = ${urnId}
-        LIMIT 1
-      `;
+      const profile = await this.prisma.linkedInProfile.findUnique({
+        where: {
+          organizationId_urnId: { organizationId, urnId },
+        },
+        select: {
+          contact: {
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              email: true,
+              linkedinUrl: true,
+              companyId: true,
+              workspaceId: true,
+              ownerId: true,
+              customFields: true,
+            },
+          },
+        },
+      });
 
-      if (contacts.length > 0) {
-        const contact = contacts[0];
-        return {
-          id: contact.id,
-          firstName: contact.first_name,
-          lastName: contact.last_name,
-          email: contact.email,
-          linkedinUrl: contact.linkedin_url,
-          customFields: contact.custom_fields,
-        };
-      }
-      return null;
+      return profile?.contact ?? null;
     } catch (error) {
       this.logger.error(`Error matching by URN ID: ${error}`);
       return null;
@@ -162,6 +179,9 @@ export class ContactMatcherService {
           lastName: true,
           email: true,
           linkedinUrl: true,
+          companyId: true,
+          workspaceId: true,
+          ownerId: true,
           customFields: true,
         },
       });
@@ -173,6 +193,9 @@ export class ContactMatcherService {
           lastName: contact.lastName,
           email: contact.email,
           linkedinUrl: contact.linkedinUrl,
+          companyId: contact.companyId,
+          workspaceId: contact.workspaceId,
+          ownerId: contact.ownerId,
           customFields: contact.customFields,
         };
       }
@@ -202,6 +225,9 @@ export class ContactMatcherService {
           lastName: true,
           email: true,
           linkedinUrl: true,
+          companyId: true,
+          workspaceId: true,
+          ownerId: true,
           customFields: true,
         },
       });
@@ -213,6 +239,9 @@ export class ContactMatcherService {
           lastName: contact.lastName,
           email: contact.email,
           linkedinUrl: contact.linkedinUrl,
+          companyId: contact.companyId,
+          workspaceId: contact.workspaceId,
+          ownerId: contact.ownerId,
           customFields: contact.customFields,
         };
       }
@@ -223,36 +252,6 @@ export class ContactMatcherService {
     }
   }
 
-  /**
-   * Normalize LinkedIn URL to a consistent format
-   */
-  private normalizeLinkedInUrl(
-    profileUrl?: string,
-    publicId?: string,
-  ): string | null {
-    if (publicId) {
-      return `https://www.linkedin.com/in/${publicId}`;
-    }
-
-    if (!profileUrl) return null;
-
-    // Extract public ID from various URL formats
-    const patterns = [
-      /linkedin\.com\/in\/([^/?#]+)/i,
-      /linkedin\.com\/sales\/lead\/([^/?#]+)/i,
-      /linkedin\.com\/sales\/people\/([^/?#]+)/i,
-    ];
-
-    for (const pattern of patterns) {
-      const match = profileUrl.match(pattern);
-      if (match) {
-        return `https://www.linkedin.com/in/${match[1]}`;
-      }
-    }
-
-    return profileUrl;
-  }
-
   /**
    * Generate URL variations for matching
    */
@@ -4,99 +4,72 @@
  * Handles creating new contacts or merging data into existing contacts
  * when LinkedIn connections are synced from Outreach.
  *
- * Merge Strategy:
- * - LinkedIn-specific fields: Always update (profile photo, headline, location, connected date)
- * - Basic fields (name, job title): Only update if currently empty
+ * Merge Strategy (per organization, see MergePolicyService):
+ * - LinkedIn-specific fields: Always update by default (profile photo, headline, location, connected date)
+ * - Basic fields (name, email, job title, company): Only update if currently empty by default
  * - User-managed fields (status, priority, owner): Never overwrite
+ *
+ * Applied changes are recorded in the contact history as OUTREACH_SYNC
+ * and published as contact.created / contact.updated events. New contacts
+ * go to the connection's workspace; sync activities follow their contact.
  */
 
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../../../prisma/prisma.service';
-import { ConnectionAcceptedPayload, SyncResultDto } from '../dto/outreach-sync.dto';
+import {
+  ConnectionAcceptedPayload,
+  FieldChangeDto,
+  SyncResultDto,
+} from '../dto/outreach-sync.dto';
 import { MatchResult } from './contact-matcher.service';
-import { Prisma } from '@prisma/client';
+import { CompanyLinkerService, CompanyScope } from './company-linker.service';
+import { MergeContext, MergePolicyService } from './merge-policy.service';
+import { ContactHistoryService } from '../../contacts/contact-history.service';
+import { LinkedInProfileService } from '../../contacts/linkedin-profile.service';
+import { CrmEventsService } from '../../events/crm-events.service';
+import { Contact, Prisma } from '@prisma/client';
 
 @Injectable()
 export class ContactMergerService {
   private readonly logger = new Logger(ContactMergerService.name);
 
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly companyLinker: CompanyLinkerService,
+    private readonly contactHistory: ContactHistoryService,
+    private readonly mergePolicy: MergePolicyService,
+    private readonly linkedInProfiles: LinkedInProfileService,
+    private readonly events: CrmEventsService,
+  ) {}
 
   /**
    * Create a new contact from LinkedIn connection data.
    */
   async createContact(
     organizationId: string,
+    workspaceId: string | null,
     connectionData: ConnectionAcceptedPayload['connection'],
   ): Promise<SyncResultDto> {
     try {
-      const {
-        urn_id,
-        public_id,
-        name,
-        first_name,
-        last_name,
-        headline,
-        profile_url,
-        profile_pic_url,
-        company,
-        job_title,
-        location,
-        industry,
-        email,
-        phone,
-        connected_on,
-        skills,
-        languages,
-        work_experience,
-        education,
-      } = connectionData;
-
-      // Parse name if first/last not provided
-      const { firstName, lastName } = this.parseName(name, first_name, last_name);
-
-      // Build LinkedIn-specific data to store in customFields
-      const linkedinData: Record<string, any> = {
-        linkedinUrnId: urn_id,
-        linkedinPublicId: public_id,
-        linkedinConnected: connected_on,
-        linkedinHeadline: headline,
-        linkedinLocation: location,
-        linkedinProfilePhoto: profile_pic_url,
-        linkedinIndustry: industry,
-        linkedinSkills: skills || [],
-        linkedinLanguages: languages || [],
-        linkedinWorkExperience: work_experience,
-        linkedinEducation: education,
-        syncedFromOutreach: true,
-        lastSyncedAt: new Date().toISOString(),
-      };
+      const data = await this.buildCreateData(organizationId, workspaceId, connectionData, true);
 
-      // Remove undefined values
-      Object.keys(linkedinData).forEach((key) => {
-        if (linkedinData[key] === undefined) {
-          delete linkedinData[key];
-        }
-      });
+      const contact = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.contact.create({ data });
+
+        await this.contactHistory.recordChanges(
+          {
+            organizationId,
+            contactId: created.id,
+            source: 'OUTREACH_SYNC',
+            before: {},
+            data,
+          },
+          tx,
+        );
+        await this.linkedInProfiles.syncFromContact(created, tx);
+        await this.events.emit({ organizationId, type: 'contact.created', data: created }, tx);
 
-      const contact = await this.prisma.contact.create({
-        data: {
-          organizationId,
-          firstName,
-          lastName,
-          email: email?.toLowerCase() || null,
-          phone: phone || null,
-          jobTitle: job_title || null,
-          linkedinUrl: this.normalizeLinkedInUrl(profile_url, public_id),
-          profileImageUrl: profile_pic_url || null,
-          isLead: true,
-          leadSource: 'LINKEDIN_OUTREACH',
-          leadStatus: 'NEW',
-          customFields: linkedinData as any,
-        },
-        select: {
-          id: true,
-        },
+        return created;
       });
 
       this.logger.log(`Created new contact ${contact.id} from LinkedIn connection`);
@@ -106,7 +79,7 @@ export class ContactMergerService {
         action: 'created',
         contact_id: contact.id,
         match_type: 'NEW',
-        message: `Created new contact: ${firstName} ${lastName}`,
+        message: `Created new contact: ${data.firstName} ${data.lastName}`,
       };
     } catch (error) {
       this.logger.error(`Failed to create contact: ${error}`);
@@ -120,11 +93,14 @@ export class ContactMergerService {
 
   /**
    * Merge LinkedIn connection data into an existing contact.
+   * `observedAt` is when outreach saw the data; NEWEST_WINS fields compare
+   * it with the field's last recorded change.
    */
   async mergeContact(
     matchResult: MatchResult,
     connectionData: ConnectionAcceptedPayload['connection'],
     forceUpdate: boolean = false,
+    observedAt: Date = new Date(),
   ): Promise<SyncResultDto> {
     if (!matchResult.contact_id || !matchResult.existing_data) {
       return {
@@ -135,85 +111,50 @@ export class ContactMergerService {
     }
 
     try {
-      const {
-        urn_id,
-        public_id,
-        name,
-        first_name,
-        last_name,
-        headline,
-        profile_url,
-        profile_pic_url,
-        company,
-        job_title,
-        location,
-        industry,
-        email,
-        phone,
-        connected_on,
-        skills,
-        languages,
-        work_experience,
-        education,
-      } = connectionData;
-
-      const existing = matchResult.existing_data;
-      const existingCustomFields = (existing.customFields || {}) as Record<string, any>;
-
-      // Build update data based on merge strategy
-      const updateData: Record<string, any> = {};
-
-      // Fields to always update (LinkedIn-specific)
-      const linkedinData: Record<string, any> = {
-        ...existingCustomFields,
-        linkedinUrnId: urn_id,
-        linkedinPublicId: public_id,
-        linkedinConnected: connected_on,
-        linkedinHeadline: headline,
-        linkedinLocation: location,
-        linkedinProfilePhoto: profile_pic_url,
-        linkedinIndustry: industry,
-        linkedinSkills: skills || existingCustomFields.linkedinSkills || [],
-        linkedinLanguages: languages || existingCustomFields.linkedinLanguages || [],
-        linkedinWorkExperience: work_experience || existingCustomFields.linkedinWorkExperience,
-        linkedinEducation: education || existingCustomFields.linkedinEducation,
-        syncedFromOutreach: true,
-        lastSyncedAt: new Date().toISOString(),
-      };
-
-      // Always update these fields
-      updateData.profileImageUrl = profile_pic_url || existing.linkedinUrl;
-      updateData.linkedinUrl = this.normalizeLinkedInUrl(profile_url, public_id) || existing.linkedinUrl;
-
-      // Only update if empty OR force update
-      const { firstName, lastName } = this.parseName(name, first_name, last_name);
-
-      if (forceUpdate || !existing.firstName) {
-        updateData.firstName = firstName;
-      }
-      if (forceUpdate || !existing.lastName) {
-        updateData.lastName = lastName;
-      }
-      if (forceUpdate || !existing.email) {
-        updateData.email = email?.toLowerCase() || existing.email;
-      }
+      const { updateData, current } = await this.buildMergeUpdate(
+        matchResult,
+        connectionData,
+        forceUpdate,
+        true,
+        observedAt,
+      );
+      const { firstName, lastName } = this.parseName(
+        connectionData.name,
+        connectionData.first_name,
+        connectionData.last_name,
+      );
 
-      // Add jobTitle if empty
-      const currentJobTitle = await this.prisma.contact.findUnique({
-        where: { id: matchResult.contact_id },
-        select: { jobTitle: true },
-      });
-      if (forceUpdate || !currentJobTitle?.jobTitle) {
-        updateData.jobTitle = job_title;
-      }
+      // Perform the update
+      await this.prisma.$transaction(async (tx) => {
+        const updated = await tx.contact.update({
+          where: { id: current.id },
+          data: updateData,
+        });
 
-      // Update customFields with LinkedIn data
-      updateData.customFields = linkedinData as any;
+        const changes = await this.contactHistory.recordChanges(
+          {
+            organizationId: current.organizationId,
+            contactId: current.id,
+            source: 'OUTREACH_SYNC',
+            before: current,
+            data: updateData,
+          },
+          tx,
+        );
+        await this.linkedInProfiles.syncFromContact(updated, tx);
 
-      // Perform the update
-      await this.prisma.contact.update({
-        where: { id: matchResult.contact_id },
-        data: updateData,
+        // lastSyncedAt alone isn't a change subscribers care about
+        if (changes.length > 0) {
+          await this.events.emit(
+            {
+              organizationId: current.organizationId,
+              type: 'contact.updated',
+              data: updated,
+              previous: current,
+            },
+            tx,
+          );
+        }
       });
 
       this.logger.log(
@@ -238,32 +179,50 @@ export class ContactMergerService {
   }
 
   /**
-   * Create an activity record for the sync event.
+   * Create an activity record for the sync event. With the inbox
+   * `eventId`, nothing is created if that event already logged one.
    */
   async createSyncActivity(
     organizationId: string,
     contactId: string,
     action: 'created' | 'updated',
     connectionData: ConnectionAcceptedPayload['connection'],
+    eventId?: string,
   ): Promise<void> {
     try {
-      await this.prisma.activity.create({
-        data: {
-          organizationId,
-          contactId,
-          type: action === 'created' ? 'NOTE' : 'NOTE',
-          title:
-            action === 'created'
-              ? 'Contact created from LinkedIn connection'
-              : 'Contact updated from LinkedIn sync',
-          description: `LinkedIn connection accepted. Profile: ${connectionData.name}`,
-          customFields: {
-            source: 'OUTREACH_SYNC',
-            connectionId: connectionData.id,
-            linkedinUrl: connectionData.profile_url,
-            connectedOn: connectionData.connected_on,
-          } as any,
-        },
+      await this.prisma.$transaction(async (tx) => {
+        const logged =
+          eventId && (await this.hasSyncActivity(tx, organizationId, connectionData.id, eventId));
+        if (logged) {
+          return;
+        }
+
+        const contact = await tx.contact.findUniqueOrThrow({
+          where: { id: contactId },
+          select: { workspaceId: true },
+        });
+        const activity = await tx.activity.create({
+          data: {
+            organizationId,
+            workspaceId: contact.workspaceId,
+            contactId,
+            type: action === 'created' ? 'NOTE' : 'NOTE',
+            title:
+              action === 'created'
+                ? 'Contact created from LinkedIn connection'
+                : 'Contact updated from LinkedIn sync',
+            description: `LinkedIn connection accepted. Profile: ${connectionData.name}`,
+            customFields: {
+              source: 'OUTREACH_SYNC',
+              connectionId: connectionData.id,
+              ...(eventId ? { webhookEventId: eventId } : {}),
+              linkedinUrl: connectionData.profile_url,
+              connectedOn: connectionData.connected_on,
+            } as any,
+          },
+        });
+
+        await this.events.emit({ organizationId, type: 'activity.created', data: activity }, tx);
       });
     } catch (error) {
       // Non-critical - log but don't fail
@@ -271,6 +230,303 @@ export class ContactMergerService {
     }
   }
 
+  private async hasSyncActivity(
+    tx: Prisma.TransactionClient,
+    organizationId: string,
+    connectionId: string,
+    eventId: string,
+  ): Promise<boolean> {
+    const existing = await tx.activity.count({
+      where: {
+        organizationId,
+        AND: [
+          { customFields: { path: ['connectionId'], equals: connectionId } },
+          { customFields: { path: ['webhookEventId'], equals: eventId } },
+        ],
+      },
+    });
+    return existing > 0;
+  }
+
+  /**
+   * Preview the field-level changes a sync would apply, without writing.
+   * Companies that would be created are reported but not created.
+   * New contacts would go to `workspaceId`.
+   */
+  async previewSync(
+    organizationId: string,
+    workspaceId: string | null,
+    matchResult: MatchResult,
+    connectionData: ConnectionAcceptedPayload['connection'],
+    forceUpdate: boolean = false,
+  ): Promise<FieldChangeDto[]> {
+    if (!matchResult.found || !matchResult.contact_id) {
+      const data = await this.buildCreateData(organizationId, workspaceId, connectionData, false);
+      const changes = this.toFieldChanges({}, data);
+      return this.withPendingCompany(changes, { organizationId, workspaceId }, connectionData, null);
+    }
+
+    const { updateData, current } = await this.buildMergeUpdate(
+      matchResult,
+      connectionData,
+      forceUpdate,
+      false,
+      new Date(),
+    );
+    const changes = this.toFieldChanges(current, updateData);
+
+    const mayLinkCompany = forceUpdate || !current.companyId;
+    const scope = { organizationId, workspaceId: current.workspaceId };
+    return mayLinkCompany
+      ? this.withPendingCompany(changes, scope, connectionData, current.companyId)
+      : changes;
+  }
+
+  /**
+   * Build the data for a new contact.
+   * With createCompany=false, missing companies are not created.
+   */
+  private async buildCreateData(
+    organizationId: string,
+    workspaceId: string | null,
+    connectionData: ConnectionAcceptedPayload['connection'],
+    createCompany: boolean,
+  ): Promise<Prisma.ContactUncheckedCreateInput & { firstName: string; lastName: string }> {
+    const {
+      urn_id,
+      public_id,
+      name,
+      first_name,
+      last_name,
+      headline,
+      profile_url,
+      profile_pic_url,
+      company,
+      company_website,
+      job_title,
+      location,
+      industry,
+      email,
+      phone,
+      connected_on,
+      skills,
+      languages,
+      work_experience,
+      education,
+    } = connectionData;
+
+    // Parse name if first/last not provided
+    const { firstName, lastName } = this.parseName(name, first_name, last_name);
+
+    // Build LinkedIn-specific data to store in customFields
+    const linkedinData: Record<string, any> = {
+      linkedinUrnId: urn_id,
+      linkedinPublicId: public_id,
+      linkedinConnected: connected_on,
+      linkedinHeadline: headline,
+      linkedinLocation: location,
+      linkedinProfilePhoto: profile_pic_url,
+      linkedinIndustry: industry,
+      linkedinSkills: skills || [],
+      linkedinLanguages: languages || [],
+      linkedinWorkExperience: work_experience,
+      linkedinEducation: education,
+      syncedFromOutreach: true,
+      lastSyncedAt: new Date().toISOString(),
+    };
+
+    // Remove undefined values
+    Object.keys(linkedinData).forEach((key) => {
+      if (linkedinData[key] === undefined) {
+        delete linkedinData[key];
+      }
+    });
+
+    const companyId = await this.companyLinker.linkCompany(
+      { organizationId, workspaceId },
+      company,
+      company_website,
+      { createMissing: createCompany },
+    );
+
+    return {
+      organizationId,
+      workspaceId,
+      firstName,
+      lastName,
+      email: email?.toLowerCase() || null,
+      phone: phone || null,
+      jobTitle: job_title || null,
+      linkedinUrl: this.normalizeLinkedInUrl(profile_url, public_id),
+      profileImageUrl: profile_pic_url || null,
+      isLead: true,
+      leadSource: 'LINKEDIN_OUTREACH',
+      leadStatus: 'NEW',
+      customFields: linkedinData as any,
+      companyId,
+    };
+  }
+
+  /**
+   * Build the update for an existing contact based on the organization's
+   * merge policy. With createCompany=false, missing companies are not created.
+   */
+  private async buildMergeUpdate(
+    matchResult: MatchResult,
+    connectionData: ConnectionAcceptedPayload['connection'],
+    forceUpdate: boolean,
+    createCompany: boolean,
+    observedAt: Date,
+  ): Promise<{ updateData: Record<string, any>; current: Contact }> {
+    const {
+      urn_id,
+      public_id,
+      name,
+      first_name,
+      last_name,
+      headline,
+      profile_url,
+      profile_pic_url,
+      company,
+      company_website,
+      job_title,
+      location,
+      industry,
+      email,
+      connected_on,
+      skills,
+      languages,
+      work_experience,
+      education,
+    } = connectionData;
+
+    const current = await this.prisma.contact.findUniqueOrThrow({
+      where: { id: matchResult.contact_id },
+    });
+    const policy = await this.mergePolicy.getPolicy(current.organizationId);
+    const context: MergeContext = {
+      forceUpdate,
+      observedAt,
+      lastChangedAt: await this.mergePolicy.getLastChanges(current.id, policy),
+      contactCreatedAt: current.createdAt,
+    };
+
+    // Build update data based on merge policy
+    const updateData: Record<string, any> = {};
+    const { firstName, lastName } = this.parseName(name, first_name, last_name);
+
+    const incoming = {
+      firstName,
+      lastName,
+      email: email?.toLowerCase(),
+      jobTitle: job_title,
+      linkedinUrl: this.normalizeLinkedInUrl(profile_url, public_id),
+      profileImageUrl: profile_pic_url,
+    };
+    for (const [field, value] of Object.entries(incoming) as [keyof typeof incoming, unknown][]) {
+      if (this.mergePolicy.shouldWrite(policy[field], field, current[field], value, context)) {
+        updateData[field] = value;
+      }
+    }
+
+    // Link a company from the connection's company name
+    if (this.mergePolicy.shouldWrite(policy.companyId, 'companyId', current.companyId, company, context)) {
+      const companyId = await this.companyLinker.linkCompany(
+        { organizationId: current.organizationId, workspaceId: current.workspaceId },
+        company,
+        company_website,
+        { createMissing: createCompany },
+      );
+      if (companyId) {
+        updateData.companyId = companyId;
+      }
+    }
+
+    // LinkedIn data in customFields, merged per key
+    const existingCustomFields = (current.customFields || {}) as Record<string, any>;
+    const linkedinData: Record<string, any> = {
+      linkedinUrnId: urn_id,
+      linkedinPublicId: public_id,
+      linkedinConnected: connected_on,
+      linkedinHeadline: headline,
+      linkedinLocation: location,
+      linkedinProfilePhoto: profile_pic_url,
+      linkedinIndustry: industry,
+      linkedinSkills: skills,
+      linkedinLanguages: languages,
+      linkedinWorkExperience: work_experience,
+      linkedinEducation: education,
+    };
+
+    const customFields: Record<string, any> = { ...existingCustomFields };
+    for (const [key, value] of Object.entries(linkedinData)) {
+      if (
+        this.mergePolicy.shouldWrite(
+          policy.linkedinProfile,
+          `customFields.${key}`,
+          existingCustomFields[key],
+          value,
+          context,
+        )
+      ) {
+        customFields[key] = value;
+      }
+    }
+    customFields.syncedFromOutreach = true;
+    customFields.lastSyncedAt = new Date().toISOString();
+    updateData.customFields = customFields;
+
+    return { updateData, current };
+  }
+
+  /**
+   * Compare planned values with current ones, using the contact history diff.
+   */
+  private toFieldChanges(
+    current: Record<string, any>,
+    planned: Record<string, any>,
+  ): FieldChangeDto[] {
+    return this.contactHistory.diff(current, planned).map((change) => ({
+      field: change.field,
+      from: change.previousValue,
+      to: change.newValue,
+    }));
+  }
+
+  /**
+   * Report a company that a real sync would create.
+   */
+  private async withPendingCompany(
+    changes: FieldChangeDto[],
+    scope: CompanyScope,
+    connectionData: ConnectionAcceptedPayload['connection'],
+    currentCompanyId: string | null,
+  ): Promise<FieldChangeDto[]> {
+    if (changes.some((change) => change.field === 'companyId' && change.to)) {
+      return changes;
+    }
+
+    const companyName = this.companyLinker.cleanCompanyName(connectionData.company);
+    if (!companyName) {
+      return changes;
+    }
+
+    const existingId = await this.companyLinker.linkCompany(
+      scope,
+      companyName,
+      connectionData.company_website,
+      { createMissing: false },
+    );
+    if (existingId) {
+      return changes;
+    }
+
+    return [
+      ...changes.filter((change) => change.field !== 'companyId'),
+      { field: 'companyId', from: currentCompanyId, to: { create: { name: companyName } } },
+    ];
+  }
+
   /**
    * Parse full name into first and last name.
    */
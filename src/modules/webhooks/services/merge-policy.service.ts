@@ -0,0 +1,139 @@
+/**
+ * MERGE POLICY SERVICE
+ * ====================
+ * Stores each organization's merge strategy per field and decides
+ * whether a sync may overwrite a contact value.
+ */
+
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { AuthUser } from '../../auth/interfaces/auth-user.interface';
+import {
+  DEFAULT_MERGE_POLICY,
+  MERGE_POLICY_FIELDS,
+  MergePolicy,
+  MergePolicyField,
+  MergeStrategy,
+  UpdateMergePolicyDto,
+} from '../dto/merge-policy.dto';
+
+export interface MergeContext {
+  forceUpdate: boolean;
+  /** When the outreach data was observed (webhook timestamp or now) */
+  observedAt: Date;
+  /** Last recorded change per contact history field */
+  lastChangedAt: Map<string, Date>;
+  /** Fallback for fields with no recorded change */
+  contactCreatedAt: Date;
+}
+
+@Injectable()
+export class MergePolicyService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * The organization's effective policy, with defaults for unset fields.
+   */
+  async getPolicy(organizationId: string): Promise<MergePolicy> {
+    const rows = await this.prisma.mergePolicy.findMany({
+      where: { organizationId },
+    });
+
+    const policy: MergePolicy = { ...DEFAULT_MERGE_POLICY };
+    for (const row of rows) {
+      if ((MERGE_POLICY_FIELDS as readonly string[]).includes(row.field)) {
+        policy[row.field as MergePolicyField] = row.strategy as MergeStrategy;
+      }
+    }
+
+    return policy;
+  }
+
+  async update(user: AuthUser, dto: UpdateMergePolicyDto): Promise<MergePolicy> {
+    const entries = Object.entries(dto) as [MergePolicyField, MergeStrategy | null | undefined][];
+    const resetFields = entries.filter(([, strategy]) => strategy === null).map(([field]) => field);
+
+    await this.prisma.$transaction([
+      this.prisma.mergePolicy.deleteMany({
+        where: { organizationId: user.organizationId, field: { in: resetFields } },
+      }),
+      ...entries
+        .filter(([, strategy]) => strategy)
+        .map(([field, strategy]) =>
+          this.prisma.mergePolicy.upsert({
+            where: {
+              organizationId_field: { organizationId: user.organizationId, field },
+            },
+            create: {
+              organizationId: user.organizationId,
+              field,
+              strategy: strategy!,
+              updatedBy: user.userId,
+            },
+            update: { strategy: strategy!, updatedBy: user.userId },
+          }),
+        ),
+    ]);
+
+    return this.getPolicy(user.organizationId);
+  }
+
+  /**
+   * Last change time per field, from the contact history.
+   * Only queried when a field uses NEWEST_WINS.
+   */
+  async getLastChanges(contactId: string, policy: MergePolicy): Promise<Map<string, Date>> {
+    const lastChangedAt = new Map<string, Date>();
+    if (!Object.values(policy).includes('NEWEST_WINS')) {
+      return lastChangedAt;
+    }
+
+    const rows = await this.prisma.contactFieldChange.groupBy({
+      by: ['field'],
+      where: { contactId },
+      _max: { createdAt: true },
+    });
+    for (const row of rows) {
+      if (row._max.createdAt) {
+        lastChangedAt.set(row.field, row._max.createdAt);
+      }
+    }
+
+    return lastChangedAt;
+  }
+
+  /**
+   * Whether the sync may write `incoming` over `current`.
+   * Empty incoming values never blank out data. force_update overrides
+   * every strategy except NEVER.
+   */
+  shouldWrite(
+    strategy: MergeStrategy,
+    historyField: string,
+    current: unknown,
+    incoming: unknown,
+    context: MergeContext,
+  ): boolean {
+    if (strategy === 'NEVER' || this.isEmpty(incoming)) {
+      return false;
+    }
+    if (strategy === 'ALWAYS' || context.forceUpdate || this.isEmpty(current)) {
+      return true;
+    }
+    if (strategy === 'NEWEST_WINS') {
+      const changedAt = context.lastChangedAt.get(historyField) ?? context.contactCreatedAt;
+      return context.observedAt > changedAt;
+    }
+
+    return false;
+  }
+
+  private isEmpty(value: unknown): boolean {
+    return (
+      value === null ||
+      value === undefined ||
+      value === '' ||
+      (Array.isArray(value) && value.length === 0)
+    );
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * OUTREACH SYNC SERVICE
+ * =====================
+ * Syncs one LinkedIn connection into CRM contacts:
+ * match -> create or merge -> log a sync activity -> rescore.
+ * Shared by the webhook inbox, batch sync and manual resync.
+ * New contacts go to the outreach workspace the connection came from;
+ * matched contacts keep their workspace.
+ */
+
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import {
+  ConnectionAcceptedPayload,
+  ManualSyncRequest,
+  ManualSyncResultDto,
+  SyncResultDto,
+} from '../dto/outreach-sync.dto';
+import { ContactMatcherService } from './contact-matcher.service';
+import { ContactMergerService } from './contact-merger.service';
+import { LeadScoringService } from '../../lead-scoring/lead-scoring.service';
+import { OUTREACH_CLIENT } from '../clients/outreach.client';
+import type { OutreachClient } from '../clients/outreach.client';
+
+@Injectable()
+export class OutreachSyncService {
+  private readonly logger = new Logger(OutreachSyncService.name);
+
+  constructor(
+    private readonly contactMatcher: ContactMatcherService,
+    private readonly contactMerger: ContactMergerService,
+    private readonly leadScoring: LeadScoringService,
+    @Inject(OUTREACH_CLIENT) private readonly outreachClient: OutreachClient,
+  ) {}
+
+  /**
+   * Create or update the contact for a connection.
+   * `observedAt` is when outreach saw the data (defaults to now).
+   * `eventId` is the inbox event being processed, so a replay of it doesn't
+   * log the sync activity twice.
+   */
+  async syncConnection(
+    organizationId: string,
+    workspaceId: string | null,
+    connectionData: ConnectionAcceptedPayload['connection'],
+    forceUpdate: boolean = false,
+    observedAt: Date = new Date(),
+    eventId?: string,
+  ): Promise<SyncResultDto> {
+    // 1. Try to find an existing contact
+    const matchResult = await this.contactMatcher.findMatch(
+      organizationId,
+      connectionData,
+    );
+
+    let result: SyncResultDto;
+
+    // 2. Create or merge based on match result
+    if (matchResult.found) {
+      result = await this.contactMerger.mergeContact(
+        matchResult,
+        connectionData,
+        forceUpdate,
+        observedAt,
+      );
+    } else {
+      result = await this.contactMerger.createContact(
+        organizationId,
+        workspaceId,
+        connectionData,
+      );
+    }
+
+    // 3. Create activity log if successful
+    if (result.success && result.contact_id) {
+      await this.contactMerger.createSyncActivity(
+        organizationId,
+        result.contact_id,
+        result.action as 'created' | 'updated',
+        connectionData,
+        eventId,
+      );
+      this.leadScoring.recomputeInBackground(organizationId, [result.contact_id]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Re-pull one connection from the outreach system and re-merge it.
+   * In dry-run mode nothing is written; the field-level diff is returned.
+   */
+  async resyncConnection(request: ManualSyncRequest): Promise<ManualSyncResultDto> {
+    const connectionData = await this.outreachClient.getConnection({
+      connectionId: request.connection_id,
+      organizationId: request.organization_id,
+      workspaceId: request.workspace_id,
+    });
+
+    if (!connectionData) {
+      throw new NotFoundException('Connection not found in outreach');
+    }
+
+    if (request.dry_run) {
+      const matchResult = await this.contactMatcher.findMatch(
+        request.organization_id,
+        connectionData,
+      );
+      const changes = await this.contactMerger.previewSync(
+        request.organization_id,
+        request.workspace_id,
+        matchResult,
+        connectionData,
+        request.force_update,
+      );
+
+      return {
+        dry_run: true,
+        success: true,
+        action: matchResult.found ? 'updated' : 'created',
+        contact_id: matchResult.contact_id,
+        match_type: matchResult.match_type,
+        changes,
+      };
+    }
+
+    const result = await this.syncConnection(
+      request.organization_id,
+      request.workspace_id,
+      connectionData,
+      request.force_update,
+    );
+
+    this.logger.log(
+      `Manual resync of ${request.connection_id}: ${result.action} (force: ${request.force_update})`,
+    );
+
+    return { ...result, dry_run: false };
+  }
+}
@@ -0,0 +1,273 @@
+/**
+ * SYNC JOBS SERVICE
+ * =================
+ * Runs batch syncs in the background so large imports don't time out
+ * the HTTP request.
+ *
+ * - enqueue() stores the job and returns immediately
+ * - Connections are processed with bounded concurrency (SYNC_JOB_CONCURRENCY, default 5)
+ * - Counters and per-item errors are written as the job progresses
+ * - Running jobs keep a heartbeat (see job-heartbeat.ts). On startup and then
+ *   periodically, queued jobs are resumed and jobs whose replica stopped
+ *   mid-run are failed; jobs running on other replicas are left alone
+ */
+
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnApplicationBootstrap,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { Prisma, SyncJob } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import { runWithConcurrency } from '../../../common/utils/concurrency';
+import {
+  STALE_JOB_MS,
+  staleJobCondition,
+  startHeartbeat,
+} from '../../../common/utils/job-heartbeat';
+import {
+  BatchSyncPayload,
+  ConnectionData,
+  SyncJobErrorDto,
+  SyncJobStatusDto,
+} from '../dto/outreach-sync.dto';
+import { OutreachSyncService } from './outreach-sync.service';
+
+const DEFAULT_CONCURRENCY = 5;
+
+// Per-item errors kept on the job; later ones are only counted
+const MAX_STORED_ERRORS = 500;
+
+@Injectable()
+export class SyncJobsService implements OnApplicationBootstrap, OnModuleDestroy {
+  private readonly logger = new Logger(SyncJobsService.name);
+  private readonly concurrency: number;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly outreachSync: OutreachSyncService,
+  ) {
+    const concurrency = Number(process.env.SYNC_JOB_CONCURRENCY);
+    this.concurrency =
+      Number.isInteger(concurrency) && concurrency > 0 ? concurrency : DEFAULT_CONCURRENCY;
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    await this.recover();
+
+    this.timer = setInterval(() => this.recover(), STALE_JOB_MS);
+    this.timer.unref();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Fail jobs whose replica stopped and start queued ones. Running jobs
+   * elsewhere keep their heartbeat fresh.
+   */
+  private async recover(): Promise<void> {
+    try {
+      const interrupted = await this.prisma.syncJob.updateMany({
+        where: { status: 'RUNNING', ...staleJobCondition() },
+        data: { status: 'FAILED', finishedAt: new Date() },
+      });
+      if (interrupted.count > 0) {
+        this.logger.warn(`Marked ${interrupted.count} interrupted sync jobs as failed`);
+      }
+
+      const queued = await this.prisma.syncJob.findMany({
+        where: { status: 'QUEUED' },
+        select: { id: true },
+        orderBy: { createdAt: 'asc' },
+      });
+      for (const job of queued) {
+        this.start(job.id);
+      }
+    } catch (error) {
+      this.logger.error(`Failed to resume sync jobs: ${error}`);
+    }
+  }
+
+  /**
+   * Store a batch sync job and start it in the background.
+   */
+  async enqueue(payload: BatchSyncPayload): Promise<SyncJobStatusDto> {
+    const job = await this.prisma.syncJob.create({
+      data: {
+        organizationId: payload.organization_id,
+        workspaceId: payload.workspace_id ?? null,
+        payload: payload.connections as Prisma.InputJsonValue,
+        total: payload.connections.length,
+      },
+    });
+
+    this.logger.log(`Queued sync job ${job.id} with ${job.total} connections`);
+    this.start(job.id);
+
+    return this.toStatus(job);
+  }
+
+  /**
+   * Current status of a job.
+   */
+  async getStatus(id: string): Promise<SyncJobStatusDto> {
+    const job = await this.prisma.syncJob.findUnique({ where: { id } });
+
+    if (!job) {
+      throw new NotFoundException('Sync job not found');
+    }
+
+    return this.toStatus(job);
+  }
+
+  /**
+   * Fire-and-forget wrapper around run().
+   */
+  private start(jobId: string): void {
+    setImmediate(() => {
+      this.run(jobId).catch((error) => {
+        this.logger.error(`Sync job ${jobId} crashed: ${error}`);
+      });
+    });
+  }
+
+  private async run(jobId: string): Promise<void> {
+    // Claim the job so it only runs once
+    const claimed = await this.prisma.syncJob.updateMany({
+      where: { id: jobId, status: 'QUEUED' },
+      data: { status: 'RUNNING', startedAt: new Date(), heartbeatAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return;
+    }
+    const stopHeartbeat = startHeartbeat(
+      () =>
+        this.prisma.syncJob.update({ where: { id: jobId }, data: { heartbeatAt: new Date() } }),
+      (error) => this.logger.warn(`Sync job ${jobId}: heartbeat failed: ${error}`),
+    );
+
+    try {
+      await this.processJob(jobId);
+    } finally {
+      stopHeartbeat();
+    }
+  }
+
+  private async processJob(jobId: string): Promise<void> {
+    const job = await this.prisma.syncJob.findUniqueOrThrow({ where: { id: jobId } });
+    const connections = job.payload as unknown as ConnectionData[];
+    const errors: SyncJobErrorDto[] = [];
+    const counters = { processed: 0, created: 0, updated: 0, skipped: 0 };
+
+    try {
+      await runWithConcurrency(connections, this.concurrency, async (connection, index) => {
+        let action: 'created' | 'updated' | 'skipped' = 'skipped';
+
+        try {
+          const result = await this.outreachSync.syncConnection(
+            job.organizationId,
+            job.workspaceId,
+            connection,
+            false,
+            job.createdAt,
+          );
+          action = result.action;
+
+          if (!result.success) {
+            this.recordError(errors, index, connection, result.error ?? 'Sync failed');
+          }
+        } catch (error) {
+          this.recordError(
+            errors,
+            index,
+            connection,
+            error instanceof Error ? error.message : 'Unknown error',
+          );
+        }
+
+        counters.processed++;
+        counters[action]++;
+
+        // Progress only: a failed write must not fail the job while other lanes keep syncing
+        try {
+          await this.prisma.syncJob.update({
+            where: { id: jobId },
+            data: {
+              processed: { increment: 1 },
+              [action]: { increment: 1 },
+              ...(action === 'skipped'
+                ? { errors: errors as unknown as Prisma.InputJsonValue }
+                : {}),
+            },
+          });
+        } catch (error) {
+          this.logger.warn(`Sync job ${jobId}: failed to record item ${index}: ${error}`);
+        }
+      });
+
+      // Leave the job alone if it was failed as stale meanwhile
+      const completed = await this.prisma.syncJob.updateMany({
+        where: { id: jobId, status: 'RUNNING' },
+        data: {
+          ...counters,
+          status: 'COMPLETED',
+          finishedAt: new Date(),
+          errors: errors as unknown as Prisma.InputJsonValue,
+        },
+      });
+      if (completed.count === 0) {
+        this.logger.warn(`Sync job ${jobId} was failed as stale while running`);
+        return;
+      }
+
+      const finished = await this.prisma.syncJob.findUniqueOrThrow({ where: { id: jobId } });
+      this.logger.log(
+        `Sync job ${jobId} completed: ${finished.created} created, ${finished.updated} updated, ${finished.skipped} skipped`,
+      );
+    } catch (error) {
+      this.logger.error(`Sync job ${jobId} failed: ${error}`);
+      await this.prisma.syncJob.updateMany({
+        where: { id: jobId, status: 'RUNNING' },
+        data: {
+          ...counters,
+          status: 'FAILED',
+          finishedAt: new Date(),
+          errors: errors as unknown as Prisma.InputJsonValue,
+        },
+      });
+    }
+  }
+
+  private recordError(
+    errors: SyncJobErrorDto[],
+    index: number,
+    connection: ConnectionData,
+    message: string,
+  ): void {
+    if (errors.length < MAX_STORED_ERRORS) {
+      errors.push({ index, connection_id: connection.id, error: message });
+    }
+  }
+
+  private toStatus(job: SyncJob): SyncJobStatusDto {
+    return {
+      job_id: job.id,
+      status: job.status as SyncJobStatusDto['status'],
+      total: job.total,
+      processed: job.processed,
+      created: job.created,
+      updated: job.updated,
+      skipped: job.skipped,
+      errors: (job.errors ?? []) as unknown as SyncJobErrorDto[],
+      started_at: job.startedAt?.toISOString() ?? null,
+      finished_at: job.finishedAt?.toISOString() ?? null,
+    };
+  }
+}
@@ -0,0 +1,258 @@
+/**
+ * WEBHOOK INBOX SERVICE
+ * =====================
+ * Persists every incoming outreach webhook before processing it,
+ * so failed or lost events can be inspected and replayed.
+ *
+ * - Events are deduplicated on (source, event_type, connection.id)
+ * - A PROCESSED event is never processed again, so duplicate
+ *   deliveries can't create a second activity
+ * - Processing is claimed atomically (RECEIVED/FAILED -> PROCESSING). An
+ *   event left PROCESSING for STALE_PROCESSING_MS was abandoned by a replica
+ *   that stopped, and can be claimed again (and is replayed with the failed ones);
+ *   the sync activity is keyed to the event, so a replay doesn't log it twice
+ */
+
+import {
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, WebhookEvent } from '@prisma/client';
+import { PrismaService } from '../../../prisma/prisma.service';
+import {
+  ConnectionAcceptedPayload,
+  ListWebhookEventsQueryDto,
+  SyncResultDto,
+} from '../dto/outreach-sync.dto';
+import { OutreachSyncService } from './outreach-sync.service';
+import {
+  cursorArgs,
+  PaginatedResult,
+  toPaginatedResult,
+} from '../../../common/dto/pagination.dto';
+
+const OUTREACH_SOURCE = 'OUTREACH';
+
+// How many failed events a single bulk replay processes
+const REPLAY_BATCH_LIMIT = 100;
+
+// Processing one event takes seconds; one PROCESSING this long was abandoned
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+@Injectable()
+export class WebhookInboxService {
+  private readonly logger = new Logger(WebhookInboxService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly outreachSync: OutreachSyncService,
+  ) {}
+
+  /**
+   * Record a connection-accepted webhook. Returns the existing event
+   * when the same connection/event type was already received.
+   */
+  async record(
+    payload: ConnectionAcceptedPayload,
+  ): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+    // Never persist the shared secret
+    const { webhook_secret: _secret, ...storedPayload } = payload;
+
+    try {
+      const event = await this.prisma.webhookEvent.create({
+        data: {
+          source: OUTREACH_SOURCE,
+          eventType: payload.event_type,
+          externalId: payload.connection.id,
+          organizationId: payload.source.organization_id,
+          payload: storedPayload as Prisma.InputJsonValue,
+        },
+      });
+
+      return { event, duplicate: false };
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const event = await this.prisma.webhookEvent.findUniqueOrThrow({
+          where: {
+            source_eventType_externalId: {
+              source: OUTREACH_SOURCE,
+              eventType: payload.event_type,
+              externalId: payload.connection.id,
+            },
+          },
+        });
+
+        this.logger.log(`Duplicate delivery for event ${event.id} (${event.status})`);
+        return { event, duplicate: true };
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Process a recorded event and store the outcome.
+   */
+  async process(event: WebhookEvent): Promise<SyncResultDto> {
+    if (event.status === 'PROCESSED') {
+      return this.duplicateResult(event);
+    }
+
+    // Claim the event so concurrent deliveries don't process it twice
+    const claimed = await this.prisma.webhookEvent.updateMany({
+      where: {
+        id: event.id,
+        OR: [{ status: { in: ['RECEIVED', 'FAILED'] } }, this.abandonedCondition()],
+      },
+      data: { status: 'PROCESSING', attempts: { increment: 1 } },
+    });
+
+    if (claimed.count === 0) {
+      return {
+        success: false,
+        action: 'skipped',
+        message: 'Event is already being processed',
+      };
+    }
+
+    const payload = event.payload as unknown as ConnectionAcceptedPayload;
+
+    let result: SyncResultDto;
+    try {
+      result = await this.outreachSync.syncConnection(
+        payload.source.organization_id,
+        payload.source.workspace_id,
+        payload.connection,
+        false,
+        new Date(payload.timestamp),
+        event.id,
+      );
+    } catch (error) {
+      result = {
+        success: false,
+        action: 'skipped',
+        error: error instanceof Error ? error.message : 'Processing failed',
+      };
+    }
+
+    await this.prisma.webhookEvent.update({
+      where: { id: event.id },
+      data: result.success
+        ? {
+            status: 'PROCESSED',
+            processedAt: new Date(),
+            lastError: null,
+            result: result as unknown as Prisma.InputJsonValue,
+          }
+        : {
+            status: 'FAILED',
+            lastError: result.error ?? 'Processing failed',
+            result: result as unknown as Prisma.InputJsonValue,
+          },
+    });
+
+    return result;
+  }
+
+  /**
+   * List inbox events for an organization.
+   */
+  async list(
+    organizationId: string,
+    query: ListWebhookEventsQueryDto,
+  ): Promise<PaginatedResult<WebhookEvent>> {
+    const rows = await this.prisma.webhookEvent.findMany({
+      where: {
+        organizationId,
+        ...(query.status ? { status: query.status } : {}),
+        ...(query.eventType ? { eventType: query.eventType } : {}),
+      },
+      orderBy: [{ receivedAt: 'desc' }, { id: 'desc' }],
+      ...cursorArgs(query),
+    });
+
+    return toPaginatedResult(rows, query.limit);
+  }
+
+  /**
+   * Get a single inbox event.
+   */
+  async get(organizationId: string, id: string): Promise<WebhookEvent> {
+    const event = await this.prisma.webhookEvent.findFirst({
+      where: { id, organizationId },
+    });
+
+    if (!event) {
+      throw new NotFoundException('Webhook event not found');
+    }
+
+    return event;
+  }
+
+  /**
+   * Replay one event. Processed events are never replayed.
+   */
+  async replay(organizationId: string, id: string): Promise<SyncResultDto> {
+    const event = await this.get(organizationId, id);
+
+    if (event.status === 'PROCESSED') {
+      throw new ConflictException('Event was already processed');
+    }
+
+    this.logger.log(`Replaying webhook event ${id} (attempt ${event.attempts + 1})`);
+    return this.process(event);
+  }
+
+  /**
+   * Replay failed and abandoned events for an organization, oldest first.
+   */
+  async replayFailed(
+    organizationId: string,
+  ): Promise<{ total: number; succeeded: number; failed: number }> {
+    const events = await this.prisma.webhookEvent.findMany({
+      where: { organizationId, OR: [{ status: 'FAILED' }, this.abandonedCondition()] },
+      orderBy: { receivedAt: 'asc' },
+      take: REPLAY_BATCH_LIMIT,
+    });
+
+    let succeeded = 0;
+    for (const event of events) {
+      const result = await this.process(event);
+      if (result.success) succeeded++;
+    }
+
+    this.logger.log(
+      `Replayed ${events.length} failed events: ${succeeded} succeeded`,
+    );
+
+    return {
+      total: events.length,
+      succeeded,
+      failed: events.length - succeeded,
+    };
+  }
+
+  private abandonedCondition(): Prisma.WebhookEventWhereInput {
+    return {
+      status: 'PROCESSING',
+      updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) },
+    };
+  }
+
+  private duplicateResult(event: WebhookEvent): SyncResultDto {
+    const stored = (event.result ?? {}) as unknown as Partial<SyncResultDto>;
+
+    return {
+      success: true,
+      action: 'skipped',
+      contact_id: stored.contact_id,
+      match_type: stored.match_type,
+      message: 'Duplicate delivery - event already processed',
+    };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * WEBHOOK SIGNATURE SERVICE
+ * =========================
+ * Verifies outreach webhook requests.
+ *
+ * Signed mode (default):
+ * - X-Outreach-Timestamp: unix seconds when the request was signed
+ * - X-Outreach-Signature: sha256=<hex HMAC-SHA256 of "<timestamp>.<raw body>">
+ * - Requests outside the replay window are rejected
+ * - Several secrets can be active at once to allow rotation
+ *
+ * Legacy mode (opt-in via OUTREACH_WEBHOOK_LEGACY_BODY_SECRET=true):
+ * - Unsigned requests may authenticate with `webhook_secret` in the JSON body
+ *
+ * Configuration:
+ * - OUTREACH_WEBHOOK_SECRETS: comma-separated active secrets
+ * - OUTREACH_WEBHOOK_SECRET: single secret, kept for existing deployments
+ * - OUTREACH_WEBHOOK_TOLERANCE_SECONDS: replay window (default 300)
+ *
+ * With no secret configured every webhook is rejected.
+ */
+
+import { Injectable, Logger } from '@nestjs/common';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export const SIGNATURE_HEADER = 'x-outreach-signature';
+export const TIMESTAMP_HEADER = 'x-outreach-timestamp';
+
+const SIGNATURE_SCHEME = 'sha256=';
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+export interface WebhookVerificationInput {
+  rawBody?: Buffer;
+  signature?: string;
+  timestamp?: string;
+  bodySecret?: unknown;
+}
+
+export type WebhookVerificationResult =
+  | { valid: true; mode: 'signature' | 'legacy' }
+  | { valid: false; reason: string };
+
+@Injectable()
+export class WebhookSignatureService {
+  private readonly logger = new Logger(WebhookSignatureService.name);
+  private readonly secrets: string[];
+  private readonly toleranceSeconds: number;
+  private readonly legacyBodySecret: boolean;
+
+  constructor() {
+    this.secrets = [
+      ...(process.env.OUTREACH_WEBHOOK_SECRETS || '').split(','),
+      process.env.OUTREACH_WEBHOOK_SECRET || '',
+    ]
+      .map((secret) => secret.trim())
+      .filter((secret, index, all) => secret && all.indexOf(secret) === index);
+
+    const tolerance = Number(process.env.OUTREACH_WEBHOOK_TOLERANCE_SECONDS);
+    this.toleranceSeconds =
+      Number.isFinite(tolerance) && tolerance > 0 ? tolerance : DEFAULT_TOLERANCE_SECONDS;
+
+    this.legacyBodySecret = process.env.OUTREACH_WEBHOOK_LEGACY_BODY_SECRET === 'true';
+
+    if (this.secrets.length === 0) {
+      this.logger.error(
+        'No outreach webhook secret configured - all outreach webhooks will be rejected',
+      );
+    }
+    if (this.legacyBodySecret) {
+      this.logger.warn('Legacy body-secret webhook authentication is enabled');
+    }
+  }
+
+  /**
+   * Verify a webhook request.
+   */
+  verify(input: WebhookVerificationInput): WebhookVerificationResult {
+    if (this.secrets.length === 0) {
+      return { valid: false, reason: 'Webhook authentication not configured' };
+    }
+
+    if (input.signature) {
+      return this.verifySignature(input);
+    }
+
+    if (this.legacyBodySecret && typeof input.bodySecret === 'string') {
+      return this.secrets.some((secret) => this.safeEqual(secret, input.bodySecret as string))
+        ? { valid: true, mode: 'legacy' }
+        : { valid: false, reason: 'Invalid webhook secret' };
+    }
+
+    return { valid: false, reason: 'Missing webhook signature' };
+  }
+
+  /**
+   * Compute the signature header value for a body.
+   * Used by tests and tooling that send signed webhooks.
+   */
+  sign(secret: string, timestamp: string, rawBody: Buffer | string): string {
+    const digest = createHmac('sha256', secret)
+      .update(`${timestamp}.`)
+      .update(rawBody)
+      .digest('hex');
+
+    return `${SIGNATURE_SCHEME}${digest}`;
+  }
+
+  private verifySignature(input: WebhookVerificationInput): WebhookVerificationResult {
+    const timestamp = Number(input.timestamp);
+    if (!input.timestamp || !Number.isInteger(timestamp)) {
+      return { valid: false, reason: 'Missing or invalid webhook timestamp' };
+    }
+
+    const ageSeconds = Math.abs(Date.now() / 1000 - timestamp);
+    if (ageSeconds > this.toleranceSeconds) {
+      return { valid: false, reason: 'Webhook timestamp outside the allowed window' };
+    }
+
+    if (!input.signature?.startsWith(SIGNATURE_SCHEME)) {
+      return { valid: false, reason: 'Unsupported webhook signature scheme' };
+    }
+
+    const rawBody = input.rawBody ?? Buffer.alloc(0);
+    const matches = this.secrets.some((secret) =>
+      this.safeEqual(this.sign(secret, input.timestamp as string, rawBody), input.signature as string),
+    );
+
+    return matches
+      ? { valid: true, mode: 'signature' }
+      : { valid: false, reason: 'Invalid webhook signature' };
+  }
+
+  /**
+   * Timing-safe string comparison.
+   */
+  private safeEqual(expected: string, provided: string): boolean {
+    const expectedBuffer = Buffer.from(expected);
+    const providedBuffer = Buffer.from(provided);
+
+    if (expectedBuffer.length !== providedBuffer.length) {
+      return false;
+    }
+
+    return timingSafeEqual(expectedBuffer, providedBuffer);
+  }
+}
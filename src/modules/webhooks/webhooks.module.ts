@@ -4,16 +4,56 @@
  * Handles incoming webhooks from external services.
  * Currently supports:
  * - Outreach sync (LinkedIn connection data from White Walker)
+ * - Webhook inbox admin (inspect and replay received events)
+ * - Manual resync of a single connection
+ * - Per-organization merge policies for synced fields
  */
 
 import { Module } from '@nestjs/common';
+import { AuthModule } from '../auth/auth.module';
+import { EventsModule } from '../events/events.module';
+import { ContactsModule } from '../contacts/contacts.module';
+import { LeadScoringModule } from '../lead-scoring/lead-scoring.module';
 import { OutreachSyncController } from './controllers/outreach-sync.controller';
+import { WebhookEventsController } from './controllers/webhook-events.controller';
+import { ManualSyncController } from './controllers/manual-sync.controller';
+import { MergePolicyController } from './controllers/merge-policy.controller';
 import { ContactMatcherService } from './services/contact-matcher.service';
 import { ContactMergerService } from './services/contact-merger.service';
+import { CompanyLinkerService } from './services/company-linker.service';
+import { MergePolicyService } from './services/merge-policy.service';
+import { OutreachSyncService } from './services/outreach-sync.service';
+import { WebhookInboxService } from './services/webhook-inbox.service';
+import { SyncJobsService } from './services/sync-jobs.service';
+import { WebhookSignatureService } from './services/webhook-signature.service';
+import { OutreachWebhookGuard } from './guards/outreach-webhook.guard';
+import { HttpOutreachClient, OUTREACH_CLIENT } from './clients/outreach.client';
 
 @Module({
-  controllers: [OutreachSyncController],
-  providers: [ContactMatcherService, ContactMergerService],
-  exports: [ContactMatcherService, ContactMergerService],
+  imports: [AuthModule, EventsModule, ContactsModule, LeadScoringModule],
+  controllers: [
+    OutreachSyncController,
+    WebhookEventsController,
+    ManualSyncController,
+    MergePolicyController,
+  ],
+  providers: [
+    ContactMatcherService,
+    ContactMergerService,
+    CompanyLinkerService,
+    MergePolicyService,
+    OutreachSyncService,
+    WebhookInboxService,
+    WebhookSignatureService,
+    OutreachWebhookGuard,
+    SyncJobsService,
+    { provide: OUTREACH_CLIENT, useClass: HttpOutreachClient },
+  ],
+  exports: [
+    ContactMatcherService,
+    ContactMergerService,
+    CompanyLinkerService,
+    OutreachSyncService,
+  ],
 })
 export class WebhooksModule {}